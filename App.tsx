@@ -1,55 +1,91 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import FileUpload from './components/FileUpload';
+import MultiFileUpload from './components/MultiFileUpload';
 import ResultDisplay from './components/ResultDisplay';
+import SectionSelector from './components/SectionSelector';
+import StyleProfilePanel from './components/StyleProfilePanel';
+import CitationRulesPanel from './components/CitationRulesPanel';
 import SpinnerIcon from './components/icons/SpinnerIcon';
 import { useMigrationWorkflow } from './hooks/useMigrationWorkflow';
-import { saveFileToStorage, loadFileFromStorage, removeFileFromStorage } from './utils/storage';
+import { useStyleProfiles } from './hooks/useStyleProfiles';
+import { useCitationRuleSets } from './hooks/useCitationRuleSets';
+import { getAnalysisConfig } from './src/config';
+import {
+  saveFileToStorage,
+  loadFileFromStorage,
+  removeFileFromStorage,
+  saveFilesToStorage,
+  loadFilesFromStorage,
+  loadReviewSession
+} from './utils/storage';
 
 const App: React.FC = () => {
-  const [samplePaper, setSamplePaper] = useState<File | null>(null);
+  const [samplePapers, setSamplePapers] = useState<File[]>([]);
   const [draftPaper, setDraftPaper] = useState<File | null>(null);
+  const [selectedSections, setSelectedSections] = useState<number[] | null>(null);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  // 最近一次运行使用的范文文件（使用风格档案时为空），用于保存为档案
+  const [runSamplePapers, setRunSamplePapers] = useState<File[]>([]);
 
   const {
     isIdle,
     isLoading,
     isSuccess,
     isError,
+    isCancelled,
     result,
     error,
     progress,
     downloadLinks,
-    startMigration
+    startMigration,
+    resumeMigration,
+    cancelMigration,
+    setMergedDocument,
+    restoreResult
   } = useMigrationWorkflow();
 
+  const { profiles, saveProfile, importProfile, exportProfile, deleteProfile } = useStyleProfiles();
+  const selectedProfile = profiles.find((profile) => profile.id === selectedProfileId);
+  const citationRules = useCitationRuleSets();
+
   // Load persisted files from local storage on initial component mount
   useEffect(() => {
     const loadPersistedFiles = async () => {
-      const [persistedSample, persistedDraft] = await Promise.all([
-        loadFileFromStorage('samplePaper'),
+      const [persistedSamples, legacySample, persistedDraft] = await Promise.all([
+        loadFilesFromStorage('samplePapers'),
+        loadFileFromStorage('samplePaper'), // 旧版本只保存单篇范文
         loadFileFromStorage('draftPaper'),
       ]);
 
-      if (persistedSample) {
-        setSamplePaper(persistedSample);
-      }
+      const samples = persistedSamples.length > 0 ? persistedSamples : legacySample ? [legacySample] : [];
+      setSamplePapers(samples);
       if (persistedDraft) {
         setDraftPaper(persistedDraft);
       }
+
+      // 任务模式下继续上次未完成（或已完成但未取回）的任务；没有任务时继续上次的审阅
+      const resumed = await resumeMigration({ samplePapers: samples, draftPaper: persistedDraft });
+      const reviewSession = resumed ? null : loadReviewSession();
+      if (reviewSession) {
+        restoreResult(reviewSession.result);
+      }
     };
     loadPersistedFiles();
-  }, []); 
+  }, [resumeMigration, restoreResult]); 
 
-  const handleSampleFileSelect = async (file: File | null) => {
-    setSamplePaper(file);
-    if (file) {
-      await saveFileToStorage('samplePaper', file);
+  const handleSampleFilesChange = async (files: File[]) => {
+    setSamplePapers(files);
+    removeFileFromStorage('samplePaper');
+    if (files.length > 0) {
+      await saveFilesToStorage('samplePapers', files);
     } else {
-      removeFileFromStorage('samplePaper');
+      removeFileFromStorage('samplePapers');
     }
   };
 
   const handleDraftFileSelect = async (file: File | null) => {
     setDraftPaper(file);
+    setSelectedSections(null);
     if (file) {
       await saveFileToStorage('draftPaper', file);
     } else {
@@ -58,8 +94,15 @@ const App: React.FC = () => {
   };
 
   const handleMigrateClick = useCallback(() => {
-    startMigration({ samplePaper, draftPaper });
-  }, [samplePaper, draftPaper, startMigration]);
+    setRunSamplePapers(selectedProfile ? [] : samplePapers);
+    startMigration({
+      samplePapers,
+      draftPaper,
+      selectedSections: selectedSections ?? undefined,
+      styleProfile: selectedProfile,
+      citationRules: citationRules.activeRuleSet,
+    });
+  }, [samplePapers, draftPaper, selectedSections, selectedProfile, citationRules.activeRuleSet, startMigration]);
   
   const mainTitle = 'PaperMirror: AI Academic Style Transfer';
   const mainDescription = 'Transform your draft into a publication-ready manuscript by mirroring the style of top-tier journals. ';
@@ -85,38 +128,87 @@ const App: React.FC = () => {
                 1. Upload Files
               </h2>
               <div className="space-y-4">
-                <FileUpload
-                  id="sample-paper"
-                  label={'Sample Paper'}
-                  onFileSelect={handleSampleFileSelect}
-                  file={samplePaper}
+                <StyleProfilePanel
+                  profiles={profiles}
+                  selectedProfileId={selectedProfile ? selectedProfileId : null}
+                  onSelect={setSelectedProfileId}
+                  onImport={importProfile}
+                  onExport={exportProfile}
+                  onDelete={deleteProfile}
+                  saveSource={
+                    isSuccess && runSamplePapers.length > 0
+                      ? { samplePapers: runSamplePapers, styleGuide: result?.artifacts?.styleGuide }
+                      : null
+                  }
+                  onSave={saveProfile}
+                  disabled={isLoading}
                 />
+                {!selectedProfile && (
+                  <MultiFileUpload
+                    id="sample-paper"
+                    label={'Sample Papers'}
+                    onFilesChange={handleSampleFilesChange}
+                    files={samplePapers}
+                  />
+                )}
                 <FileUpload
                   id="draft-paper"
                   label="Draft Paper"
                   onFileSelect={handleDraftFileSelect}
                   file={draftPaper}
                 />
+                <SectionSelector
+                  draftPaper={draftPaper}
+                  selectedSections={selectedSections}
+                  onChange={setSelectedSections}
+                  disabled={isLoading}
+                />
+                {/* 引用建议只在完整分析模式下生成 */}
+                {getAnalysisConfig().mode === 'full' && (
+                  <div className="pt-4 border-t border-slate-100">
+                    <CitationRulesPanel
+                      ruleSets={citationRules.ruleSets}
+                      activeRuleSetId={citationRules.activeRuleSet.id}
+                      onSelect={citationRules.selectRuleSet}
+                      onSave={citationRules.saveRuleSet}
+                      onImport={citationRules.importRuleSet}
+                      onExport={citationRules.exportRuleSet}
+                      onDelete={citationRules.deleteRuleSet}
+                      draftPaper={draftPaper}
+                      disabled={isLoading}
+                    />
+                  </div>
+                )}
               </div>
             </div>
             <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
                <h2 className="text-lg font-semibold text-slate-800 border-b pb-3 mb-4">
                 2. Start
               </h2>
-              <button
-                onClick={handleMigrateClick}
-                disabled={!samplePaper || !draftPaper || isLoading}
-                className="w-full flex items-center justify-center bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg shadow-md hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-              >
-                {isLoading ? (
-                  <>
-                    <SpinnerIcon />
-                    {progress?.stage || 'Initializing...'}
-                  </>
-                ) : (
-                  '开始迁移'
+              <div className="flex gap-2">
+                <button
+                  onClick={handleMigrateClick}
+                  disabled={(samplePapers.length === 0 && !selectedProfile) || !draftPaper || isLoading || selectedSections?.length === 0}
+                  className="flex-1 min-w-0 flex items-center justify-center bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg shadow-md hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  {isLoading ? (
+                    <>
+                      <SpinnerIcon />
+                      <span className="truncate">{progress?.stage || 'Initializing...'}</span>
+                    </>
+                  ) : (
+                    '开始迁移'
+                  )}
+                </button>
+                {isLoading && (
+                  <button
+                    onClick={cancelMigration}
+                    className="flex-shrink-0 bg-white text-slate-700 font-semibold py-3 px-4 rounded-lg border border-slate-300 shadow-sm hover:bg-red-50 hover:text-red-700 hover:border-red-300 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                  >
+                    取消
+                  </button>
                 )}
-              </button>
+              </div>
                {error && <p className="text-red-600 text-sm mt-4">{error.message || String(error)}</p>}
             </div>
           </aside>
@@ -127,10 +219,12 @@ const App: React.FC = () => {
               isLoading={isLoading}
               isSuccess={isSuccess}
               isError={isError}
+              isCancelled={isCancelled}
               error={error}
               result={result}
               downloadLinks={downloadLinks}
               progress={progress}
+              onMergedChange={setMergedDocument}
             />
           </section>
         </div>
@@ -1,37 +1,121 @@
 
-import React from 'react';
-import type { AnalysisReport as AnalysisReportType, DetailedMetrics, CitationSuggestion, FidelityAlert } from '@papermirror/types';
+import React, { useRef, useState } from 'react';
+import type {
+  AnalysisReport as AnalysisReportType,
+  BibEntry,
+  CitationStyle,
+  DetailedMetrics,
+  MetricsSpread,
+  MirrorScore,
+  RewriteVariant,
+  VariantAlignment,
+  AlignmentKind,
+  CitationSuggestion,
+  FidelityAlert,
+  FidelityGuardrails
+} from '@papermirror/types';
+import { BIBLIOGRAPHY_EXTENSIONS, matchCitation } from '../utils/bibliography';
+import type { LibraryIndex } from '../utils/bibliography';
+
+/** 引用建议与本地文献库匹配所需的状态和操作，由结果页提供 */
+export interface CitationLibraryControls {
+  fileName?: string;
+  entries: BibEntry[];
+  index: LibraryIndex | null;
+  style: CitationStyle;
+  onStyleChange: (style: CitationStyle) => void;
+  onImport: (file: File) => Promise<unknown>;
+  onClear: () => void;
+  /** anchor 为建议句子的开头，用于在审阅单元中定位插入位置 */
+  isInserted: (anchor: string, key: string) => boolean;
+  /** 找不到对应的审阅单元时返回 false */
+  onToggle: (anchor: string, key: string) => boolean;
+}
 
 interface AnalysisReportProps {
   report: AnalysisReportType;
+  /** 点击保真度警报时跳转到对应句子；未提供时警报不可点击 */
+  onAlertSelect?: (alert: FidelityAlert, variant: RewriteVariant) => void;
+  /** 未提供时只显示检索关键词，不做文献匹配 */
+  citationLibrary?: CitationLibraryControls;
 }
 
-const MetricCard: React.FC<{ title: string; value: number | string; unit?: string; small?: boolean }> = ({ title, value, unit, small }) => (
+const MetricCard: React.FC<{
+  title: string;
+  value: number | string;
+  unit?: string;
+  small?: boolean;
+  stdDev?: number;
+}> = ({ title, value, unit, small, stdDev }) => (
   <div className="bg-slate-100 p-3 rounded-lg text-center">
     <h4 className="text-xs font-medium text-slate-500">{title}</h4>
     <p className={`${small ? 'text-lg' : 'text-xl'} font-semibold text-slate-800 mt-1`}>
       {value}
       {unit && <span className="text-sm font-normal text-slate-600 ml-1">{unit}</span>}
     </p>
+    {stdDev !== undefined && <p className="text-xs text-slate-500">±{stdDev.toFixed(1)}</p>}
   </div>
 );
 
-const DetailedMetricsDisplay: React.FC<{ title: string; metrics: DetailedMetrics; highlight?: boolean }> = ({ title, metrics, highlight }) => (
-  <div className={`p-4 border rounded-lg ${highlight ? 'border-blue-300 bg-blue-50' : 'border-slate-200'}`}>
-    <h3 className="font-semibold text-slate-800 mb-3">{title}</h3>
-    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
-      <MetricCard title="平均句长" value={metrics.sentenceLength.mean.toFixed(1)} unit="chars" small />
-      <MetricCard title="P50 句长" value={metrics.sentenceLength.p50.toFixed(1)} unit="chars" small />
-      <MetricCard title="P90 句长" value={metrics.sentenceLength.p90.toFixed(1)} unit="chars" small />
-      <MetricCard title="长句率 (>50)" value={metrics.sentenceLength.longRate50.toFixed(1)} unit="%" small />
+const DetailedMetricsDisplay: React.FC<{
+  title: string;
+  metrics: DetailedMetrics;
+  spread?: MetricsSpread;
+  highlight?: boolean;
+}> = ({ title, metrics, spread, highlight }) => {
+  // 单篇范文没有离散度可言，只在多篇时展示标准差
+  const sd = spread && spread.sampleCount > 1 ? spread.stdDev : undefined;
+  const isEnglish = metrics.language === 'en';
+  const unit = isEnglish ? 'words' : 'chars';
+  return (
+    <div className={`p-4 border rounded-lg ${highlight ? 'border-blue-300 bg-blue-50' : 'border-slate-200'}`}>
+      <h3 className="font-semibold text-slate-800 mb-3">
+        {title}
+        <span className="text-xs font-normal text-slate-400 ml-2">{isEnglish ? 'English' : '中文'}</span>
+        {sd && <span className="text-sm font-normal text-slate-500 ml-2">{spread!.sampleCount} 篇范文的均值 ± 标准差</span>}
+      </h3>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+        <MetricCard title="平均句长" value={metrics.sentenceLength.mean.toFixed(1)} unit={unit} small stdDev={sd?.sentenceLength.mean} />
+        <MetricCard title="P50 句长" value={metrics.sentenceLength.p50.toFixed(1)} unit={unit} small stdDev={sd?.sentenceLength.p50} />
+        <MetricCard title="P90 句长" value={metrics.sentenceLength.p90.toFixed(1)} unit={unit} small stdDev={sd?.sentenceLength.p90} />
+        <MetricCard title={isEnglish ? '长句率 (>30 词)' : '长句率 (>50)'} value={metrics.sentenceLength.longRate50.toFixed(1)} unit="%" small stdDev={sd?.sentenceLength.longRate50} />
+      </div>
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mt-2 text-sm">
+        <MetricCard title="逗号/千字" value={metrics.punctuationDensity.comma.toFixed(1)} small stdDev={sd?.punctuationDensity.comma} />
+        <MetricCard title="分号/千字" value={metrics.punctuationDensity.semicolon.toFixed(1)} small stdDev={sd?.punctuationDensity.semicolon} />
+        <MetricCard title="括号/千字" value={metrics.punctuationDensity.parenthesis.toFixed(1)} small stdDev={sd?.punctuationDensity.parenthesis} />
+        <MetricCard title="连接词" value={Number(metrics.connectorCounts.total.toFixed(1))} small stdDev={sd?.connectorCounts.total} />
+        <MetricCard title="模版句" value={Number(metrics.templateCounts.count.toFixed(1))} small stdDev={sd?.templateCounts.count} />
+        <MetricCard title="句子数" value={Number(metrics.sentenceCount.toFixed(1))} small stdDev={sd?.sentenceCount} />
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2 text-sm">
+        <MetricCard title="被动句" value={metrics.passiveVoicePercentage.toFixed(1)} unit="%" small stdDev={sd?.passiveVoicePercentage} />
+        <MetricCard title="词型/词例比" value={metrics.lexical.typeTokenRatio.toFixed(2)} small stdDev={sd?.lexical.typeTokenRatio} />
+        <MetricCard title="词汇密度" value={metrics.lexical.lexicalDensity.toFixed(2)} small stdDev={sd?.lexical.lexicalDensity} />
+        {isEnglish && metrics.readability !== undefined && (
+          <MetricCard title="易读度" value={metrics.readability.toFixed(1)} small stdDev={sd?.readability} />
+        )}
+      </div>
     </div>
-    <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mt-2 text-sm">
-      <MetricCard title="逗号/千字" value={metrics.punctuationDensity.comma.toFixed(1)} small />
-      <MetricCard title="分号/千字" value={metrics.punctuationDensity.semicolon.toFixed(1)} small />
-      <MetricCard title="括号/千字" value={metrics.punctuationDensity.parenthesis.toFixed(1)} small />
-      <MetricCard title="连接词" value={metrics.connectorCounts.total} small />
-      <MetricCard title="模版句" value={metrics.templateCounts.count} small />
-      <MetricCard title="句子数" value={metrics.sentenceCount} small />
+  );
+};
+
+const reliabilityLabels: Record<keyof NonNullable<MirrorScore['reliability']>, string> = {
+  sentence: '句长',
+  connectors: '连接词',
+  punctuation: '标点',
+  templates: '模版句',
+};
+
+const ReliabilityDisplay: React.FC<{ reliability: NonNullable<MirrorScore['reliability']> }> = ({ reliability }) => (
+  <div className="mt-3 text-xs text-slate-600">
+    <p className="mb-1">维度可信度（范文之间越一致，该维度在评分中的权重越高）：</p>
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(reliabilityLabels) as (keyof typeof reliabilityLabels)[]).map((key) => (
+        <span key={key} className="px-2 py-1 bg-slate-100 rounded">
+          {reliabilityLabels[key]} {(reliability[key] * 100).toFixed(0)}%
+        </span>
+      ))}
     </div>
   </div>
 );
@@ -66,44 +150,350 @@ const MirrorScoreDisplay: React.FC<{
   </div>
 );
 
+const alertTypeLabels: Record<FidelityAlert['type'], string> = {
+  number_loss: '数字缺失',
+  acronym_change: '缩略词缺失',
+  unit_loss: '量值缺失',
+  citation_loss: '引用标记缺失',
+  equation_loss: '公式缺失',
+  figure_table_loss: '图表引用缺失',
+  negation_flip: '否定翻转',
+  certainty_shift: '确定性变化',
+};
+
+const retentionRates: { key: Exclude<keyof FidelityGuardrails, 'alerts'>; label: string }[] = [
+  { key: 'numberRetentionRate', label: '数字保留率' },
+  { key: 'acronymRetentionRate', label: '缩写保留率' },
+  { key: 'unitRetentionRate', label: '量值保留率' },
+  { key: 'citationRetentionRate', label: '引用标记保留率' },
+  { key: 'equationRetentionRate', label: '公式保留率' },
+  { key: 'figureTableRetentionRate', label: '图表引用保留率' },
+];
+
 const FidelityDisplay: React.FC<{ 
-  numberRate: number; 
-  acronymRate: number; 
-  alerts: FidelityAlert[];
-}> = ({ numberRate, acronymRate, alerts }) => (
-  <div className="space-y-3">
-    <div className="grid grid-cols-2 gap-4">
-      <div className={`p-3 rounded-lg text-center ${numberRate >= 90 ? 'bg-green-50 border border-green-200' : 'bg-yellow-50 border border-yellow-200'}`}>
-        <h4 className="text-xs font-medium text-slate-600">数字保留率</h4>
-        <p className={`text-2xl font-bold ${numberRate >= 90 ? 'text-green-700' : 'text-yellow-700'}`}>
-          {numberRate.toFixed(1)}%
-        </p>
-      </div>
-      <div className={`p-3 rounded-lg text-center ${acronymRate >= 90 ? 'bg-green-50 border border-green-200' : 'bg-yellow-50 border border-yellow-200'}`}>
-        <h4 className="text-xs font-medium text-slate-600">缩写保留率</h4>
-        <p className={`text-2xl font-bold ${acronymRate >= 90 ? 'text-green-700' : 'text-yellow-700'}`}>
-          {acronymRate.toFixed(1)}%
-        </p>
+  guardrails: FidelityGuardrails;
+  onAlertSelect?: (alert: FidelityAlert) => void;
+}> = ({ guardrails, onAlertSelect }) => {
+  const alerts = guardrails.alerts;
+  const [typeFilter, setTypeFilter] = useState<FidelityAlert['type'] | 'all'>('all');
+  const [query, setQuery] = useState('');
+
+  // 按类型分组，组内按出现的句子排序
+  const types = (Object.keys(alertTypeLabels) as FidelityAlert['type'][])
+    .filter((type) => alerts.some((alert) => alert.type === type));
+  const keyword = query.trim().toLowerCase();
+  const groups = types
+    .filter((type) => typeFilter === 'all' || type === typeFilter)
+    .map((type) => ({
+      type,
+      alerts: alerts
+        .filter((alert) => alert.type === type)
+        .filter((alert) =>
+          !keyword ||
+          [alert.token, alert.detail, alert.draftSentence, alert.rewrittenSentence]
+            .some((text) => text?.toLowerCase().includes(keyword))
+        )
+        .sort((a, b) => a.sentenceIndex - b.sentenceIndex),
+    }))
+    .filter((group) => group.alerts.length > 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {retentionRates
+          .filter(({ key }) => guardrails[key] !== undefined)
+          .map(({ key, label }) => {
+            const rate = guardrails[key];
+            return (
+              <div
+                key={key}
+                className={`p-3 rounded-lg text-center ${rate >= 90 ? 'bg-green-50 border border-green-200' : 'bg-yellow-50 border border-yellow-200'}`}
+              >
+                <h4 className="text-xs font-medium text-slate-600">{label}</h4>
+                <p className={`text-2xl font-bold ${rate >= 90 ? 'text-green-700' : 'text-yellow-700'}`}>
+                  {rate.toFixed(1)}%
+                </p>
+              </div>
+            );
+          })}
       </div>
+      {alerts.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="text-xs font-medium text-yellow-700">警告 ({alerts.length})</h4>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as FidelityAlert['type'] | 'all')}
+                className="border border-yellow-200 rounded px-1.5 py-0.5 bg-white text-slate-700"
+              >
+                <option value="all">全部类型</option>
+                {types.map((type) => (
+                  <option key={type} value={type}>{alertTypeLabels[type]}</option>
+                ))}
+              </select>
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="筛选警告内容"
+                className="border border-yellow-200 rounded px-1.5 py-0.5 bg-white text-slate-700 w-36"
+              />
+            </div>
+          </div>
+          {groups.map((group) => (
+            <div key={group.type}>
+              <h5 className="text-xs font-medium text-yellow-700 mb-1">
+                {alertTypeLabels[group.type]}（{group.alerts.length}）
+              </h5>
+              <ul className="text-xs text-yellow-800 space-y-1 max-h-48 overflow-y-auto">
+                {group.alerts.map((alert, i) => (
+                  <li key={`${alert.token ?? alert.detail}-${i}`}>
+                    {onAlertSelect && alert.sentenceIndex >= 0 ? (
+                      <button
+                        type="button"
+                        onClick={() => onAlertSelect(alert)}
+                        className="text-left hover:underline"
+                        title="在差异对比中定位该句"
+                      >
+                        • {alert.detail}
+                        <span className="text-yellow-600 ml-1">（第 {alert.sentenceIndex + 1} 句）</span>
+                      </button>
+                    ) : (
+                      <span>• {alert.detail}</span>
+                    )}
+                    {alert.draftSentence !== undefined && (
+                      <div className="ml-3 mt-1 space-y-0.5 text-slate-600">
+                        <p><span className="text-slate-400">草稿：</span>{alert.draftSentence}</p>
+                        <p><span className="text-slate-400">改写：</span>{alert.rewrittenSentence}</p>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {groups.length === 0 && <p className="text-xs text-yellow-700 italic">没有符合筛选条件的警告。</p>}
+        </div>
+      )}
     </div>
-    {alerts.length > 0 && (
-      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
-        <h4 className="text-xs font-medium text-yellow-700 mb-2">警告 ({alerts.length})</h4>
-        <ul className="text-xs text-yellow-800 space-y-1">
-          {alerts.slice(0, 5).map((alert, i) => (
-            <li key={i}>• {alert.detail}</li>
+  );
+};
+
+const variantLabels: Record<RewriteVariant, string> = {
+  conservative: '保守版',
+  standard: '标准版',
+  enhanced: '增强版',
+};
+
+// 各版本的保留率并排显示，下方列出所选版本的警告
+const FidelitySection: React.FC<{
+  guardrails: Partial<Record<RewriteVariant, FidelityGuardrails>>;
+  onAlertSelect?: (alert: FidelityAlert, variant: RewriteVariant) => void;
+}> = ({ guardrails, onAlertSelect }) => {
+  const variants = (Object.keys(variantLabels) as RewriteVariant[]).filter((v) => guardrails[v]);
+  const [selected, setSelected] = useState<RewriteVariant>(variants.includes('standard') ? 'standard' : variants[0]);
+  const current = guardrails[selected];
+  if (!current) return null;
+
+  return (
+    <div className="space-y-3">
+      {variants.length > 1 && (
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg w-fit">
+          {variants.map((variant) => (
+            <button
+              key={variant}
+              type="button"
+              onClick={() => setSelected(variant)}
+              className={`px-3 py-1 text-sm rounded-md ${selected === variant ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600 hover:text-slate-900'}`}
+            >
+              {variantLabels[variant]}
+              <span className={`ml-1.5 text-xs ${guardrails[variant]!.alerts.length > 0 ? 'text-yellow-700' : 'text-green-700'}`}>
+                {guardrails[variant]!.alerts.length > 0 ? `${guardrails[variant]!.alerts.length} 条警告` : '无警告'}
+              </span>
+            </button>
           ))}
-        </ul>
-      </div>
-    )}
+        </div>
+      )}
+      <FidelityDisplay
+        key={selected}
+        guardrails={current}
+        onAlertSelect={onAlertSelect && ((alert) => onAlertSelect(alert, selected))}
+      />
+    </div>
+  );
+};
+
+const alignmentKindLabels: Record<AlignmentKind, string> = {
+  match: '一对一',
+  split: '拆句',
+  merge: '并句',
+  deleted: '删除',
+  inserted: '新增',
+};
+
+const AlignmentDisplay: React.FC<{ alignment: Partial<Record<RewriteVariant, VariantAlignment>> }> = ({ alignment }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm text-center">
+      <thead>
+        <tr className="text-xs text-slate-500">
+          <th className="text-left font-medium py-1">版本</th>
+          {(Object.keys(alignmentKindLabels) as AlignmentKind[]).map((kind) => (
+            <th key={kind} className="font-medium py-1">{alignmentKindLabels[kind]}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {(Object.entries(alignment) as [RewriteVariant, VariantAlignment][]).map(([variant, { pairs }]) => (
+          <tr key={variant} className="border-t border-slate-100">
+            <td className="text-left py-1 text-slate-700">{variantLabels[variant]}</td>
+            {(Object.keys(alignmentKindLabels) as AlignmentKind[]).map((kind) => (
+              <td key={kind} className="py-1 text-slate-800">{pairs.filter((pair) => pair.kind === kind).length}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
   </div>
 );
 
-const CitationDisplay: React.FC<{ suggestions: CitationSuggestion[] }> = ({ suggestions }) => {
+// 置信度筛选档位
+const confidenceLevels = [
+  { min: 0.7, label: '高置信度' },
+  { min: 0.5, label: '中等以上' },
+  { min: 0, label: '全部' },
+];
+
+const citationStyleLabels: Record<CitationStyle, string> = {
+  latex: '\\cite{key}',
+  numeric: '[n]',
+};
+
+// 截断的句子去掉省略号后作为定位锚点
+const citationAnchor = (suggestion: CitationSuggestion) => suggestion.sentenceText.replace(/\.\.\.$/, '');
+
+const LibraryToolbar: React.FC<{ library: CitationLibraryControls }> = ({ library }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      await library.onImport(file);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '文献库导入失败');
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+        <span className="font-medium text-slate-700">文献库</span>
+        {library.fileName ? (
+          <span>
+            {library.fileName}（{library.entries.length} 条）
+          </span>
+        ) : (
+          <span className="text-slate-400">未导入</span>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={BIBLIOGRAPHY_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={handleFile}
+        />
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="px-2 py-0.5 rounded-md border border-slate-300 hover:bg-slate-50"
+        >
+          {library.fileName ? '更换' : '导入 .bib / CSL-JSON'}
+        </button>
+        {library.fileName && (
+          <button type="button" onClick={library.onClear} className="px-2 py-0.5 rounded-md text-slate-500 hover:text-red-600">
+            移除
+          </button>
+        )}
+        <span className="ml-auto">引用格式</span>
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+          {(Object.keys(citationStyleLabels) as CitationStyle[]).map((style) => (
+            <button
+              key={style}
+              type="button"
+              onClick={() => library.onStyleChange(style)}
+              className={`px-2 py-0.5 rounded-md font-mono ${library.style === style ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600 hover:text-slate-900'}`}
+            >
+              {citationStyleLabels[style]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+const CitationMatches: React.FC<{ suggestion: CitationSuggestion; library: CitationLibraryControls }> = ({
+  suggestion,
+  library,
+}) => {
+  const [notFound, setNotFound] = useState(false);
+  if (!library.index) return null;
+
+  const matches = matchCitation(library.index, suggestion);
+  if (matches.length === 0) {
+    return <p className="text-xs text-slate-400 mt-2">文献库中没有相关条目。</p>;
+  }
+
+  const anchor = citationAnchor(suggestion);
+  const entriesByKey = new Map(library.entries.map((entry) => [entry.key, entry]));
+
+  return (
+    <div className="mt-2 space-y-1">
+      {matches.map((match) => {
+        const entry = entriesByKey.get(match.key);
+        const inserted = library.isInserted(anchor, match.key);
+        return (
+          <div key={match.key} className="flex items-center gap-2 text-xs bg-white border border-slate-200 rounded px-2 py-1">
+            <span className="font-mono text-slate-500 shrink-0">{match.key}</span>
+            <span className="text-slate-700 truncate flex-1" title={entry?.title}>
+              {entry?.title}
+              {entry?.year && <span className="text-slate-400">（{entry.year}）</span>}
+            </span>
+            <button
+              type="button"
+              onClick={() => setNotFound(!library.onToggle(anchor, match.key))}
+              className={`shrink-0 px-2 py-0.5 rounded ${inserted ? 'bg-green-100 text-green-700' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+            >
+              {inserted ? '已插入' : '插入'}
+            </button>
+          </div>
+        );
+      })}
+      {notFound && <p className="text-xs text-red-600">未能在审阅单元中定位该句子，无法插入引用。</p>}
+    </div>
+  );
+};
+
+const CitationDisplay: React.FC<{
+  suggestions: CitationSuggestion[];
+  library?: CitationLibraryControls;
+}> = ({ suggestions, library }) => {
+  const [minConfidence, setMinConfidence] = useState(0.5);
+
   if (suggestions.length === 0) {
     return <p className="text-sm text-slate-500 italic">未找到引用建议。</p>;
   }
   
+  // 旧报告没有置信度，按全部显示
+  const visible = suggestions
+    .filter((item) => (item.confidence ?? 1) >= minConfidence)
+    .sort((a, b) => (b.confidence ?? 1) - (a.confidence ?? 1) || a.sentenceIndex - b.sentenceIndex);
+  
   const reasonLabels: Record<string, string> = {
     background: '📚 研究背景',
     definition: '📖 定义/标准',
@@ -113,30 +503,54 @@ const CitationDisplay: React.FC<{ suggestions: CitationSuggestion[] }> = ({ sugg
   };
   
   return (
-    <div className="space-y-3 max-h-64 overflow-y-auto">
-      {suggestions.slice(0, 10).map((item, i) => (
-        <div key={i} className="bg-slate-50 border border-slate-200 rounded-lg p-3">
-          <div className="flex items-start justify-between mb-2">
-            <span className="text-xs px-2 py-1 bg-slate-200 text-slate-700 rounded">
-              {reasonLabels[item.reason] || item.reason}
-            </span>
-            <span className="text-xs text-slate-400">句子 #{item.sentenceIndex + 1}</span>
-          </div>
-          <p className="text-sm text-slate-700 mb-2 line-clamp-2">{item.sentenceText}</p>
-          <div className="flex flex-wrap gap-1">
-            {item.queries.map((query, j) => (
-              <span key={j} className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded">
-                {query}
+    <div className="space-y-3">
+      {library && <LibraryToolbar library={library} />}
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        <span>显示</span>
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+          {confidenceLevels.map((level) => (
+            <button
+              key={level.min}
+              type="button"
+              onClick={() => setMinConfidence(level.min)}
+              className={`px-2 py-0.5 rounded-md ${minConfidence === level.min ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600 hover:text-slate-900'}`}
+            >
+              {level.label}
+            </button>
+          ))}
+        </div>
+        <span>（{visible.length}/{suggestions.length}）</span>
+      </div>
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {visible.map((item) => (
+          <div key={item.sentenceIndex} className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+            <div className="flex items-start justify-between mb-2">
+              <span className="text-xs px-2 py-1 bg-slate-200 text-slate-700 rounded">
+                {reasonLabels[item.reason] || item.reason}
               </span>
-            ))}
+              <span className="text-xs text-slate-400">
+                {item.confidence !== undefined && <>置信度 {Math.round(item.confidence * 100)}% · </>}
+                句子 #{item.sentenceIndex + 1}
+              </span>
+            </div>
+            <p className="text-sm text-slate-700 mb-2 line-clamp-2">{item.sentenceText}</p>
+            <div className="flex flex-wrap gap-1">
+              {item.queries.map((query, j) => (
+                <span key={j} className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded">
+                  {query}
+                </span>
+              ))}
+            </div>
+            {library && <CitationMatches suggestion={item} library={library} />}
           </div>
-        </div>
-      ))}
+        ))}
+        {visible.length === 0 && <p className="text-sm text-slate-500 italic">没有达到该置信度的建议。</p>}
+      </div>
     </div>
   );
 };
 
-const AnalysisReport: React.FC<AnalysisReportProps> = ({ report }) => {
+const AnalysisReport: React.FC<AnalysisReportProps> = ({ report, onAlertSelect, citationLibrary }) => {
   const mirrorScore = report.mirrorScore;
   const styleComparison = report.styleComparison;
   const fidelity = report.fidelityGuardrails;
@@ -167,6 +581,7 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ report }) => {
             standardScore={mirrorScore.standardToSample}
             improvement={mirrorScore.improvement}
           />
+          {mirrorScore.reliability && <ReliabilityDisplay reliability={mirrorScore.reliability} />}
         </div>
       )}
 
@@ -175,7 +590,11 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ report }) => {
         <div>
           <h3 className="text-lg font-semibold text-slate-800 mb-3">📊 风格比较</h3>
           <div className="space-y-3">
-            <DetailedMetricsDisplay title="📄 样文（目标）" metrics={styleComparison.sample} />
+            <DetailedMetricsDisplay
+              title="📄 样文（目标）"
+              metrics={styleComparison.sample}
+              spread={styleComparison.sampleSpread}
+            />
             <DetailedMetricsDisplay title="📝 原始草稿" metrics={styleComparison.draft} />
             <DetailedMetricsDisplay title="✨ 重写标准版" metrics={styleComparison.rewrittenStandard} highlight />
           </div>
@@ -188,22 +607,29 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ report }) => {
           {!isFidelityOnly && (
             <h3 className="text-lg font-semibold text-slate-800 mb-3">🛡️ 保真度护栏</h3>
           )}
-          <FidelityDisplay 
-            numberRate={fidelity.numberRetentionRate}
-            acronymRate={fidelity.acronymRetentionRate}
-            alerts={fidelity.alerts}
-          />
+          <FidelitySection guardrails={fidelity} onAlertSelect={onAlertSelect} />
+        </div>
+      )}
+
+      {/* Sentence Alignment */}
+      {report.alignment && Object.keys(report.alignment).length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800 mb-3">🔗 句子对齐</h3>
+          <AlignmentDisplay alignment={report.alignment} />
         </div>
       )}
 
       {/* Citation Suggestions */}
       {citations && (
         <div>
-          <h3 className="text-lg font-semibold text-slate-800 mb-3">
+          <h3 className="text-lg font-semibold text-slate-800 mb-1">
             📚 引用建议 
             <span className="text-sm font-normal text-slate-500 ml-2">({citations.items.length} 条记录)</span>
           </h3>
-          <CitationDisplay suggestions={citations.items} />
+          <p className="text-xs text-slate-500 mb-3">
+            规则集：{citations.ruleSetName ?? '内置规则'} v{citations.rulesVersion}
+          </p>
+          <CitationDisplay suggestions={citations.items} library={citationLibrary} />
         </div>
       )}
     </div>
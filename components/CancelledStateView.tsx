@@ -0,0 +1,10 @@
+import React from 'react';
+
+const CancelledStateView: React.FC = () => (
+  <div className="text-center py-20 px-6">
+    <h3 className="text-xl font-semibold text-slate-700">处理已取消</h3>
+    <p className="text-slate-500 mt-2">您可以更换文件后点击"开始迁移"重新处理。</p>
+  </div>
+);
+
+export default CancelledStateView;
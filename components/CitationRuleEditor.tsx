@@ -0,0 +1,275 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import type { CitationReason, CitationRuleSet, CitationSuggestion, TextLanguage } from '@papermirror/types';
+import { CITATION_REASONS, detectLanguage, generateCitationSuggestions } from '../utils/analysis';
+import { readFileContent } from '../utils/fileFormats';
+
+interface CitationRuleEditorProps {
+  ruleSet: CitationRuleSet;
+  /** 当前草稿，用于实时预览规则命中的句子 */
+  draftPaper: File | null;
+  /** 校验失败时抛出 ValidationError */
+  onSave: (ruleSet: CitationRuleSet) => void;
+  onClose: () => void;
+}
+
+const reasonLabels: Record<CitationReason, string> = {
+  background: '研究背景',
+  definition: '定义/标准',
+  method: '方法/技术',
+  comparison: '对比/评估',
+  statistic: '统计数据',
+};
+
+const languageLabels: Record<TextLanguage, string> = {
+  zh: '中文',
+  en: 'English',
+};
+
+// 预览最多列出的句子数
+const PREVIEW_LIMIT = 50;
+
+// 每行一条模式，空行忽略
+const toLines = (list: string[] | undefined) => (list ?? []).join('\n');
+const fromLines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+type PatternTexts = Record<TextLanguage, Record<CitationReason | 'exclusions', string>>;
+
+const toPatternTexts = (ruleSet: CitationRuleSet): PatternTexts => {
+  const texts = {} as PatternTexts;
+  for (const language of ['zh', 'en'] as TextLanguage[]) {
+    texts[language] = { exclusions: toLines(ruleSet.exclusions[language]) } as PatternTexts[TextLanguage];
+    for (const reason of CITATION_REASONS) {
+      texts[language][reason] = toLines(ruleSet.patterns[language]?.[reason]);
+    }
+  }
+  return texts;
+};
+
+/**
+ * 引用规则编辑器 - 按语言和引用原因逐行编辑正则模式，并在当前草稿上实时预览命中的句子
+ */
+const CitationRuleEditor: React.FC<CitationRuleEditorProps> = ({ ruleSet, draftPaper, onSave, onClose }) => {
+  const [name, setName] = useState(ruleSet.name);
+  const [version, setVersion] = useState(ruleSet.version);
+  const [description, setDescription] = useState(ruleSet.description ?? '');
+  const [texts, setTexts] = useState<PatternTexts>(() => toPatternTexts(ruleSet));
+  const [draftText, setDraftText] = useState('');
+  const [language, setLanguage] = useState<TextLanguage>('zh');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!draftPaper) {
+      setDraftText('');
+      return;
+    }
+
+    readFileContent(draftPaper)
+      .then((text) => {
+        if (cancelled) return;
+        setDraftText(text);
+        // 默认编辑草稿所用语言的规则
+        setLanguage(detectLanguage(text));
+      })
+      .catch((err) => {
+        console.error('读取草稿失败:', err);
+        if (!cancelled) setDraftText('');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draftPaper]);
+
+  const edited = useMemo<CitationRuleSet>(() => {
+    const patterns: CitationRuleSet['patterns'] = { zh: {}, en: {} };
+    const exclusions: CitationRuleSet['exclusions'] = { zh: [], en: [] };
+    for (const lang of ['zh', 'en'] as TextLanguage[]) {
+      for (const reason of CITATION_REASONS) {
+        const list = fromLines(texts[lang][reason]);
+        if (list.length > 0) patterns[lang][reason] = list;
+      }
+      exclusions[lang] = fromLines(texts[lang].exclusions);
+    }
+    return {
+      id: ruleSet.id,
+      name: name.trim(),
+      version: version.trim(),
+      description: description.trim() || undefined,
+      patterns,
+      exclusions,
+    };
+  }, [ruleSet.id, name, version, description, texts]);
+
+  // 长草稿逐句匹配较慢，预览延后于输入更新
+  const deferred = useDeferredValue(edited);
+  const preview = useMemo((): { items: CitationSuggestion[]; error: string | null; language: TextLanguage | null } => {
+    if (!draftText.trim()) return { items: [], error: null, language: null };
+    const draftLanguage = detectLanguage(draftText);
+    try {
+      return { items: generateCitationSuggestions(draftText, draftLanguage, deferred).items, error: null, language: draftLanguage };
+    } catch (err) {
+      return { items: [], error: err instanceof Error ? err.message : String(err), language: draftLanguage };
+    }
+  }, [draftText, deferred]);
+
+  const setPatternText = (reason: CitationReason | 'exclusions', value: string) => {
+    setTexts((prev) => ({ ...prev, [language]: { ...prev[language], [reason]: value } }));
+    setSaveError(null);
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(edited);
+      onClose();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : '保存失败');
+    }
+  };
+
+  const countByReason = CITATION_REASONS.map((reason) => ({
+    reason,
+    count: preview.items.filter((item) => item.reason === reason).length,
+  }));
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-4">
+      <div role="dialog" aria-modal="true" className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800">编辑引用规则集</h2>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="关闭">
+            ✕
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6 overflow-y-auto">
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              <label className="col-span-2 text-xs text-slate-600">
+                名称
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="mt-1 w-full text-sm border border-slate-300 rounded-md px-2 py-1.5"
+                />
+              </label>
+              <label className="text-xs text-slate-600">
+                版本
+                <input
+                  value={version}
+                  onChange={(e) => setVersion(e.target.value)}
+                  className="mt-1 w-full text-sm border border-slate-300 rounded-md px-2 py-1.5"
+                />
+              </label>
+            </div>
+            <label className="block text-xs text-slate-600">
+              说明
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="例如：临床医学论文"
+                className="mt-1 w-full text-sm border border-slate-300 rounded-md px-2 py-1.5"
+              />
+            </label>
+
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-slate-500">每行一条正则表达式，英文不区分大小写</p>
+              <div className="flex gap-1 bg-slate-100 p-1 rounded-lg text-xs">
+                {(['zh', 'en'] as TextLanguage[]).map((lang) => (
+                  <button
+                    key={lang}
+                    type="button"
+                    onClick={() => setLanguage(lang)}
+                    className={`px-2 py-0.5 rounded-md ${language === lang ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600 hover:text-slate-900'}`}
+                  >
+                    {languageLabels[lang]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {CITATION_REASONS.map((reason) => (
+              <label key={reason} className="block text-xs text-slate-600">
+                {reasonLabels[reason]}
+                <textarea
+                  value={texts[language][reason]}
+                  onChange={(e) => setPatternText(reason, e.target.value)}
+                  rows={3}
+                  spellCheck={false}
+                  className="mt-1 w-full font-mono text-xs border border-slate-300 rounded-md px-2 py-1.5"
+                />
+              </label>
+            ))}
+            <label className="block text-xs text-slate-600">
+              排除模式（命中时不提示引用，如作者自己的工作）
+              <textarea
+                value={texts[language].exclusions}
+                onChange={(e) => setPatternText('exclusions', e.target.value)}
+                rows={3}
+                spellCheck={false}
+                className="mt-1 w-full font-mono text-xs border border-slate-300 rounded-md px-2 py-1.5"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-3 min-w-0">
+            <h3 className="text-sm font-medium text-slate-700">
+              实时预览
+              {preview.language && (
+                <span className="ml-2 text-xs font-normal text-slate-500">
+                  草稿为{languageLabels[preview.language]}，命中 {preview.items.length} 句
+                </span>
+              )}
+            </h3>
+            {!draftText.trim() ? (
+              <p className="text-sm text-slate-500 italic">上传草稿后可以预览规则命中的句子。</p>
+            ) : preview.error ? (
+              <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">{preview.error}</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-1 text-xs">
+                  {countByReason.map(({ reason, count }) => (
+                    <span key={reason} className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded">
+                      {reasonLabels[reason]} {count}
+                    </span>
+                  ))}
+                </div>
+                <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+                  {preview.items.slice(0, PREVIEW_LIMIT).map((item) => (
+                    <li key={item.sentenceIndex} className="text-xs bg-slate-50 border border-slate-200 rounded p-2">
+                      <div className="flex justify-between text-slate-400 mb-1">
+                        <span className="text-slate-600">{reasonLabels[item.reason]}</span>
+                        <span>置信度 {Math.round(item.confidence * 100)}% · 句子 #{item.sentenceIndex + 1}</span>
+                      </div>
+                      <p className="text-slate-700">{item.sentenceText}</p>
+                    </li>
+                  ))}
+                </ul>
+                {preview.items.length > PREVIEW_LIMIT && (
+                  <p className="text-xs text-slate-400">仅显示前 {PREVIEW_LIMIT} 句</p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-slate-200">
+          {saveError && <p className="mr-auto text-xs text-red-600">{saveError}</p>}
+          <button type="button" onClick={onClose} className="text-sm px-3 py-1.5 rounded-md text-slate-600 hover:bg-slate-100">
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={Boolean(preview.error)}
+            className="text-sm px-3 py-1.5 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-400"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CitationRuleEditor;
@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import type { CitationRuleSet } from '@papermirror/types';
+import { DEFAULT_CITATION_RULE_SET } from '../utils/analysis';
+import { copyCitationRuleSet } from '../utils/citationRules';
+import CitationRuleEditor from './CitationRuleEditor';
+
+interface CitationRulesPanelProps {
+  ruleSets: CitationRuleSet[];
+  activeRuleSetId: string;
+  onSelect: (id: string) => void;
+  onSave: (ruleSet: CitationRuleSet) => CitationRuleSet;
+  onImport: (file: File) => Promise<CitationRuleSet>;
+  onExport: (ruleSet: CitationRuleSet) => void;
+  onDelete: (id: string) => void;
+  /** 编辑器中用于实时预览的草稿 */
+  draftPaper: File | null;
+  disabled?: boolean;
+}
+
+/**
+ * 引用规则集面板 - 选择引用建议所用的规则集，导入导出或编辑自定义规则集
+ */
+const CitationRulesPanel: React.FC<CitationRulesPanelProps> = ({
+  ruleSets,
+  activeRuleSetId,
+  onSelect,
+  onSave,
+  onImport,
+  onExport,
+  onDelete,
+  draftPaper,
+  disabled,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<CitationRuleSet | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const ruleSet = await onImport(file);
+      setMessage({ type: 'success', text: `已导入「${ruleSet.name}」v${ruleSet.version}` });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : '导入失败' });
+    }
+  };
+
+  const handleSave = (ruleSet: CitationRuleSet) => {
+    onSave(ruleSet);
+    setMessage({ type: 'success', text: `已保存「${ruleSet.name}」v${ruleSet.version}` });
+  };
+
+  const handleDelete = (ruleSet: CitationRuleSet) => {
+    if (!window.confirm(`确定删除引用规则集「${ruleSet.name}」吗？`)) return;
+    if (activeRuleSetId === ruleSet.id) onSelect(DEFAULT_CITATION_RULE_SET.id);
+    onDelete(ruleSet.id);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-slate-700">引用规则集</h3>
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+          className="text-xs text-blue-600 hover:underline disabled:text-slate-400"
+        >
+          导入 JSON
+        </button>
+        <input ref={importInputRef} type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+      </div>
+
+      <ul className="space-y-1 text-sm">
+        {ruleSets.map((ruleSet) => {
+          const builtIn = ruleSet.id === DEFAULT_CITATION_RULE_SET.id;
+          return (
+            <li key={ruleSet.id} className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2 min-w-0 cursor-pointer text-slate-700" title={ruleSet.description}>
+                <input
+                  type="radio"
+                  name="citation-rules"
+                  checked={activeRuleSetId === ruleSet.id}
+                  onChange={() => onSelect(ruleSet.id)}
+                  disabled={disabled}
+                />
+                <span className="truncate">{ruleSet.name}</span>
+                <span className="flex-shrink-0 text-xs text-slate-400">v{ruleSet.version}</span>
+              </label>
+              <div className="flex-shrink-0 flex gap-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setEditing(builtIn ? copyCitationRuleSet(ruleSet) : ruleSet)}
+                  disabled={disabled}
+                  className="text-slate-500 hover:text-blue-600 disabled:text-slate-300"
+                  title={builtIn ? '内置规则集不可修改，将基于它新建副本' : undefined}
+                >
+                  {builtIn ? '复制' : '编辑'}
+                </button>
+                <button type="button" onClick={() => onExport(ruleSet)} className="text-slate-500 hover:text-blue-600">
+                  导出
+                </button>
+                {!builtIn && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(ruleSet)}
+                    disabled={disabled}
+                    className="text-slate-500 hover:text-red-600 disabled:text-slate-300"
+                  >
+                    删除
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+
+      {editing && (
+        <CitationRuleEditor
+          ruleSet={editing}
+          draftPaper={draftPaper}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CitationRulesPanel;
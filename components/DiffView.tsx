@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { RewriteVariant, VariantAlignment } from '@papermirror/types';
+import { alignSentences, detectLanguage } from '../utils/analysis';
+import { diffText } from '../utils/diff';
+import type { DiffPart } from '../utils/diff';
+
+type DiffMode = 'split' | 'inline';
+
+/** 需要定位的草稿句子，nonce 用于重复点击同一警报时再次触发滚动 */
+export interface DiffFocus {
+  variant: RewriteVariant;
+  sentenceIndex: number;
+  token?: string;
+  nonce: number;
+}
+
+interface DiffViewProps {
+  draft: string;
+  variants: Partial<Record<RewriteVariant, string>>;
+  /** 分析阶段已计算的句子对齐，缺失时在此处计算 */
+  alignments?: Partial<Record<RewriteVariant, VariantAlignment>>;
+  initialVariant?: RewriteVariant;
+  /** 切换到指定版本并定位到该草稿句子所在的行，在草稿一侧高亮缺失的令牌 */
+  focus?: DiffFocus | null;
+}
+
+interface DiffRow {
+  draftIndices: number[];
+  draft: string;
+  rewritten: string;
+  parts: DiffPart[];
+}
+
+const variantLabels: Record<RewriteVariant, string> = {
+  conservative: '保守版',
+  standard: '标准版',
+  enhanced: '增强版',
+};
+
+const partClass: Record<DiffPart['op'], string> = {
+  equal: '',
+  delete: 'bg-red-100 text-red-800 line-through decoration-red-400',
+  insert: 'bg-green-100 text-green-800',
+};
+
+// 找出令牌在文本中的所有出现位置
+const findRanges = (text: string, token: string): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  for (let i = text.indexOf(token); token && i !== -1; i = text.indexOf(token, i + token.length)) {
+    ranges.push([i, i + token.length]);
+  }
+  return ranges;
+};
+
+// 把一段文本中落在高亮区间内的部分包上 <mark>，offset 为该段在整行中的起点
+const markText = (text: string, offset: number, marks: Array<[number, number]>): React.ReactNode => {
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [from, to] of marks) {
+    const start = Math.max(from - offset, cursor);
+    const end = Math.min(to - offset, text.length);
+    if (start >= end) continue;
+    if (start > cursor) nodes.push(text.slice(cursor, start));
+    nodes.push(<mark key={start} className="bg-amber-300 text-slate-900 rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  }
+  if (nodes.length === 0) return text;
+  if (cursor < text.length) nodes.push(text.slice(cursor));
+  return nodes;
+};
+
+const DiffParts: React.FC<{ parts: DiffPart[]; show: DiffPart['op'][]; marks?: Array<[number, number]> }> = ({
+  parts,
+  show,
+  marks = [],
+}) => {
+  let offset = 0;
+  return (
+    <>
+      {parts
+        .filter((part) => show.includes(part.op))
+        .map((part, i) => {
+          const content = markText(part.text, offset, marks);
+          offset += part.text.length;
+          return part.op === 'equal' ? <span key={i}>{content}</span> : (
+            <span key={i} className={`${partClass[part.op]} rounded-sm`}>{content}</span>
+          );
+        })}
+    </>
+  );
+};
+
+/**
+ * 差异对比 - 以对齐后的句子为单位比较草稿与改写版本，
+ * 支持左右对照和行内标注两种模式
+ */
+const DiffView: React.FC<DiffViewProps> = ({ draft, variants, alignments, initialVariant = 'standard', focus }) => {
+  const available = (Object.keys(variantLabels) as RewriteVariant[]).filter((variant) => variants[variant]);
+  const [variant, setVariant] = useState<RewriteVariant>(
+    available.includes(initialVariant) ? initialVariant : available[0]
+  );
+  const [mode, setMode] = useState<DiffMode>('split');
+  const [changedOnly, setChangedOnly] = useState(false);
+  const rowRefs = useRef(new Map<number, HTMLDivElement>());
+
+  // 定位句子时切换到对应版本的左右对照，并显示全部行
+  const focusAvailable = Boolean(focus && variants[focus.variant]);
+  useEffect(() => {
+    if (!focus || !focusAvailable) return;
+    setVariant(focus.variant);
+    setMode('split');
+    setChangedOnly(false);
+  }, [focus, focusAvailable]);
+
+  const rewritten = variants[variant] ?? '';
+
+  const rows = useMemo<DiffRow[]>(() => {
+    if (!rewritten) return [];
+    const alignment = alignments?.[variant] ?? alignSentences(draft, rewritten);
+    // 拆句/并句时把同组的句子拼在一起比较，英文句子之间补回空格
+    const joiner = detectLanguage(draft) === 'en' ? ' ' : '';
+    return alignment.pairs.map((pair) => {
+      const draftText = pair.draft.map((i) => alignment.draftSentences[i]).join(joiner);
+      const rewrittenText = pair.rewritten.map((i) => alignment.rewrittenSentences[i]).join(joiner);
+      return {
+        draftIndices: pair.draft,
+        draft: draftText,
+        rewritten: rewrittenText,
+        parts: diffText(draftText, rewrittenText),
+      };
+    });
+  }, [draft, rewritten, variant, alignments]);
+
+  const visibleRows = changedOnly ? rows.filter((row) => row.draft !== row.rewritten) : rows;
+  const changedCount = rows.filter((row) => row.draft !== row.rewritten).length;
+
+  const focusedRow = focus && variant === focus.variant
+    ? rows.findIndex((row) => row.draftIndices.includes(focus.sentenceIndex))
+    : -1;
+
+  useEffect(() => {
+    if (focusedRow < 0 || mode !== 'split') return;
+    rowRefs.current.get(focusedRow)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedRow, mode, focus]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+          {available.map((v) => (
+            <button
+              key={v}
+              type="button"
+              onClick={() => setVariant(v)}
+              className={`px-3 py-1 text-sm rounded-md ${variant === v ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600 hover:text-slate-900'}`}
+            >
+              {variantLabels[v]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          <label className="flex items-center gap-1.5 text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={changedOnly} onChange={(e) => setChangedOnly(e.target.checked)} />
+            仅显示改动（{changedCount}/{rows.length}）
+          </label>
+          <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+            <button
+              type="button"
+              onClick={() => setMode('split')}
+              className={`px-3 py-1 rounded-md ${mode === 'split' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600'}`}
+            >
+              左右对照
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode('inline')}
+              className={`px-3 py-1 rounded-md ${mode === 'inline' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600'}`}
+            >
+              行内标注
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {mode === 'split' ? (
+        <div className="border border-slate-200 rounded-lg overflow-hidden text-sm leading-relaxed">
+          <div className="grid grid-cols-2 bg-slate-50 text-xs font-medium text-slate-500 border-b border-slate-200">
+            <div className="px-4 py-2">原始草稿</div>
+            <div className="px-4 py-2 border-l border-slate-200">{variantLabels[variant]}</div>
+          </div>
+          {visibleRows.map((row) => {
+            const index = rows.indexOf(row);
+            const focused = index === focusedRow;
+            return (
+            <div
+              key={index}
+              ref={(el) => {
+                if (el) rowRefs.current.set(index, el);
+                else rowRefs.current.delete(index);
+              }}
+              className={`grid grid-cols-2 border-b border-slate-100 last:border-b-0 ${focused ? 'ring-2 ring-inset ring-amber-400 bg-amber-50/40' : ''}`}
+            >
+              <div className={`px-4 py-2 ${row.draft ? '' : 'bg-slate-50'}`}>
+                <DiffParts
+                  parts={row.parts}
+                  show={['equal', 'delete']}
+                  marks={focused && focus?.token ? findRanges(row.draft, focus.token) : undefined}
+                />
+              </div>
+              <div className={`px-4 py-2 border-l border-slate-100 ${row.rewritten ? '' : 'bg-slate-50'}`}>
+                <DiffParts parts={row.parts} show={['equal', 'insert']} />
+              </div>
+            </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="border border-slate-200 rounded-lg p-6 text-sm leading-loose space-y-2">
+          {visibleRows.map((row, i) => (
+            <p key={i}>
+              <DiffParts parts={row.parts} show={['equal', 'delete', 'insert']} />
+            </p>
+          ))}
+        </div>
+      )}
+
+      {visibleRows.length === 0 && <p className="text-sm text-slate-500 italic">没有可显示的改动。</p>}
+    </div>
+  );
+};
+
+export default DiffView;
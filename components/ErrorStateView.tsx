@@ -15,7 +15,7 @@ const ErrorStateView: React.FC<ErrorStateViewProps> = ({ error }) => {
           title: '处理超时',
           tips: [
             '大文档处理需要较长时间，请稍后重试',
-            '建议将文档分段处理（每段建议不超过3万字）',
+            '使用 openaiCompatible 服务时，超长草稿会按章节自动分块改写（VITE_LLM_CHUNK_TOKENS）',
             '也可以尝试精简文档内容后重试'
           ],
           canRetry: true
@@ -40,6 +40,16 @@ const ErrorStateView: React.FC<ErrorStateViewProps> = ({ error }) => {
           ],
           canRetry: true
         };
+      case 'RATE_LIMITED':
+        return {
+          title: '请求过于频繁',
+          tips: [
+            '已按服务器建议的间隔自动重试，但仍被限流',
+            '请等待一段时间后再试',
+            '如需频繁使用，请联系管理员提高配额'
+          ],
+          canRetry: true
+        };
       default:
         return {
           title: '处理失败',
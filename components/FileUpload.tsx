@@ -1,5 +1,6 @@
 import React, { useRef } from 'react';
 import UploadIcon from './icons/UploadIcon';
+import { ACCEPTED_FORMAT_LABELS, FILE_ACCEPT, getFileFormat } from '../utils/fileFormats';
 
 interface FileUploadProps {
   id: string;
@@ -13,11 +14,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ id, label, onFileSelect, file }
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files ? event.target.files[0] : null;
-    const allowedTypes = ['text/markdown', 'text/plain'];
-    const fileName = selectedFile?.name?.toLowerCase() ?? '';
 
-    // Check for MIME type or file extension for robustness
-    if (selectedFile && (allowedTypes.includes(selectedFile.type) || fileName.endsWith('.md') || fileName.endsWith('.txt'))) {
+    // Check for file extension or MIME type, the same way the file is read later
+    if (selectedFile && getFileFormat(selectedFile)) {
       onFileSelect(selectedFile);
     } else {
       onFileSelect(null);
@@ -25,7 +24,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ id, label, onFileSelect, file }
         fileInputRef.current.value = ''; // Clear input
       }
       if (selectedFile) { // Only show alert if a file was actually selected
-        alert('Please select a valid Markdown (.md) or Text (.txt) file.');
+        alert(`Please select a supported file (${ACCEPTED_FORMAT_LABELS}).`);
       }
     }
   };
@@ -80,10 +79,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ id, label, onFileSelect, file }
               className="sr-only"
               ref={fileInputRef}
               onChange={handleFileChange}
-              accept=".md,.txt,text/markdown,text/plain"
+              accept={FILE_ACCEPT}
             />
           </div>
-          <p className="text-xs text-slate-500">MD or TXT up to 10MB</p>
+          <p className="text-xs text-slate-500">{ACCEPTED_FORMAT_LABELS} up to 10MB</p>
         </div>
       </div>
     </div>
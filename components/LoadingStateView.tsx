@@ -1,15 +1,67 @@
-import React from 'react';
-import type { ProgressUpdate } from '@papermirror/types';
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { ProgressUpdate, RewriteVariant } from '@papermirror/types';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import PipelineArtifacts from './PipelineArtifacts';
 
 interface LoadingStateViewProps {
   progress: ProgressUpdate | null;
 }
 
+const variantLabels: Record<RewriteVariant, string> = {
+  conservative: '保守版',
+  standard: '标准版',
+  enhanced: '增强版',
+};
+
+/**
+ * 流式展示后端已生成的部分改写文本（优先显示标准版）
+ */
+const PartialResultPreview: React.FC<{ variant: RewriteVariant; text: string }> = ({ variant, text }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const htmlContent = useMemo(() => {
+    try {
+      const dirtyHtml = marked.parse(text);
+      return DOMPurify.sanitize(typeof dirtyHtml === 'string' ? dirtyHtml : '');
+    } catch (e) {
+      console.error('Markdown parsing or sanitization failed:', e);
+      return '';
+    }
+  }, [text]);
+
+  // 新内容到达时滚动到底部
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [htmlContent]);
+
+  return (
+    <div className="mt-8 text-left border border-slate-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-2 bg-slate-50 border-b border-slate-200 text-xs font-medium text-slate-600">
+        实时预览 · {variantLabels[variant]}（{text.length} 字符）
+      </div>
+      <div
+        ref={containerRef}
+        className="prose prose-slate max-w-none p-6 font-serif text-slate-800 leading-relaxed overflow-y-auto max-h-[50vh]"
+        dangerouslySetInnerHTML={{ __html: htmlContent }}
+      />
+    </div>
+  );
+};
+
 const LoadingStateView: React.FC<LoadingStateViewProps> = ({ progress }) => {
-  const progressPercentage = progress && progress.current && progress.total
-    ? (progress.current / progress.total) * 100
+  const hasTotal = !!progress?.total;
+  const progressPercentage = progress && progress.total
+    ? Math.min(100, ((progress.current ?? 0) / progress.total) * 100)
     : 0;
 
+  const partialVariant = (['standard', 'conservative', 'enhanced'] as RewriteVariant[])
+    .find((variant) => progress?.payload?.[variant]);
+  const partialText = partialVariant ? progress?.payload?.[partialVariant] : undefined;
+
   return (
     <div className="text-center py-20 px-6">
       <div role="status" className="flex flex-col items-center">
@@ -19,12 +71,23 @@ const LoadingStateView: React.FC<LoadingStateViewProps> = ({ progress }) => {
         </svg>
         <h3 className="text-xl font-semibold text-slate-700 mt-4">Processing...</h3>
         <p className="text-slate-500 mt-2">{progress?.stage || 'Please wait...'}</p>
-        {progress?.current && progress?.total && (
-            <div className="w-full bg-slate-200 rounded-full h-2.5 mt-4 max-w-md mx-auto">
-                <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${progressPercentage}%` }}></div>
+        {hasTotal && (
+            <div className="w-full max-w-md mx-auto mt-4">
+                <div className="w-full bg-slate-200 rounded-full h-2.5">
+                    <div className="bg-blue-600 h-2.5 rounded-full transition-all duration-500" style={{ width: `${progressPercentage}%` }}></div>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">{progress?.current ?? 0} / {progress?.total}</p>
             </div>
         )}
       </div>
+      {progress?.payload?.artifacts && (
+        <div className="mt-8 text-left">
+          <PipelineArtifacts artifacts={progress.payload.artifacts} />
+        </div>
+      )}
+      {partialVariant && partialText && (
+        <PartialResultPreview variant={partialVariant} text={partialText} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,93 @@
+import React, { useRef } from 'react';
+import UploadIcon from './icons/UploadIcon';
+import { ACCEPTED_FORMAT_LABELS, FILE_ACCEPT, getFileFormat } from '../utils/fileFormats';
+
+interface MultiFileUploadProps {
+  id: string;
+  label: string;
+  onFilesChange: (files: File[]) => void;
+  files: File[];
+}
+
+const MultiFileUpload: React.FC<MultiFileUploadProps> = ({ id, label, onFilesChange, files }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = Array.from(event.target.files ?? []);
+    const validFiles = selectedFiles.filter((file) => getFileFormat(file));
+
+    if (validFiles.length < selectedFiles.length) {
+      alert(`Please select supported files (${ACCEPTED_FORMAT_LABELS}).`);
+    }
+
+    // Skip files that are already in the list (same name and size)
+    const newFiles = validFiles.filter(
+      (file) => !files.some((existing) => existing.name === file.name && existing.size === file.size)
+    );
+    if (newFiles.length > 0) {
+      onFilesChange([...files, ...newFiles]);
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''; // Allow re-selecting the same file
+    }
+  };
+
+  const handleRemoveFile = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    onFilesChange(files.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-slate-700 mb-1">
+        {label}
+      </label>
+      <div
+        className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-slate-300 border-dashed rounded-md cursor-pointer hover:border-blue-500 transition-colors"
+        onClick={() => fileInputRef.current?.click()}
+        >
+        <div className="space-y-2 text-center">
+          <UploadIcon />
+          {files.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-1">
+              {files.map((file, index) => (
+                <div
+                  key={`${file.name}-${index}`}
+                  className="flex items-center bg-slate-100 rounded-full px-3 py-1 text-xs font-medium cursor-default"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <span className="truncate max-w-[150px] sm:max-w-[200px]" title={file.name}>{file.name}</span>
+                  <button
+                    onClick={(e) => handleRemoveFile(e, index)}
+                    className="ml-2 text-slate-500 hover:text-red-600 font-bold leading-none text-lg flex-shrink-0 cursor-pointer"
+                    title="Remove file"
+                    aria-label={`Remove ${file.name}`}
+                  >
+                    &times;
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-sm text-slate-600">
+            {files.length > 0 ? 'Click to add more papers' : 'Click to upload one or more files'}
+          </p>
+          <input
+            id={id}
+            name={id}
+            type="file"
+            multiple
+            className="sr-only"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept={FILE_ACCEPT}
+          />
+          <p className="text-xs text-slate-500">{ACCEPTED_FORMAT_LABELS} up to 10MB each</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MultiFileUpload;
@@ -0,0 +1,116 @@
+import React from 'react';
+import type { MigrationArtifacts, StyleGuide, DocumentContext, DetailedMetrics } from '@papermirror/types';
+
+interface PipelineArtifactsProps {
+  artifacts: MigrationArtifacts;
+  /** 本地计算的范文指标，用于核对 LLM 估计的数值 */
+  measuredSample?: DetailedMetrics;
+}
+
+const EstimateCard: React.FC<{ title: string; estimate: number; measured?: string; unit?: string }> = ({
+  title,
+  estimate,
+  measured,
+  unit,
+}) => (
+  <div className="bg-slate-100 p-3 rounded-lg text-center">
+    <h4 className="text-xs font-medium text-slate-500">{title}</h4>
+    <p className="text-lg font-semibold text-slate-800 mt-1">
+      {estimate}
+      {unit && <span className="text-sm font-normal text-slate-600 ml-1">{unit}</span>}
+    </p>
+    {measured !== undefined && (
+      <p className="text-xs text-slate-500" title="本地确定性计算的结果">
+        实测 {measured}
+      </p>
+    )}
+  </div>
+);
+
+const StyleGuideDisplay: React.FC<{ styleGuide: StyleGuide; measured?: DetailedMetrics }> = ({ styleGuide, measured }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-3 gap-2">
+      <EstimateCard
+        title="平均句长"
+        estimate={styleGuide.averageSentenceLength}
+        measured={measured && `${measured.sentenceLength.mean.toFixed(1)} ${measured.lengthUnit === 'words' ? 'words' : 'chars'}`}
+      />
+      <EstimateCard
+        title="词汇复杂度"
+        estimate={styleGuide.lexicalComplexity}
+        measured={measured?.lexical.typeTokenRatio.toFixed(2)}
+      />
+      <EstimateCard
+        title="被动语态"
+        estimate={styleGuide.passiveVoicePercentage}
+        unit="%"
+        measured={measured && `${measured.passiveVoicePercentage.toFixed(1)}%`}
+      />
+    </div>
+    {measured && <p className="text-xs text-slate-400">大号数字为 LLM 估计值；"实测"为本地计算的范文指标（词汇复杂度取词型/词例比）。</p>}
+    <dl className="text-sm space-y-2">
+      <div>
+        <dt className="text-xs font-medium text-slate-500">语调</dt>
+        <dd className="text-slate-800">{styleGuide.tone || '—'}</dd>
+      </div>
+      <div>
+        <dt className="text-xs font-medium text-slate-500">结构</dt>
+        <dd className="text-slate-800">{styleGuide.structure || '—'}</dd>
+      </div>
+      {styleGuide.commonTransitions.length > 0 && (
+        <div>
+          <dt className="text-xs font-medium text-slate-500 mb-1">常用过渡词</dt>
+          <dd className="flex flex-wrap gap-1">
+            {styleGuide.commonTransitions.map((transition, i) => (
+              <span key={i} className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded">
+                {transition}
+              </span>
+            ))}
+          </dd>
+        </div>
+      )}
+    </dl>
+  </div>
+);
+
+const DocumentContextDisplay: React.FC<{ documentContext: DocumentContext }> = ({ documentContext }) => (
+  <div className="space-y-3 text-sm">
+    <p className="text-slate-700">{documentContext.documentSummary}</p>
+    {documentContext.sectionSummaries.length > 0 && (
+      <ol className="space-y-2 max-h-64 overflow-y-auto">
+        {documentContext.sectionSummaries.map((section, i) => (
+          <li key={i} className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+            <p className="font-medium text-slate-800">{section.sectionTitle}</p>
+            <p className="text-slate-600 mt-1">{section.summary}</p>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+/**
+ * 展示客户端流水线的中间产物：驱动本次改写的风格指纹和草稿语境
+ */
+const PipelineArtifacts: React.FC<PipelineArtifactsProps> = ({ artifacts, measuredSample }) => {
+  if (!artifacts.styleGuide && !artifacts.documentContext) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {artifacts.styleGuide && (
+        <div className="p-4 border border-slate-200 rounded-lg bg-white">
+          <h3 className="font-semibold text-slate-800 mb-3">🧬 风格指纹（阶段 1）</h3>
+          <StyleGuideDisplay styleGuide={artifacts.styleGuide} measured={measuredSample} />
+        </div>
+      )}
+      {artifacts.documentContext && (
+        <div className="p-4 border border-slate-200 rounded-lg bg-white">
+          <h3 className="font-semibold text-slate-800 mb-3">🗺️ 草稿语境（阶段 2）</h3>
+          <DocumentContextDisplay documentContext={artifacts.documentContext} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PipelineArtifacts;
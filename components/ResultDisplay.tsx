@@ -3,6 +3,7 @@ import type { MigrationResult, ProgressUpdate, DownloadLinks, ErrorDetails } fro
 import InitialStateView from './InitialStateView';
 import LoadingStateView from './LoadingStateView';
 import ErrorStateView from './ErrorStateView';
+import CancelledStateView from './CancelledStateView';
 import SuccessResultView from './SuccessResultView';
 
 interface ResultDisplayProps {
@@ -10,10 +11,12 @@ interface ResultDisplayProps {
   isLoading: boolean;
   isSuccess: boolean;
   isError: boolean;
+  isCancelled: boolean;
   error: ErrorDetails | null;
   result: MigrationResult | null;
   downloadLinks: DownloadLinks;
   progress: ProgressUpdate | null;
+  onMergedChange?: (text: string | null) => void;
 }
 
 const ResultDisplay: React.FC<ResultDisplayProps> = ({
@@ -21,10 +24,12 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({
   isLoading,
   isSuccess,
   isError,
+  isCancelled,
   error,
   result,
   downloadLinks,
   progress,
+  onMergedChange,
 }) => {
   const renderContent = () => {
     if (isLoading) {
@@ -32,13 +37,17 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({
     }
 
     if (isSuccess && result) {
-      return <SuccessResultView result={result} downloadLinks={downloadLinks} />;
+      return <SuccessResultView result={result} downloadLinks={downloadLinks} onMergedChange={onMergedChange} />;
     }
 
     if (isError) {
       return <ErrorStateView error={error} />;
     }
 
+    if (isCancelled) {
+      return <CancelledStateView />;
+    }
+
     if (isIdle) {
       return <InitialStateView />;
     }
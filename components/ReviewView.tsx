@@ -0,0 +1,152 @@
+import React from 'react';
+import type { ReviewChoice } from '@papermirror/types';
+import { unitText } from '../utils/review';
+import type { ReviewParagraph, ReviewUnit } from '../utils/review';
+
+interface ReviewViewProps {
+  paragraphs: ReviewParagraph[];
+  selections: Record<string, ReviewChoice>;
+  defaultChoice: ReviewChoice;
+  onChoose: (unitIds: string[], choice: ReviewChoice) => void;
+  onDefaultChange: (choice: ReviewChoice) => void;
+  onReset: () => void;
+  /** 已生成合稿时的下载链接 */
+  mergedUrl?: string;
+}
+
+const choices: { id: ReviewChoice; label: string; active: string }[] = [
+  { id: 'draft', label: '草稿', active: 'bg-slate-700 text-white' },
+  { id: 'conservative', label: '保守', active: 'bg-emerald-600 text-white' },
+  { id: 'standard', label: '标准', active: 'bg-blue-600 text-white' },
+  { id: 'enhanced', label: '增强', active: 'bg-purple-600 text-white' },
+];
+
+const textClass: Record<ReviewChoice, string> = {
+  draft: 'border-slate-300',
+  conservative: 'border-emerald-400',
+  standard: 'border-blue-400',
+  enhanced: 'border-purple-400',
+};
+
+const ChoiceButtons: React.FC<{
+  value?: ReviewChoice;
+  available: (choice: ReviewChoice) => boolean;
+  onChange: (choice: ReviewChoice) => void;
+}> = ({ value, available, onChange }) => (
+  <div className="inline-flex rounded-md border border-slate-200 overflow-hidden text-xs flex-shrink-0">
+    {choices.map((choice) => (
+      <button
+        key={choice.id}
+        type="button"
+        onClick={() => onChange(choice.id)}
+        disabled={!available(choice.id)}
+        className={`px-2 py-0.5 ${value === choice.id ? choice.active : 'bg-white text-slate-600 hover:bg-slate-50'} disabled:text-slate-300 disabled:bg-white`}
+      >
+        {choice.label}
+      </button>
+    ))}
+  </div>
+);
+
+// 所有版本与草稿相同的单元无需选择
+const hasAlternatives = (unit: ReviewUnit) =>
+  Object.values(unit.variants).some((text) => text !== unit.draft);
+
+/**
+ * 审阅模式 - 逐句（或逐段）选择采用草稿还是某个改写版本，拼出最终合稿
+ */
+const ReviewView: React.FC<ReviewViewProps> = ({
+  paragraphs,
+  selections,
+  defaultChoice,
+  onChoose,
+  onDefaultChange,
+  onReset,
+  mergedUrl,
+}) => {
+  // 标题段落到下一个标题之前的全部单元，用于按节批量选择
+  const sectionUnitIds = (headingIndex: number) => {
+    const ids: string[] = [];
+    for (let i = headingIndex + 1; i < paragraphs.length && !paragraphs[i].heading; i++) {
+      ids.push(...paragraphs[i].units.map((unit) => unit.id));
+    }
+    return ids;
+  };
+
+  const sectionChoice = (headingIndex: number): ReviewChoice | undefined => {
+    const ids = sectionUnitIds(headingIndex);
+    const values = new Set(ids.map((id) => selections[id] ?? defaultChoice));
+    return values.size === 1 ? [...values][0] : undefined;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-slate-50 border border-slate-200 rounded-lg p-3">
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <span>默认采用</span>
+          <ChoiceButtons value={defaultChoice} available={() => true} onChange={onDefaultChange} />
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          <button type="button" onClick={onReset} className="text-slate-500 hover:text-red-600">
+            重置审阅
+          </button>
+          <a
+            href={mergedUrl}
+            download="merged.md"
+            className={`font-medium py-1.5 px-3 rounded-md bg-blue-600 text-white hover:bg-blue-700 ${!mergedUrl ? 'opacity-50 pointer-events-none' : ''}`}
+          >
+            下载合稿
+          </a>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        为每一句选择采用的版本，标题处可以整节切换。选择会自动保存，重新打开页面后可以继续审阅。
+      </p>
+
+      <div className="space-y-3">
+        {paragraphs.map((paragraph) =>
+          paragraph.heading ? (
+            <div key={paragraph.index} className="flex flex-wrap items-center justify-between gap-2 pt-3 border-t border-slate-100">
+              <h4 className="font-semibold text-slate-800">{paragraph.units[0].draft.replace(/^#+\s*/, '')}</h4>
+              {sectionUnitIds(paragraph.index).length > 0 && (
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                  <span>本节全部</span>
+                  <ChoiceButtons
+                    value={sectionChoice(paragraph.index)}
+                    available={() => true}
+                    onChange={(choice) => onChoose(sectionUnitIds(paragraph.index), choice)}
+                  />
+                </div>
+              )}
+            </div>
+          ) : (
+            <div key={paragraph.index} className="space-y-1">
+              {paragraph.units.map((unit) => {
+                const choice = selections[unit.id] ?? defaultChoice;
+                const text = unitText(unit, choice);
+                return (
+                  <div key={unit.id} className="flex items-start gap-3">
+                    <p
+                      className={`flex-1 text-sm leading-relaxed whitespace-pre-wrap border-l-2 pl-3 ${textClass[choice]} ${text ? 'text-slate-800' : 'text-slate-400 italic'}`}
+                    >
+                      {text || '（该版本删除了此句）'}
+                    </p>
+                    {hasAlternatives(unit) && (
+                      <ChoiceButtons
+                        value={choice}
+                        available={(c) => c === 'draft' || unit.variants[c] !== undefined}
+                        onChange={(c) => onChoose([unit.id], c)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewView;
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { parseOutline, hasContent } from '../utils/outline';
+import { readFileContent } from '../utils/fileFormats';
+import type { DraftSection } from '../utils/outline';
+
+interface SectionSelectorProps {
+  draftPaper: File | null;
+  /** 选中的章节索引，null 表示改写全文 */
+  selectedSections: number[] | null;
+  onChange: (selectedSections: number[] | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 草稿章节选择器 - 勾选需要改写的章节，未勾选的章节原样保留
+ */
+const SectionSelector: React.FC<SectionSelectorProps> = ({ draftPaper, selectedSections, onChange, disabled }) => {
+  const [sections, setSections] = useState<DraftSection[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!draftPaper) {
+      setSections([]);
+      return;
+    }
+
+    readFileContent(draftPaper)
+      .then((text) => {
+        if (!cancelled) setSections(parseOutline(text).filter(hasContent));
+      })
+      .catch((err) => {
+        console.error('解析草稿章节失败:', err);
+        if (!cancelled) setSections([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draftPaper]);
+
+  // 少于两个章节时没有可选的范围
+  if (sections.length < 2) return null;
+
+  const isChecked = (index: number) => selectedSections === null || selectedSections.includes(index);
+  const checkedCount = sections.filter((section) => isChecked(section.index)).length;
+
+  const handleToggle = (index: number) => {
+    const current = selectedSections ?? sections.map((section) => section.index);
+    const next = current.includes(index)
+      ? current.filter((i) => i !== index)
+      : [...current, index].sort((a, b) => a - b);
+    // 全部选中时恢复为改写全文
+    onChange(next.length === sections.length ? null : next);
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-100">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-slate-700">改写范围</h3>
+        <div className="flex gap-2 text-xs">
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="text-blue-600 hover:underline disabled:text-slate-400"
+          >
+            全选
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            disabled={disabled}
+            className="text-blue-600 hover:underline disabled:text-slate-400"
+          >
+            清空
+          </button>
+        </div>
+      </div>
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {sections.map((section) => (
+          <li key={section.index}>
+            <label
+              className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer"
+              style={{ paddingLeft: `${Math.max(0, section.level - 1) * 0.75}rem` }}
+            >
+              <input
+                type="checkbox"
+                checked={isChecked(section.index)}
+                onChange={() => handleToggle(section.index)}
+                disabled={disabled}
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className={`truncate ${section.title ? '' : 'italic text-slate-500'}`}>
+                {section.title || '开头部分'}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-slate-500 mt-2">
+        {checkedCount === sections.length
+          ? '将改写全文'
+          : `将改写 ${checkedCount}/${sections.length} 个章节，其余章节原样保留`}
+      </p>
+    </div>
+  );
+};
+
+export default SectionSelector;
@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import type { StyleGuide, StyleProfile } from '@papermirror/types';
+
+interface SaveSource {
+  samplePapers: File[];
+  styleGuide?: StyleGuide;
+}
+
+interface StyleProfilePanelProps {
+  profiles: StyleProfile[];
+  /** 选中的档案 ID，null 表示使用上传的范文 */
+  selectedProfileId: string | null;
+  onSelect: (id: string | null) => void;
+  onImport: (file: File) => Promise<StyleProfile>;
+  onExport: (profile: StyleProfile) => void;
+  onDelete: (id: string) => void;
+  /** 上一次成功运行所用的范文和风格指南，存在时可保存为档案 */
+  saveSource: SaveSource | null;
+  onSave: (params: SaveSource & { name: string; mergeIntoId?: string }) => Promise<StyleProfile>;
+  disabled?: boolean;
+}
+
+/**
+ * 风格档案面板 - 选择、导入导出已保存的"期刊指纹"，或将本次范文保存为档案
+ */
+const StyleProfilePanel: React.FC<StyleProfilePanelProps> = ({
+  profiles,
+  selectedProfileId,
+  onSelect,
+  onImport,
+  onExport,
+  onDelete,
+  saveSource,
+  onSave,
+  disabled,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const [mergeIntoId, setMergeIntoId] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const profile = await onImport(file);
+      setMessage({ type: 'success', text: `已导入「${profile.name}」` });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : '导入失败' });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!saveSource) return;
+    try {
+      const profile = await onSave({ ...saveSource, name, mergeIntoId: mergeIntoId || undefined });
+      setMessage({
+        type: 'success',
+        text: mergeIntoId
+          ? `已并入「${profile.name}」（共 ${profile.sampleNames.length} 篇范文）`
+          : `已保存「${profile.name}」`,
+      });
+      setName('');
+      setMergeIntoId('');
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : '保存失败' });
+    }
+  };
+
+  const handleDelete = (profile: StyleProfile) => {
+    if (!window.confirm(`确定删除风格档案「${profile.name}」吗？`)) return;
+    if (selectedProfileId === profile.id) onSelect(null);
+    onDelete(profile.id);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-slate-700">风格档案</h3>
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+          className="text-xs text-blue-600 hover:underline disabled:text-slate-400"
+        >
+          导入 JSON
+        </button>
+        <input ref={importInputRef} type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+      </div>
+
+      <ul className="space-y-1 text-sm">
+        <li>
+          <label className="flex items-center gap-2 cursor-pointer text-slate-700">
+            <input
+              type="radio"
+              name="style-profile"
+              checked={selectedProfileId === null}
+              onChange={() => onSelect(null)}
+              disabled={disabled}
+            />
+            <span>使用上传的范文</span>
+          </label>
+        </li>
+        {profiles.map((profile) => (
+          <li key={profile.id} className="flex items-center justify-between gap-2">
+            <label
+              className={`flex items-center gap-2 min-w-0 ${profile.styleGuide ? 'cursor-pointer text-slate-700' : 'text-slate-400'}`}
+              title={profile.styleGuide ? profile.sampleNames.join('、') : '该档案不含风格指南，无法替代范文'}
+            >
+              <input
+                type="radio"
+                name="style-profile"
+                checked={selectedProfileId === profile.id}
+                onChange={() => onSelect(profile.id)}
+                disabled={disabled || !profile.styleGuide}
+              />
+              <span className="truncate">{profile.name}</span>
+              <span className="flex-shrink-0 text-xs text-slate-400">{profile.sampleNames.length} 篇</span>
+            </label>
+            <div className="flex-shrink-0 flex gap-2 text-xs">
+              <button type="button" onClick={() => onExport(profile)} className="text-slate-500 hover:text-blue-600">
+                导出
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(profile)}
+                disabled={disabled}
+                className="text-slate-500 hover:text-red-600 disabled:text-slate-300"
+              >
+                删除
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {saveSource && (
+        <div className="pt-3 border-t border-slate-100 space-y-2">
+          <p className="text-xs text-slate-500">
+            将本次范文（{saveSource.samplePapers.map((f) => f.name).join('、')}）保存为档案
+            {!saveSource.styleGuide && '（本次运行未返回风格指南，仅保存指标）'}
+          </p>
+          <select
+            value={mergeIntoId}
+            onChange={(e) => setMergeIntoId(e.target.value)}
+            className="w-full text-sm border border-slate-300 rounded-md px-2 py-1.5"
+          >
+            <option value="">新建档案</option>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                并入「{profile.name}」
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            {!mergeIntoId && (
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="例如：IEEE TPAMI"
+                className="flex-1 min-w-0 text-sm border border-slate-300 rounded-md px-2 py-1.5"
+              />
+            )}
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={disabled || (!mergeIntoId && !name.trim())}
+              className="flex-shrink-0 text-sm font-medium bg-slate-800 text-white px-3 py-1.5 rounded-md hover:bg-slate-700 disabled:bg-slate-300"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default StyleProfilePanel;
@@ -1,15 +1,25 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { MigrationResult, DownloadLinks } from '@papermirror/types';
+import type { MigrationResult, DownloadLinks, RewriteVariant, FidelityAlert, FidelityGuardrails } from '@papermirror/types';
 import AnalysisReport from './AnalysisReport';
+import type { CitationLibraryControls } from './AnalysisReport';
+import PipelineArtifacts from './PipelineArtifacts';
+import DiffView from './DiffView';
+import type { DiffFocus } from './DiffView';
+import ReviewView from './ReviewView';
+import { useReviewSession } from '../hooks/useReviewSession';
+import { useBibliography } from '../hooks/useBibliography';
+import { formatReference } from '../utils/bibliography';
 import DownloadIcon from './icons/DownloadIcon';
 import { marked } from 'marked';
 import DOMPurify from 'dompurify';
 
-type Tab = 'conservative' | 'standard' | 'enhanced' | 'report';
+type Tab = 'conservative' | 'standard' | 'enhanced' | 'diff' | 'review' | 'report';
 
 interface SuccessResultViewProps {
   result: MigrationResult;
   downloadLinks: DownloadLinks;
+  /** 审阅合稿变化时回调，用于生成合稿下载链接 */
+  onMergedChange?: (text: string | null) => void;
 }
 
 const CopyIcon = () => (
@@ -75,8 +85,72 @@ const CopyButton: React.FC<{ text: string }> = ({ text }) => {
   );
 };
 
-const SuccessResultView: React.FC<SuccessResultViewProps> = ({ result, downloadLinks }) => {
+// 版本标签上的保留率，任一检查低于 90% 时以黄色提示
+const FidelityBadge: React.FC<{ guardrails: FidelityGuardrails }> = ({ guardrails }) => {
+  const rates = [
+    guardrails.numberRetentionRate,
+    guardrails.acronymRetentionRate,
+    guardrails.unitRetentionRate,
+    guardrails.citationRetentionRate,
+    guardrails.equationRetentionRate,
+    guardrails.figureTableRetentionRate,
+  ].filter((rate) => rate !== undefined);
+  const warn = rates.some((rate) => rate < 90);
+  return (
+    <span
+      className={`inline-block text-[11px] mt-1 px-1.5 py-0.5 rounded ${warn ? 'bg-yellow-100 text-yellow-800' : 'bg-green-50 text-green-700'}`}
+      title={`数字保留率 / 缩写保留率${warn ? '；存在保留率低于 90% 的检查项，详见分析报告' : ''}`}
+    >
+      数字 {guardrails.numberRetentionRate.toFixed(0)}% · 缩写 {guardrails.acronymRetentionRate.toFixed(0)}%
+    </span>
+  );
+};
+
+const SuccessResultView: React.FC<SuccessResultViewProps> = ({ result, downloadLinks, onMergedChange }) => {
   const [activeTab, setActiveTab] = useState<Tab>('standard');
+  const bibliography = useBibliography();
+  // numeric 引用样式下合稿末尾的参考文献条目
+  const references = useMemo(
+    () =>
+      Object.fromEntries((bibliography.library?.entries ?? []).map((entry) => [entry.key, formatReference(entry)])),
+    [bibliography.library]
+  );
+  const review = useReviewSession(result, references);
+
+  useEffect(() => {
+    onMergedChange?.(review.mergedDocument);
+  }, [review.mergedDocument, onMergedChange]);
+  // 差异对比默认显示最近查看的版本
+  const [lastVariant, setLastVariant] = useState<RewriteVariant>('standard');
+  const [diffFocus, setDiffFocus] = useState<DiffFocus | null>(null);
+
+  // 点击保真度警报后在差异对比中定位到对应句子
+  const handleAlertSelect = (alert: FidelityAlert, variant: RewriteVariant) => {
+    setDiffFocus({ variant, sentenceIndex: alert.sentenceIndex, token: alert.token, nonce: Date.now() });
+    setActiveTab('diff');
+  };
+
+  // 离开差异对比后清除定位，手动切回时不再强制跳转
+  useEffect(() => {
+    if (activeTab !== 'diff') setDiffFocus(null);
+  }, [activeTab]);
+
+  const fidelity = result.analysisReport?.fidelityGuardrails;
+
+  // 引用只插入合稿，因此需要草稿才能审阅
+  const citationLibrary: CitationLibraryControls | undefined = result.draft
+    ? {
+        fileName: bibliography.library?.fileName,
+        entries: bibliography.library?.entries ?? [],
+        index: bibliography.index,
+        style: review.citationStyle,
+        onStyleChange: review.setCitationStyle,
+        onImport: bibliography.importLibrary,
+        onClear: bibliography.clearLibrary,
+        isInserted: (anchor, key) => review.citations.some((c) => c.anchor === anchor && c.key === key),
+        onToggle: review.toggleCitation,
+      }
+    : undefined;
 
   const contentKey = ['conservative', 'standard', 'enhanced'].includes(activeTab)
       ? activeTab as 'conservative' | 'standard' | 'enhanced'
@@ -84,6 +158,10 @@ const SuccessResultView: React.FC<SuccessResultViewProps> = ({ result, downloadL
 
   const textContent = contentKey ? result[contentKey] : null;
 
+  useEffect(() => {
+    if (contentKey) setLastVariant(contentKey);
+  }, [contentKey]);
+
   // 使用 useMemo 缓存 Markdown 解析和 HTML 净化结果
   const htmlContent = useMemo(() => {
     if (!textContent) {
@@ -105,6 +183,12 @@ const SuccessResultView: React.FC<SuccessResultViewProps> = ({ result, downloadL
     { id: 'conservative', label: '保守模式', desc: '微调语法，保留原意', color: 'bg-emerald-100 text-emerald-700' },
     { id: 'standard', label: '标准模式', desc: '平衡重写，符合惯例', color: 'bg-blue-100 text-blue-700' },
     { id: 'enhanced', label: '增强模式', desc: '深度润色，提升质感', color: 'bg-purple-100 text-purple-700' },
+    ...(result.draft
+      ? [
+          { id: 'diff' as Tab, label: '差异对比', desc: '草稿与改写逐句对照', color: 'bg-rose-100 text-rose-700' },
+          { id: 'review' as Tab, label: '审阅合稿', desc: '逐句取舍，合成终稿', color: 'bg-cyan-100 text-cyan-700' },
+        ]
+      : []),
     { id: 'report', label: '分析报告', desc: '量化指标与改进建议', color: 'bg-amber-100 text-amber-700' },
   ];
   
@@ -116,6 +200,16 @@ const SuccessResultView: React.FC<SuccessResultViewProps> = ({ result, downloadL
         <div>
           <h2 className="text-2xl font-bold text-slate-900 tracking-tight">重写完成</h2>
           <p className="text-slate-500 mt-1">请选择最适合您需求的版本进行查看或下载。</p>
+          {result.rewrittenSections && (
+            <p className="text-xs text-slate-500 mt-2">
+              仅改写了：{result.rewrittenSections.join('、')}；其余章节保持原文，分析报告只统计改写过的章节。
+            </p>
+          )}
+          {result.warnings?.map((warning) => (
+            <p key={warning} className="text-xs text-amber-700 mt-2">
+              {warning}
+            </p>
+          ))}
         </div>
         <div className="flex flex-wrap gap-2">
            <DownloadButton href={downloadLinks?.standard} downloadName="standard.md" variant="primary">下载标准版</DownloadButton>
@@ -123,6 +217,9 @@ const SuccessResultView: React.FC<SuccessResultViewProps> = ({ result, downloadL
              <DownloadButton href={downloadLinks?.conservative} downloadName="conservative.md">保守版</DownloadButton>
              <DownloadButton href={downloadLinks?.enhanced} downloadName="enhanced.md">增强版</DownloadButton>
              <DownloadButton href={downloadLinks?.report} downloadName="report.json">JSON</DownloadButton>
+             {downloadLinks?.merged && (
+               <DownloadButton href={downloadLinks.merged} downloadName="merged.md">合稿</DownloadButton>
+             )}
            </div>
         </div>
       </div>
@@ -157,6 +254,9 @@ const SuccessResultView: React.FC<SuccessResultViewProps> = ({ result, downloadL
                     <span className={`block text-xs mt-0.5 ${isActive ? 'text-slate-500' : 'text-slate-400'}`}>
                       {tab.desc}
                     </span>
+                    {fidelity?.[tab.id as RewriteVariant] && (
+                      <FidelityBadge guardrails={fidelity[tab.id as RewriteVariant]!} />
+                    )}
                   </div>
                 </button>
               );
@@ -178,9 +278,45 @@ const SuccessResultView: React.FC<SuccessResultViewProps> = ({ result, downloadL
              </>
           )}
           
+          {activeTab === 'diff' && result.draft && (
+            <div className="p-6 md:p-8">
+              <DiffView
+                draft={result.draft}
+                variants={{ conservative: result.conservative, standard: result.standard, enhanced: result.enhanced }}
+                alignments={result.analysisReport?.alignment}
+                initialVariant={lastVariant}
+                focus={diffFocus}
+              />
+            </div>
+          )}
+
+          {activeTab === 'review' && result.draft && (
+            <div className="p-6 md:p-8">
+              <ReviewView
+                paragraphs={review.paragraphs}
+                selections={review.selections}
+                defaultChoice={review.defaultChoice}
+                onChoose={review.setChoice}
+                onDefaultChange={review.setDefaultChoice}
+                onReset={review.resetReview}
+                mergedUrl={downloadLinks?.merged}
+              />
+            </div>
+          )}
+
           {activeTab === 'report' && result.analysisReport && (
-            <div className="p-6 md:p-8 bg-slate-50/30">
-              <AnalysisReport report={result.analysisReport} />
+            <div className="p-6 md:p-8 bg-slate-50/30 space-y-6">
+              {result.artifacts && (
+                <PipelineArtifacts
+                  artifacts={result.artifacts}
+                  measuredSample={result.analysisReport.styleComparison?.sample}
+                />
+              )}
+              <AnalysisReport
+                report={result.analysisReport}
+                onAlertSelect={result.draft ? handleAlertSelect : undefined}
+                citationLibrary={citationLibrary}
+              />
             </div>
           )}
         </div>
@@ -0,0 +1,33 @@
+import { useState, useCallback, useMemo } from 'react';
+import { buildLibraryIndex, parseBibliography } from '../utils/bibliography';
+import { loadBibliography, saveBibliography, removeBibliography } from '../utils/storage';
+import type { StoredBibliography } from '../utils/storage';
+
+// ==================== Hook ====================
+
+export const useBibliography = () => {
+  const [library, setLibrary] = useState<StoredBibliography | null>(() => loadBibliography());
+
+  // BM25 索引只随文献库变化
+  const index = useMemo(() => (library ? buildLibraryIndex(library.entries) : null), [library]);
+
+  // 导入 .bib 或 CSL-JSON 文件，替换当前文献库
+  const importLibrary = useCallback(async (file: File): Promise<StoredBibliography> => {
+    const next = { fileName: file.name, entries: parseBibliography(file.name, await file.text()) };
+    saveBibliography(next);
+    setLibrary(next);
+    return next;
+  }, []);
+
+  const clearLibrary = useCallback(() => {
+    removeBibliography();
+    setLibrary(null);
+  }, []);
+
+  return {
+    library,
+    index,
+    importLibrary,
+    clearLibrary,
+  };
+};
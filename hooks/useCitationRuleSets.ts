@@ -0,0 +1,68 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { CitationRuleSet } from '@papermirror/types';
+import { DEFAULT_CITATION_RULE_SET } from '../utils/analysis';
+import { parseCitationRuleSet, serializeCitationRuleSet, validateCitationRuleSet } from '../utils/citationRules';
+import {
+  loadCitationRuleSets,
+  saveCitationRuleSet,
+  removeCitationRuleSet,
+  loadActiveCitationRuleSetId,
+  saveActiveCitationRuleSetId
+} from '../utils/storage';
+
+// ==================== Hook ====================
+
+export const useCitationRuleSets = () => {
+  const [customRuleSets, setCustomRuleSets] = useState<CitationRuleSet[]>(() => loadCitationRuleSets());
+  const [activeId, setActiveId] = useState<string | null>(() => loadActiveCitationRuleSetId());
+
+  // 内置规则集始终排在第一位
+  const ruleSets = useMemo(() => [DEFAULT_CITATION_RULE_SET, ...customRuleSets], [customRuleSets]);
+
+  // 选中的规则集被删除后退回内置规则集
+  const activeRuleSet = customRuleSets.find((ruleSet) => ruleSet.id === activeId) ?? DEFAULT_CITATION_RULE_SET;
+
+  const selectRuleSet = useCallback((id: string) => {
+    const next = id === DEFAULT_CITATION_RULE_SET.id ? null : id;
+    saveActiveCitationRuleSetId(next);
+    setActiveId(next);
+  }, []);
+
+  // 保存编辑后的规则集，同 ID 的规则集会被覆盖
+  const saveRuleSet = useCallback((ruleSet: CitationRuleSet): CitationRuleSet => {
+    validateCitationRuleSet(ruleSet);
+    setCustomRuleSets(saveCitationRuleSet(ruleSet));
+    return ruleSet;
+  }, []);
+
+  const importRuleSet = useCallback(async (file: File): Promise<CitationRuleSet> => {
+    const ruleSet = parseCitationRuleSet(await file.text());
+    setCustomRuleSets(saveCitationRuleSet(ruleSet));
+    return ruleSet;
+  }, []);
+
+  // 导出为 JSON 文件并触发下载
+  const exportRuleSet = useCallback((ruleSet: CitationRuleSet) => {
+    const blob = new Blob([serializeCitationRuleSet(ruleSet)], { type: 'application/json;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${ruleSet.name.replace(/[\\/:*?"<>|\s]+/g, '_')}.citation-rules.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const deleteRuleSet = useCallback((id: string) => {
+    setCustomRuleSets(removeCitationRuleSet(id));
+  }, []);
+
+  return {
+    ruleSets,
+    activeRuleSet,
+    selectRuleSet,
+    saveRuleSet,
+    importRuleSet,
+    exportRuleSet,
+    deleteRuleSet,
+  };
+};
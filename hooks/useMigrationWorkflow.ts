@@ -1,11 +1,40 @@
 import { useReducer, useCallback, useEffect, useRef } from 'react';
-import { runFullTextWorkflow } from '../services/workflowService';
-import type { MigrationResult, ProgressUpdate, WorkflowState, DownloadLinks } from '@papermirror/types';
-import { normalizeError } from '../src/errors';
+import { runFullTextWorkflow, cancelActiveJob } from '../services/workflowService';
+import type {
+  CitationRuleSet,
+  MigrationResult,
+  ProgressUpdate,
+  WorkflowState,
+  DownloadLinks,
+  StyleProfile
+} from '@papermirror/types';
+import { normalizeError, isCancellationError } from '../src/errors';
+import { getApiConfig, getLlmConfig } from '../src/config';
+import { readFileContent } from '../utils/fileFormats';
+import {
+  loadActiveJob,
+  loadStyleProfiles,
+  loadCitationRuleSets,
+  loadActiveCitationRuleSetId
+} from '../utils/storage';
 
 interface StartMigrationParams {
-  samplePaper: File | null;
+  /** 一篇或多篇范文，多篇时指标取均值并记录离散度 */
+  samplePapers: File[];
   draftPaper: File | null;
+  /** 只改写这些章节（parseOutline 的索引），未指定时改写全文 */
+  selectedSections?: number[];
+  /** 替代范文的风格档案，提供时无需上传范文 */
+  styleProfile?: StyleProfile;
+  /** 引用建议所用的规则集，未指定时使用内置规则集 */
+  citationRules?: CitationRuleSet;
+}
+
+interface RunOptions {
+  resumeJobId?: string;
+  selectedSections?: number[];
+  styleProfile?: StyleProfile;
+  citationRules?: CitationRuleSet;
 }
 
 // Reducer 动作类型
@@ -14,8 +43,13 @@ type WorkflowAction =
   | { type: 'PROGRESS'; payload: ProgressUpdate }
   | { type: 'SUCCESS'; payload: { result: MigrationResult; downloadLinks: DownloadLinks } }
   | { type: 'ERROR'; payload: { error: ReturnType<typeof normalizeError> } }
+  | { type: 'CANCELLED' }
+  | { type: 'SET_MERGED'; payload: { url?: string } }
   | { type: 'RESET' };
 
+// 记录到任务存储中的范文文件名，多篇时以逗号连接
+const joinFileNames = (files: File[]) => files.map((file) => file.name).join(', ');
+
 // ==================== Reducer ====================
 
 function workflowReducer(state: WorkflowState, action: WorkflowAction): WorkflowState {
@@ -25,7 +59,14 @@ function workflowReducer(state: WorkflowState, action: WorkflowAction): Workflow
 
     case 'PROGRESS':
       if (state.type !== 'loading') return state;
-      return { ...state, progress: action.payload };
+      // 仅携带阶段文本的更新不应清空已流式接收的部分结果
+      return {
+        ...state,
+        progress: {
+          ...action.payload,
+          payload: action.payload.payload ?? state.progress.payload,
+        },
+      };
 
     case 'SUCCESS':
       return {
@@ -37,6 +78,14 @@ function workflowReducer(state: WorkflowState, action: WorkflowAction): Workflow
     case 'ERROR':
       return { type: 'error', error: action.payload.error.toJSON() };
 
+    case 'CANCELLED':
+      if (state.type !== 'loading') return state;
+      return { type: 'cancelled' };
+
+    case 'SET_MERGED':
+      if (state.type !== 'success') return state;
+      return { ...state, downloadLinks: { ...state.downloadLinks, merged: action.payload.url } };
+
     case 'RESET':
       return { type: 'idle' };
 
@@ -53,6 +102,9 @@ export const useMigrationWorkflow = () => {
   // 使用 ref 追踪下载链接，用于清理
   const downloadLinksRef = useRef<DownloadLinks>({});
 
+  // 当前运行的取消控制器
+  const abortControllerRef = useRef<AbortController | null>(null);
+
   // 清理函数
   const revokeDownloadLinks = useCallback((links: DownloadLinks) => {
     Object.values(links).forEach((url) => {
@@ -65,55 +117,11 @@ export const useMigrationWorkflow = () => {
   // 组件卸载时清理
   useEffect(() => {
     return () => {
+      abortControllerRef.current?.abort();
       revokeDownloadLinks(downloadLinksRef.current);
     };
   }, [revokeDownloadLinks]);
 
-  // 读取文件内容
-  const readFileContent = useCallback((file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      // 验证文件类型
-      const validTypes = [
-        'text/plain',
-        'text/markdown',
-        'text/x-tex',
-        'application/msword',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-      ];
-
-      if (!validTypes.includes(file.type) && !file.name.match(/\.(txt|md|docx?|tex)$/i)) {
-        reject(new Error(
-          `不支持的文件类型: ${file.type || '未知'}。` +
-          `支持的类型: TXT, MD, TEX, DOC, DOCX（暂不支持 PDF）`
-        ));
-        return;
-      }
-
-      // 验证文件大小 (最大 10MB)
-      const maxSize = 10 * 1024 * 1024;
-      if (file.size > maxSize) {
-        reject(new Error(`文件过大: ${(file.size / 1024 / 1024).toFixed(2)}MB (最大 10MB)`));
-        return;
-      }
-
-      const reader = new FileReader();
-
-      reader.onload = (event) => {
-        if (event.target && typeof event.target.result === 'string') {
-          resolve(event.target.result);
-        } else {
-          reject(new Error('读取文件内容失败'));
-        }
-      };
-
-      reader.onerror = () => {
-        reject(new Error('读取文件时发生错误'));
-      };
-
-      reader.readAsText(file);
-    });
-  }, []);
-
   // 创建下载链接
   const createDownloadLinks = useCallback((result: MigrationResult): DownloadLinks => {
     // 先清理旧的链接
@@ -137,7 +145,11 @@ export const useMigrationWorkflow = () => {
     }
 
     if (result.analysisReport) {
-      const blob = new Blob([JSON.stringify(result.analysisReport, null, 2)], {
+      // 附带风格指纹等中间产物，便于审阅改写依据
+      const report = result.artifacts
+        ? { ...result.analysisReport, artifacts: result.artifacts }
+        : result.analysisReport;
+      const blob = new Blob([JSON.stringify(report, null, 2)], {
         type: 'application/json;charset=utf-8',
       });
       links.report = URL.createObjectURL(blob);
@@ -149,35 +161,47 @@ export const useMigrationWorkflow = () => {
     return links;
   }, [revokeDownloadLinks]);
 
-  // 开始迁移
-  const startMigration = useCallback(
-    async ({ samplePaper, draftPaper }: StartMigrationParams) => {
-      if (!samplePaper || !draftPaper) {
-        dispatch({
-          type: 'ERROR',
-          payload: { error: normalizeError(new Error('请上传范文和草稿两个文件')) },
-        });
-        return;
-      }
+  // 执行迁移（新任务或恢复已提交的任务）
+  const runMigration = useCallback(
+    async (
+      samplePapers: File[],
+      draftPaper: File,
+      { resumeJobId, selectedSections, styleProfile, citationRules }: RunOptions = {}
+    ) => {
+      // 中止上一次尚未结束的运行
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
       dispatch({ type: 'START' });
 
       try {
-        const [sampleContent, draftContent] = await Promise.all([
-          readFileContent(samplePaper),
+        // 使用风格档案时不读取范文
+        const [sampleContents, draftContent] = await Promise.all([
+          Promise.all(styleProfile ? [] : samplePapers.map(readFileContent)),
           readFileContent(draftPaper),
         ]);
 
         const handleProgress = (update: ProgressUpdate) => {
+          if (controller.signal.aborted) return;
           dispatch({ type: 'PROGRESS', payload: update });
         };
 
         const migrationResult = await runFullTextWorkflow({
-          samplePaperContent: sampleContent,
+          samplePaperContents: sampleContents,
           draftPaperContent: draftContent,
           onProgress: handleProgress,
+          signal: controller.signal,
+          resumeJobId,
+          selectedSections,
+          styleProfile,
+          citationRules,
+          sampleName: styleProfile ? undefined : joinFileNames(samplePapers),
+          draftName: draftPaper.name,
         });
 
+        if (controller.signal.aborted) return;
+
         const links = createDownloadLinks(migrationResult);
 
         dispatch({
@@ -185,16 +209,116 @@ export const useMigrationWorkflow = () => {
           payload: { result: migrationResult, downloadLinks: links },
         });
       } catch (err) {
+        // 已被新的运行取代，忽略旧运行的结果
+        if (abortControllerRef.current !== controller) return;
+
+        if (controller.signal.aborted || isCancellationError(err)) {
+          console.log('迁移已取消');
+          dispatch({ type: 'CANCELLED' });
+          return;
+        }
+
         console.error('迁移失败:', err);
         const normalized = normalizeError(err);
         dispatch({ type: 'ERROR', payload: { error: normalized } });
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+      }
+    },
+    [createDownloadLinks]
+  );
+
+  // 开始迁移
+  const startMigration = useCallback(
+    async ({ samplePapers, draftPaper, selectedSections, styleProfile, citationRules }: StartMigrationParams) => {
+      if ((samplePapers.length === 0 && !styleProfile) || !draftPaper) {
+        dispatch({
+          type: 'ERROR',
+          payload: { error: normalizeError(new Error('请上传草稿，并上传范文或选择风格档案')) },
+        });
+        return;
       }
+
+      await runMigration(samplePapers, draftPaper, { selectedSections, styleProfile, citationRules });
+    },
+    [runMigration]
+  );
+
+  // 恢复存储中未完成的任务（仅任务模式）
+  // 返回是否找到可恢复的任务
+  const resumeMigration = useCallback(
+    async ({ samplePapers, draftPaper }: StartMigrationParams): Promise<boolean> => {
+      const job = loadActiveJob();
+      if (!job || getApiConfig().mode !== 'job' || getLlmConfig().provider !== 'cloudFunction') return false;
+
+      // 本地分析需要原始文件（或风格档案），缺失或已更换时放弃恢复
+      const styleProfile = job.styleProfileId
+        ? loadStyleProfiles().find((profile) => profile.id === job.styleProfileId)
+        : undefined;
+      if (
+        !draftPaper ||
+        (job.draftName && job.draftName !== draftPaper.name) ||
+        (job.styleProfileId
+          ? !styleProfile
+          : samplePapers.length === 0 || (job.sampleName && job.sampleName !== joinFileNames(samplePapers)))
+      ) {
+        console.warn(`存储的任务 ${job.jobId} 与当前文件不匹配，已放弃恢复`);
+        void cancelActiveJob();
+        return false;
+      }
+
+      // 引用建议在本地生成，沿用当前选中的规则集
+      const activeRulesId = loadActiveCitationRuleSetId();
+      const citationRules = loadCitationRuleSets().find((ruleSet) => ruleSet.id === activeRulesId);
+
+      await runMigration(samplePapers, draftPaper, {
+        resumeJobId: job.jobId,
+        selectedSections: job.selectedSections,
+        styleProfile,
+        citationRules,
+      });
+      return true;
     },
-    [readFileContent, createDownloadLinks]
+    [runMigration]
   );
 
+  // 取消正在进行的迁移
+  const cancelMigration = useCallback(() => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    void cancelActiveJob();
+    dispatch({ type: 'CANCELLED' });
+  }, []);
+
+  // 更新审阅合稿的下载链接，传入 null 时移除
+  const setMergedDocument = useCallback((text: string | null) => {
+    const previous = downloadLinksRef.current.merged;
+    if (previous) {
+      URL.revokeObjectURL(previous);
+    }
+    const url = text === null
+      ? undefined
+      : URL.createObjectURL(new Blob([text], { type: 'text/markdown;charset=utf-8' }));
+    downloadLinksRef.current = { ...downloadLinksRef.current, merged: url };
+    dispatch({ type: 'SET_MERGED', payload: { url } });
+  }, []);
+
+  // 直接展示已有的结果（如继续上次保存的审阅）
+  const restoreResult = useCallback((result: MigrationResult) => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    dispatch({
+      type: 'SUCCESS',
+      payload: { result, downloadLinks: createDownloadLinks(result) },
+    });
+  }, [createDownloadLinks]);
+
   // 重置工作流
   const resetWorkflow = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     revokeDownloadLinks(downloadLinksRef.current);
     downloadLinksRef.current = {};
     dispatch({ type: 'RESET' });
@@ -205,6 +329,7 @@ export const useMigrationWorkflow = () => {
   const isLoading = state.type === 'loading';
   const isSuccess = state.type === 'success';
   const isError = state.type === 'error';
+  const isCancelled = state.type === 'cancelled';
 
   const progress = state.type === 'loading' ? state.progress : null;
   const result = state.type === 'success' ? state.result : null;
@@ -218,6 +343,7 @@ export const useMigrationWorkflow = () => {
     isLoading,
     isSuccess,
     isError,
+    isCancelled,
 
     // 数据
     result,
@@ -227,6 +353,10 @@ export const useMigrationWorkflow = () => {
 
     // 操作
     startMigration,
+    resumeMigration,
+    cancelMigration,
     resetWorkflow,
+    setMergedDocument,
+    restoreResult,
   };
 };
@@ -0,0 +1,148 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import type { CitationInsertion, CitationStyle, MigrationResult, ReviewChoice } from '@papermirror/types';
+import { buildReviewParagraphs, composeMergedDocument, fingerprintResult } from '../utils/review';
+import { loadReviewSession, saveReviewSession, removeReviewSession } from '../utils/storage';
+
+interface ReviewState {
+  /** 选择所属的结果，结果切换后旧选择不会被保存到新结果下 */
+  resultId: string;
+  defaultChoice: ReviewChoice;
+  selections: Record<string, ReviewChoice>;
+  citations: CitationInsertion[];
+  citationStyle: CitationStyle;
+  /** 用户是否做过选择；未审阅时不生成合稿 */
+  touched: boolean;
+}
+
+const initialState = (resultId: string): ReviewState => ({
+  resultId,
+  defaultChoice: 'standard',
+  selections: {},
+  citations: [],
+  citationStyle: 'latex',
+  touched: false,
+});
+
+// 同一结果再次打开时恢复上次的选择
+const loadState = (resultId: string): ReviewState => {
+  const saved = loadReviewSession();
+  return saved?.resultId === resultId
+    ? {
+        resultId,
+        defaultChoice: saved.defaultChoice,
+        selections: saved.selections,
+        citations: saved.citations ?? [],
+        citationStyle: saved.citationStyle ?? 'latex',
+        touched: true,
+      }
+    : initialState(resultId);
+};
+
+// ==================== Hook ====================
+
+/**
+ * @param references numeric 引用样式下文末参考文献的条目文本，按文献键索引
+ */
+export const useReviewSession = (result: MigrationResult, references?: Record<string, string>) => {
+  const resultId = useMemo(() => fingerprintResult(result), [result]);
+  const [state, setState] = useState<ReviewState>(() => loadState(resultId));
+
+  useEffect(() => {
+    setState(loadState(resultId));
+  }, [resultId]);
+
+  // 审阅单元只依赖文本内容
+  const paragraphs = useMemo(
+    () =>
+      result.draft
+        ? buildReviewParagraphs(result.draft, {
+            conservative: result.conservative,
+            standard: result.standard,
+            enhanced: result.enhanced,
+          })
+        : [],
+    [result.draft, result.conservative, result.standard, result.enhanced]
+  );
+
+  // 每次改动都保存，关闭页面后可以继续审阅
+  useEffect(() => {
+    if (!state.touched || state.resultId !== resultId) return;
+    saveReviewSession({
+      resultId,
+      result,
+      defaultChoice: state.defaultChoice,
+      selections: state.selections,
+      citations: state.citations,
+      citationStyle: state.citationStyle,
+      updatedAt: new Date().toISOString(),
+    });
+  }, [state, resultId, result]);
+
+  // 为一个或多个单元指定版本
+  const setChoice = useCallback((unitIds: string[], choice: ReviewChoice) => {
+    setState((prev) => {
+      const selections = { ...prev.selections };
+      for (const id of unitIds) {
+        selections[id] = choice;
+      }
+      return { ...prev, selections, touched: true };
+    });
+  }, []);
+
+  // 修改默认版本并清除逐句选择
+  const setDefaultChoice = useCallback((choice: ReviewChoice) => {
+    setState((prev) => ({ ...prev, defaultChoice: choice, selections: {}, touched: true }));
+  }, []);
+
+  // 按句子开头找到所在的审阅单元，插入或撤销一条引用；找不到对应单元时返回 false
+  const toggleCitation = useCallback(
+    (anchor: string, key: string): boolean => {
+      const unit = paragraphs.flatMap((paragraph) => paragraph.units).find((u) => u.draft.includes(anchor));
+      if (!unit) return false;
+      setState((prev) => {
+        const exists = prev.citations.some((c) => c.unitId === unit.id && c.anchor === anchor && c.key === key);
+        const citations = exists
+          ? prev.citations.filter((c) => !(c.unitId === unit.id && c.anchor === anchor && c.key === key))
+          : [...prev.citations, { unitId: unit.id, anchor, key }];
+        return { ...prev, citations, touched: true };
+      });
+      return true;
+    },
+    [paragraphs]
+  );
+
+  const setCitationStyle = useCallback((citationStyle: CitationStyle) => {
+    setState((prev) => ({ ...prev, citationStyle, touched: true }));
+  }, []);
+
+  const resetReview = useCallback(() => {
+    removeReviewSession();
+    setState(initialState(resultId));
+  }, [resultId]);
+
+  const mergedDocument = useMemo(
+    () =>
+      state.touched && state.resultId === resultId
+        ? composeMergedDocument(paragraphs, state.selections, state.defaultChoice, {
+            insertions: state.citations,
+            style: state.citationStyle,
+            references,
+          })
+        : null,
+    [paragraphs, state, resultId, references]
+  );
+
+  return {
+    paragraphs,
+    defaultChoice: state.defaultChoice,
+    selections: state.selections,
+    citations: state.citations,
+    citationStyle: state.citationStyle,
+    mergedDocument,
+    setChoice,
+    setDefaultChoice,
+    toggleCitation,
+    setCitationStyle,
+    resetReview,
+  };
+};
@@ -0,0 +1,76 @@
+import { useState, useCallback } from 'react';
+import type { StyleGuide, StyleProfile } from '@papermirror/types';
+import { calculateMetrics } from '../utils/analysis';
+import {
+  createStyleProfile,
+  mergeIntoProfile,
+  parseStyleProfile,
+  serializeStyleProfile
+} from '../utils/styleProfiles';
+import { loadStyleProfiles, saveStyleProfile, removeStyleProfile } from '../utils/storage';
+import { readFileContent } from '../utils/fileFormats';
+
+interface SaveProfileParams {
+  name: string;
+  samplePapers: File[];
+  styleGuide?: StyleGuide;
+  /** 并入已有档案（按范文数量加权平均），未指定时新建 */
+  mergeIntoId?: string;
+}
+
+// ==================== Hook ====================
+
+export const useStyleProfiles = () => {
+  const [profiles, setProfiles] = useState<StyleProfile[]>(() => loadStyleProfiles());
+
+  // 由范文文件保存（或并入）风格档案
+  const saveProfile = useCallback(
+    async ({ name, samplePapers, styleGuide, mergeIntoId }: SaveProfileParams): Promise<StyleProfile> => {
+      const samples = await Promise.all(
+        samplePapers.map(async (file) => ({
+          name: file.name,
+          metrics: calculateMetrics(await readFileContent(file)),
+        }))
+      );
+
+      const existing = mergeIntoId ? profiles.find((profile) => profile.id === mergeIntoId) : undefined;
+      const profile = existing
+        ? mergeIntoProfile(existing, samples, styleGuide)
+        : createStyleProfile(name, samples, styleGuide);
+
+      setProfiles(saveStyleProfile(profile));
+      return profile;
+    },
+    [profiles]
+  );
+
+  // 导入 JSON 档案，同 ID 的档案会被覆盖
+  const importProfile = useCallback(async (file: File): Promise<StyleProfile> => {
+    const profile = parseStyleProfile(await file.text());
+    setProfiles(saveStyleProfile(profile));
+    return profile;
+  }, []);
+
+  // 导出为 JSON 文件并触发下载
+  const exportProfile = useCallback((profile: StyleProfile) => {
+    const blob = new Blob([serializeStyleProfile(profile)], { type: 'application/json;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${profile.name.replace(/[\\/:*?"<>|\s]+/g, '_')}.style.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    setProfiles(removeStyleProfile(id));
+  }, []);
+
+  return {
+    profiles,
+    saveProfile,
+    importProfile,
+    exportProfile,
+    deleteProfile,
+  };
+};
@@ -7,13 +7,26 @@
  * @module cloudFunctionService
  * @description 本模块封装了所有与后端 API 的交互逻辑，包括：
  * - 建立 SSE 连接
- * - 处理流式响应
+ * - 处理流式响应（解析见 utils/sseParser）
+ * - 基于 Last-Event-ID 的断线续传
  * - 错误处理和重试逻辑
  * - 进度回调通知
  */
 
-import type { ProgressUpdate, MigrationResult, SSEEvent, AnalysisReport } from '@papermirror/types';
+import type {
+    ProgressUpdate,
+    MigrationResult,
+    SSEEvent,
+    AnalysisReport,
+    RetryPolicy,
+    RewriteVariant,
+    StyleGuide,
+    CloudFunctionRequest
+} from '@papermirror/types';
 import { getApiConfig } from '../src/config';
+import { parseRetryAfter, sleep, withRetry } from '../utils/retry';
+import { SSEParser } from '../utils/sseParser';
+import type { SSEMessage } from '../utils/sseParser';
 
 /**
  * Cloud Function 响应结果接口
@@ -26,25 +39,46 @@ interface CloudFunctionResult {
     enhanced: string;
   };
   analysisReport?: unknown;
+  styleGuide?: StyleGuide;
 }
 import { 
   NetworkError, 
   ApiError, 
+  CancellationError,
   createErrorFromResponse,
   normalizeError,
   reportError 
 } from '../src/errors';
 
+/**
+ * 请求选项
+ */
+export interface ProcessOptions {
+    /** 外部取消信号，触发后中止请求和 SSE 读取 */
+    signal?: AbortSignal;
+    /** 覆盖配置中的重试策略 */
+    retry?: RetryPolicy;
+    /** 已保存的风格指南（来自风格档案），提供时后端跳过风格提取 */
+    styleGuide?: StyleGuide;
+}
+
+/**
+ * 正在进行的请求，供 cancelProcessing 统一中止
+ */
+const activeControllers = new Set<AbortController>();
+
 /**
  * 处理论文风格迁移的核心函数
  * 
  * @param samplePaper - 样例论文内容（用于提取目标风格）
  * @param draftPaper - 待改写的草稿内容
  * @param onProgress - 进度回调函数，用于实时更新 UI
+ * @param options - 请求选项（取消信号等）
  * @returns Promise<MigrationResult> - 包含三种改写版本的结果
  * 
  * @throws {NetworkError} 当网络连接失败时
  * @throws {ApiError} 当服务器返回错误时
+ * @throws {CancellationError} 当请求被取消时
  * @throws {Error} 当其他未知错误发生时
  * 
  * @example
@@ -59,11 +93,12 @@ import {
 export async function processPaperWithCloudFunction(
     samplePaper: string,
     draftPaper: string,
-    onProgress: (update: ProgressUpdate) => void
+    onProgress: (update: ProgressUpdate) => void,
+    options: ProcessOptions = {}
 ): Promise<MigrationResult> {
     // 记录请求开始时间，用于性能监控
     const startTime = Date.now();
-    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const requestId = createRequestId();
     
     console.log(`[${requestId}] 开始处理论文风格迁移请求`);
     console.log(`[${requestId}] 样例论文长度: ${samplePaper.length} 字符`);
@@ -79,14 +114,180 @@ export async function processPaperWithCloudFunction(
     }
 
     // 构建请求头
-    const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'X-Request-ID': requestId, // 用于后端日志关联和防止滥用
+    const headers = createRequestHeaders(requestId);
+
+    // 将外部取消信号转发到本次请求的 AbortController
+    const controller = new AbortController();
+    const { signal } = options;
+    if (signal?.aborted) {
+        throw new CancellationError();
+    }
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+    activeControllers.add(controller);
+
+    const retryPolicy = options.retry ?? config.retry;
+
+    try {
+        return await withRetry(
+            (attempt) => streamMigration(
+                requestId,
+                url,
+                headers,
+                createRequestBody(samplePaper, draftPaper, options.styleGuide),
+                // 重试时在阶段文本前标注尝试次数
+                attempt === 1
+                    ? onProgress
+                    : (update) => onProgress({
+                        ...update,
+                        stage: `[第 ${attempt}/${retryPolicy.maxAttempts} 次尝试] ${update.stage}`,
+                    }),
+                controller,
+                startTime
+            ),
+            {
+                policy: retryPolicy,
+                signal: controller.signal,
+                onRetry: ({ attempt, delayMs, error }) => {
+                    const code = error instanceof ApiError || error instanceof NetworkError ? error.code : 'UNKNOWN';
+                    console.warn(`[${requestId}] 第 ${attempt} 次尝试失败 (${code})，${delayMs}ms 后重试`);
+                    onProgress({
+                        stage: `请求失败（${code}），${Math.ceil(delayMs / 1000)} 秒后进行第 ${attempt + 1}/${retryPolicy.maxAttempts} 次尝试...`,
+                    });
+                    headers['X-Retry-Attempt'] = String(attempt + 1);
+                },
+            }
+        );
+    } finally {
+        signal?.removeEventListener('abort', forwardAbort);
+        activeControllers.delete(controller);
+    }
+}
+
+/**
+ * SSE 断线后基于 Last-Event-ID 续传的最大次数
+ */
+const MAX_STREAM_RECONNECTS = 3;
+
+/**
+ * 服务器未通过 retry 字段指定时的默认重连间隔（毫秒）
+ */
+const DEFAULT_RECONNECTION_TIME = 3000;
+
+/**
+ * 单次尝试中跨连接共享的流状态
+ */
+interface StreamState {
+    finalResult: CloudFunctionResult | null;
+    eventCount: number;
+    lastProgressTime: number;
+    /** 已收到的部分改写文本，按版本和章节序号存放 */
+    partials: Partial<Record<RewriteVariant, string[]>>;
+}
+
+/**
+ * 发送请求并读取 SSE 流（单次尝试）
+ * 
+ * 流在收到完成事件前因网络原因中断时，若服务器提供过事件 ID，
+ * 则携带 Last-Event-ID 重新连接，从断点继续接收事件。
+ */
+async function streamMigration(
+    requestId: string,
+    url: string,
+    headers: Record<string, string>,
+    body: CloudFunctionRequest,
+    onProgress: (update: ProgressUpdate) => void,
+    controller: AbortController,
+    startTime: number
+): Promise<MigrationResult> {
+    const parser = new SSEParser({
+        onComment: (comment) => console.log(`[${requestId}] 收到心跳: ${comment}`),
+    });
+    const state: StreamState = {
+        finalResult: null,
+        eventCount: 0,
+        lastProgressTime: Date.now(),
+        partials: {},
     };
-    if (config.token) {
-        headers['X-My-Token'] = config.token;
+    const totalChars = body.samplePaper.length + body.draftPaper.length;
+    let reconnects = 0;
+
+    try {
+        while (true) {
+            const streamHeaders = parser.lastEventId
+                ? { ...headers, 'Last-Event-ID': parser.lastEventId }
+                : headers;
+            const response = await openStream(requestId, url, streamHeaders, body, controller);
+
+            let streamError: unknown = null;
+            try {
+                await readStream(requestId, response, parser, state, onProgress, controller, totalChars);
+            } catch (error) {
+                streamError = error;
+            }
+
+            if (state.finalResult) break;
+
+            // 用户取消时统一抛出取消错误
+            if (controller.signal.aborted) {
+                console.log(`[${requestId}] SSE 读取已取消`);
+                throw new CancellationError();
+            }
+
+            // 仅在网络中断（或流意外结束）且服务器提供过事件 ID 时续传
+            const canResume = parser.lastEventId !== ''
+                && reconnects < MAX_STREAM_RECONNECTS
+                && (streamError === null || streamError instanceof NetworkError);
+            if (!canResume) {
+                if (streamError) throw streamError;
+                break;
+            }
+
+            reconnects++;
+            const delay = parser.reconnectionTime ?? DEFAULT_RECONNECTION_TIME;
+            console.warn(`[${requestId}] SSE 连接中断，${delay}ms 后从事件 ${parser.lastEventId} 续传 (${reconnects}/${MAX_STREAM_RECONNECTS})`);
+            onProgress({ stage: `连接中断，正在从断点续传 (${reconnects}/${MAX_STREAM_RECONNECTS})...` });
+            await sleep(delay, controller.signal);
+            parser.reset();
+        }
+    } finally {
+        const duration = Date.now() - startTime;
+        console.log(`[${requestId}] 请求总耗时: ${duration}ms`);
+    }
+
+    const { finalResult, eventCount } = state;
+
+    // 验证结果
+    if (!finalResult) {
+        const error = new ApiError('流式传输结束但未收到结果', 'INCOMPLETE_RESPONSE');
+        console.error(`[${requestId}] 无最终结果`);
+        await reportError(error, { requestId, stage: 'result_validation', eventCount });
+        throw error;
+    }
+
+    // 验证结果结构
+    if (!finalResult.rewritten) {
+        const error = new ApiError('服务器返回的结果缺少 rewritten 字段', 'INCOMPLETE_RESPONSE');
+        console.error(`[${requestId}] 结果结构异常:`, JSON.stringify(finalResult).substring(0, 200));
+        await reportError(error, { requestId, stage: 'result_structure' });
+        throw error;
     }
 
+    console.log(`[${requestId}] 处理成功，返回结果`);
+
+    return toMigrationResult(finalResult);
+}
+
+/**
+ * 建立 SSE 连接并校验响应
+ */
+async function openStream(
+    requestId: string,
+    url: string,
+    headers: Record<string, string>,
+    body: CloudFunctionRequest,
+    controller: AbortController
+): Promise<Response> {
     console.log(`[${requestId}] 发送请求到: ${url}`);
 
     // 发送请求
@@ -95,10 +296,15 @@ export async function processPaperWithCloudFunction(
         response = await fetch(url, {
             method: 'POST',
             headers,
-            body: JSON.stringify({ samplePaper, draftPaper }),
+            body: JSON.stringify(body),
+            signal: controller.signal,
         });
         console.log(`[${requestId}] 收到响应，状态码: ${response.status}`);
     } catch (err) {
+        if (controller.signal.aborted) {
+            console.log(`[${requestId}] 请求已取消`);
+            throw new CancellationError();
+        }
         const error = normalizeError(err);
         console.error(`[${requestId}] 请求失败:`, error.toLogString());
         await reportError(error, { requestId, stage: 'request' });
@@ -114,7 +320,11 @@ export async function processPaperWithCloudFunction(
             errorText = '无法读取错误响应';
         }
         console.error(`[${requestId}] HTTP 错误 ${response.status}: ${errorText}`);
-        throw createErrorFromResponse(response.status, errorText);
+        const error = createErrorFromResponse(response.status, errorText);
+        if (error instanceof ApiError) {
+            error.retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+        }
+        throw error;
     }
 
     // 验证响应体
@@ -125,13 +335,27 @@ export async function processPaperWithCloudFunction(
         throw error;
     }
 
-    // 读取 SSE 流
-    const reader = response.body.getReader();
+    return response;
+}
+
+/**
+ * 读取一个 SSE 连接直到结束，将事件写入共享状态
+ */
+async function readStream(
+    requestId: string,
+    response: Response,
+    parser: SSEParser,
+    state: StreamState,
+    onProgress: (update: ProgressUpdate) => void,
+    controller: AbortController,
+    totalChars: number
+): Promise<void> {
+    const reader = response.body!.getReader();
+    const cancelReader = () => {
+        reader.cancel().catch(() => undefined);
+    };
+    controller.signal.addEventListener('abort', cancelReader);
     const decoder = new TextDecoder();
-    let buffer = '';
-    let finalResult: CloudFunctionResult | null = null;
-    let eventCount = 0;
-    let lastProgressTime = Date.now();
 
     console.log(`[${requestId}] 开始读取 SSE 流`);
 
@@ -140,16 +364,16 @@ export async function processPaperWithCloudFunction(
             const { done, value } = await reader.read();
             
             if (done) {
-                console.log(`[${requestId}] SSE 流读取完成，共 ${eventCount} 个事件`);
+                parser.end();
+                console.log(`[${requestId}] SSE 流读取完成，共 ${state.eventCount} 个事件`);
                 break;
             }
 
             // 检查进度超时（根据文档大小动态调整超时时间）
             const now = Date.now();
-            const totalChars = samplePaper.length + draftPaper.length;
             // 小文档60秒，大文档300秒（5分钟）
             const inactivityTimeout = totalChars > 30000 ? 300000 : 60000;
-            if (now - lastProgressTime > inactivityTimeout) {
+            if (now - state.lastProgressTime > inactivityTimeout) {
                 const isLargeDoc = totalChars > 30000;
 
                 let message = '服务器响应超时';
@@ -166,48 +390,20 @@ export async function processPaperWithCloudFunction(
                         suggestion: '建议：1) 点击重试按钮 2) 或将文档分段处理 3) 大文档可能需要1-5分钟'
                     }
                 };
-                console.error(`[${requestId}] 进度超时，上次更新: ${new Date(lastProgressTime).toISOString()}`);
+                console.error(`[${requestId}] 进度超时，上次更新: ${new Date(state.lastProgressTime).toISOString()}`);
                 await reportError(error, { requestId, stage: 'streaming_timeout' });
                 throw error;
             }
 
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n\n');
-            buffer = lines.pop() || '';
-
-            for (const line of lines) {
-                if (line.startsWith('data: ')) {
-                    const jsonStr = line.slice(6);
-                    eventCount++;
-                    
-                    try {
-                        const event: SSEEvent = JSON.parse(jsonStr);
-                        lastProgressTime = Date.now();
-
-                        if (event.type === 'progress' && event.message) {
-                            console.log(`[${requestId}] 进度更新: ${event.message}`);
-                            onProgress({ stage: event.message });
-                        } else if (event.type === 'complete' && event.data) {
-                            console.log(`[${requestId}] 收到完成事件`);
-                            finalResult = event.data;
-                        } else if (event.type === 'error' && event.message) {
-                            const error = new ApiError(event.message, 'SERVER_ERROR');
-                            console.error(`[${requestId}] 服务器报告错误: ${event.message}`);
-                            await reportError(error, { requestId, stage: 'server_error', serverMessage: event.message });
-                            throw error;
-                        }
-                    } catch (e) {
-                        if (e instanceof ApiError) throw e;
-                        console.error(`[${requestId}] 解析 SSE 事件失败:`, e);
-                        console.error(`[${requestId}] 原始数据: ${jsonStr.substring(0, 200)}...`);
-                    }
-                } else if (line.startsWith(': ')) {
-                    // 心跳消息，记录但不处理
-                    console.log(`[${requestId}] 收到心跳: ${line.slice(2)}`);
-                }
+            for (const message of parser.feed(decoder.decode(value, { stream: true }))) {
+                state.eventCount++;
+                await handleMessage(requestId, message, state, onProgress);
             }
         }
     } catch (error) {
+        if (controller.signal.aborted) {
+            throw new CancellationError();
+        }
         // 重新抛出已知错误
         if (error instanceof ApiError || error instanceof NetworkError) {
             throw error;
@@ -219,46 +415,137 @@ export async function processPaperWithCloudFunction(
         throw wrappedError;
     } finally {
         // 确保释放 reader
+        controller.signal.removeEventListener('abort', cancelReader);
         reader.releaseLock();
-        const duration = Date.now() - startTime;
-        console.log(`[${requestId}] 请求总耗时: ${duration}ms`);
     }
+}
 
-    // 验证结果
-    if (!finalResult) {
-        const error = new ApiError('流式传输结束但未收到结果', 'INCOMPLETE_RESPONSE');
-        console.error(`[${requestId}] 无最终结果`);
-        await reportError(error, { requestId, stage: 'result_validation', eventCount });
+/**
+ * 处理单个 SSE 事件
+ * 
+ * @throws {ApiError} 当事件数据不是有效 JSON 或服务器报告错误时
+ */
+async function handleMessage(
+    requestId: string,
+    message: SSEMessage,
+    state: StreamState,
+    onProgress: (update: ProgressUpdate) => void
+): Promise<void> {
+    let event: SSEEvent;
+    try {
+        event = JSON.parse(message.data);
+    } catch (e) {
+        const error = new ApiError('服务器返回了无法解析的事件数据', 'INCOMPLETE_RESPONSE');
+        console.error(`[${requestId}] 解析 SSE 事件失败:`, e);
+        console.error(`[${requestId}] 原始数据: ${message.data.substring(0, 200)}...`);
+        await reportError(error, { requestId, stage: 'event_parse', eventId: message.lastEventId });
         throw error;
     }
 
-    // 验证结果结构
-    if (!finalResult.rewritten) {
-        const error = new ApiError('服务器返回的结果缺少 rewritten 字段', 'INCOMPLETE_RESPONSE');
-        console.error(`[${requestId}] 结果结构异常:`, JSON.stringify(finalResult).substring(0, 200));
-        await reportError(error, { requestId, stage: 'result_structure' });
+    // JSON 中未携带 type 时，使用 SSE 的 event 字段
+    if (!event.type && message.type !== 'message') {
+        event.type = message.type as SSEEvent['type'];
+    }
+    state.lastProgressTime = Date.now();
+
+    if (event.type === 'progress' && event.message) {
+        console.log(`[${requestId}] 进度更新: ${event.message}`);
+        onProgress({ stage: event.message, current: event.current, total: event.total });
+    } else if (event.type === 'partial' && event.variant && typeof event.text === 'string') {
+        const sections = state.partials[event.variant] ?? (state.partials[event.variant] = []);
+        sections[event.sectionIndex ?? sections.length] = event.text;
+        onProgress({
+            stage: event.message
+                || (event.total
+                    ? `已生成第 ${(event.sectionIndex ?? sections.length - 1) + 1}/${event.total} 节${event.sectionTitle ? `：${event.sectionTitle}` : ''}`
+                    : '正在生成改写内容...'),
+            current: event.current,
+            total: event.total,
+            payload: getPartialPayload(state),
+        });
+    } else if (event.type === 'complete' && event.data) {
+        console.log(`[${requestId}] 收到完成事件`);
+        state.finalResult = event.data;
+    } else if (event.type === 'error' && event.message) {
+        const error = new ApiError(event.message, 'SERVER_ERROR');
+        console.error(`[${requestId}] 服务器报告错误: ${event.message}`);
+        await reportError(error, { requestId, stage: 'server_error', serverMessage: event.message });
         throw error;
     }
+}
 
-    console.log(`[${requestId}] 处理成功，返回结果`);
+/**
+ * 将已收到的章节拼接为各版本的部分文本
+ */
+function getPartialPayload(state: StreamState): Partial<MigrationResult> {
+    const payload: Partial<MigrationResult> = {};
+    for (const [variant, sections] of Object.entries(state.partials) as [RewriteVariant, string[]][]) {
+        payload[variant] = sections.filter((section) => section !== undefined).join('\n\n');
+    }
+    return payload;
+}
 
+/**
+ * 将后端返回结构转换为前端使用的 MigrationResult
+ */
+export function toMigrationResult(result: CloudFunctionResult): MigrationResult {
     return {
-        conservative: finalResult.rewritten.conservative,
-        standard: finalResult.rewritten.standard,
-        enhanced: finalResult.rewritten.enhanced,
-        analysisReport: (finalResult.analysisReport as AnalysisReport | undefined) || { status: 'complete' as const },
+        conservative: result.rewritten.conservative,
+        standard: result.rewritten.standard,
+        enhanced: result.rewritten.enhanced,
+        analysisReport: (result.analysisReport as AnalysisReport | undefined) || { status: 'complete' as const },
+        ...(result.styleGuide && { artifacts: { styleGuide: result.styleGuide } }),
+    };
+}
+
+/**
+ * 构建后端请求体
+ * 使用风格档案时附带风格指南，范文内容可以为空
+ */
+export function createRequestBody(
+    samplePaper: string,
+    draftPaper: string,
+    styleGuide?: StyleGuide
+): CloudFunctionRequest {
+    return styleGuide ? { samplePaper, draftPaper, styleGuide } : { samplePaper, draftPaper };
+}
+
+/**
+ * 构建后端请求头
+ * 
+ * @param requestId - 请求 ID，用于后端日志关联和防止滥用
+ */
+export function createRequestHeaders(requestId: string): Record<string, string> {
+    const config = getApiConfig();
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-Request-ID': requestId,
     };
+    if (config.token) {
+        headers['X-My-Token'] = config.token;
+    }
+    return headers;
+}
+
+/**
+ * 生成请求 ID
+ */
+export function createRequestId(): string {
+    return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 /**
- * 取消正在进行的请求
+ * 取消所有正在进行的请求
  * 
- * @description 当前实现依赖浏览器自动处理连接关闭。
- * 后续可以扩展为发送取消信号到服务器。
+ * @description 中止 fetch 和 SSE 读取，对应的 processPaperWithCloudFunction
+ * 调用将以 CancellationError 结束。
  */
 export function cancelProcessing(): void {
-    console.log('[CloudFunctionService] 请求取消（由浏览器处理连接关闭）');
-    // 注意：AbortController 可以在 future 版本中用于更优雅的取消
+    console.log(`[CloudFunctionService] 取消 ${activeControllers.size} 个进行中的请求`);
+    for (const controller of activeControllers) {
+        controller.abort();
+    }
+    activeControllers.clear();
 }
 
 /**
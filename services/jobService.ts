@@ -0,0 +1,280 @@
+/**
+ * 任务模式服务模块
+ * 
+ * 以"提交任务 → 轮询状态"的方式与后端通信，替代单个长时间的 SSE 连接。
+ * 任务 ID 保存在 localStorage 中，连接中断或重新打开页面后可继续获取
+ * 同一任务的进度与最终结果。
+ * 
+ * @module jobService
+ * @description 后端约定的接口：
+ * - POST   {baseUrl}/jobs          提交任务，返回 JobSubmitResponse；
+ *                                  Idempotency-Key 头在重试时保持不变，服务器据此避免重复建任务
+ * - GET    {baseUrl}/jobs/{jobId}  查询任务，返回 JobStatusResponse
+ * - DELETE {baseUrl}/jobs/{jobId}  取消任务
+ */
+
+import type { ProgressUpdate, MigrationResult, JobSubmitResponse, JobStatusResponse } from '@papermirror/types';
+import { getApiConfig } from '../src/config';
+import {
+    ApiError,
+    NetworkError,
+    CancellationError,
+    WorkflowError,
+    createErrorFromResponse,
+    normalizeError,
+    reportError
+} from '../src/errors';
+import { parseRetryAfter, sleep, withRetry } from '../utils/retry';
+import { loadActiveJob, saveActiveJob, removeActiveJob } from '../utils/storage';
+import {
+    createRequestBody,
+    createRequestHeaders,
+    createRequestId,
+    toMigrationResult
+} from './cloudFunctionService';
+import type { ProcessOptions } from './cloudFunctionService';
+
+/**
+ * 任务模式请求选项
+ */
+export interface JobProcessOptions extends ProcessOptions {
+    /** 记录到存储中的文件名，恢复任务时用于核对 */
+    sampleName?: string;
+    draftName?: string;
+    /** 只改写部分章节时的章节索引，恢复任务时用于拼接 */
+    selectedSections?: number[];
+    /** 使用的风格档案 ID，恢复任务时用于核对 */
+    styleProfileId?: string;
+}
+
+/**
+ * 拼接任务接口 URL
+ */
+function jobsUrl(jobId?: string): string {
+    const base = getApiConfig().baseUrl.replace(/\/+$/, '');
+    return jobId ? `${base}/jobs/${encodeURIComponent(jobId)}` : `${base}/jobs`;
+}
+
+/**
+ * 发送请求并解析 JSON 响应
+ * 
+ * @throws {CancellationError} 当请求被取消时
+ * @throws {ApiError} 当服务器返回错误或无效 JSON 时
+ */
+async function requestJson<T>(url: string, init: RequestInit, signal?: AbortSignal): Promise<T> {
+    let response: Response;
+    try {
+        response = await fetch(url, { ...init, signal });
+    } catch (err) {
+        if (signal?.aborted) {
+            throw new CancellationError();
+        }
+        throw normalizeError(err);
+    }
+
+    if (!response.ok) {
+        let errorText: string;
+        try {
+            errorText = await response.text();
+        } catch {
+            errorText = '无法读取错误响应';
+        }
+        const error = createErrorFromResponse(response.status, errorText);
+        if (error instanceof ApiError) {
+            error.retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+        }
+        throw error;
+    }
+
+    try {
+        return await response.json() as T;
+    } catch {
+        if (signal?.aborted) {
+            throw new CancellationError();
+        }
+        throw new ApiError('服务器返回了无效的 JSON', 'INCOMPLETE_RESPONSE');
+    }
+}
+
+/**
+ * 以任务模式处理论文风格迁移
+ * 
+ * @param samplePaper - 样例论文内容
+ * @param draftPaper - 待改写的草稿内容
+ * @param onProgress - 进度回调函数
+ * @param options - 请求选项（取消信号、重试策略、文件名）
+ * @returns Promise<MigrationResult> - 包含三种改写版本的结果
+ * 
+ * @throws {ApiError} 当服务器返回错误时
+ * @throws {WorkflowError} 当任务在服务器端执行失败时
+ * @throws {CancellationError} 当请求被取消时
+ */
+export async function processPaperWithJobApi(
+    samplePaper: string,
+    draftPaper: string,
+    onProgress: (update: ProgressUpdate) => void,
+    options: JobProcessOptions = {}
+): Promise<MigrationResult> {
+    const requestId = createRequestId();
+    const { signal } = options;
+    const policy = options.retry ?? getApiConfig().retry;
+
+    if (signal?.aborted) {
+        throw new CancellationError();
+    }
+
+    // 新任务会覆盖存储中的任务记录，先取消上一个未完成的服务器任务
+    const previousJob = loadActiveJob();
+    if (previousJob) {
+        void cancelJob(previousJob.jobId);
+    }
+
+    console.log(`[${requestId}] 提交迁移任务`);
+    onProgress({ stage: '正在提交任务...' });
+
+    // 提交不是幂等操作，每次重试沿用同一个请求 ID 作为幂等键
+    const { jobId } = await withRetry(
+        () => requestJson<JobSubmitResponse>(
+            jobsUrl(),
+            {
+                method: 'POST',
+                headers: { ...createRequestHeaders(requestId), 'Idempotency-Key': requestId },
+                body: JSON.stringify(createRequestBody(samplePaper, draftPaper, options.styleGuide)),
+            },
+            signal
+        ),
+        {
+            policy,
+            signal,
+            onRetry: ({ attempt, delayMs }) => {
+                onProgress({
+                    stage: `提交任务失败，${Math.ceil(delayMs / 1000)} 秒后进行第 ${attempt + 1}/${policy.maxAttempts} 次尝试...`,
+                });
+            },
+        }
+    );
+
+    if (!jobId) {
+        const error = new ApiError('服务器未返回任务 ID', 'INCOMPLETE_RESPONSE');
+        await reportError(error, { requestId, stage: 'job_submit' });
+        throw error;
+    }
+
+    console.log(`[${requestId}] 任务已提交: ${jobId}`);
+    saveActiveJob({
+        jobId,
+        submittedAt: Date.now(),
+        sampleName: options.sampleName,
+        draftName: options.draftName,
+        selectedSections: options.selectedSections,
+        styleProfileId: options.styleProfileId,
+    });
+
+    return pollJob(jobId, onProgress, options);
+}
+
+/**
+ * 恢复一个已提交的任务（页面重新打开或连接中断后）
+ * 
+ * @param jobId - 存储中的任务 ID
+ * @param onProgress - 进度回调函数
+ * @param options - 请求选项
+ */
+export async function resumeJob(
+    jobId: string,
+    onProgress: (update: ProgressUpdate) => void,
+    options: ProcessOptions = {}
+): Promise<MigrationResult> {
+    console.log(`[Job ${jobId}] 恢复任务`);
+    onProgress({ stage: '正在恢复未完成的任务...' });
+    return pollJob(jobId, onProgress, options);
+}
+
+/**
+ * 轮询任务状态直到完成、失败或被取消
+ */
+async function pollJob(
+    jobId: string,
+    onProgress: (update: ProgressUpdate) => void,
+    options: ProcessOptions
+): Promise<MigrationResult> {
+    const config = getApiConfig();
+    const policy = options.retry ?? config.retry;
+    const { signal } = options;
+
+    try {
+        while (true) {
+            const status = await withRetry(
+                () => requestJson<JobStatusResponse>(
+                    jobsUrl(jobId),
+                    { method: 'GET', headers: createRequestHeaders(createRequestId()) },
+                    signal
+                ),
+                {
+                    policy,
+                    signal,
+                    onRetry: ({ delayMs }) => {
+                        onProgress({ stage: `与服务器的连接中断，${Math.ceil(delayMs / 1000)} 秒后重新连接...` });
+                    },
+                }
+            );
+
+            switch (status.status) {
+                case 'succeeded':
+                    if (!status.result?.rewritten) {
+                        throw new ApiError('任务已完成但结果缺少 rewritten 字段', 'INCOMPLETE_RESPONSE');
+                    }
+                    console.log(`[Job ${jobId}] 任务完成`);
+                    removeActiveJob();
+                    return toMigrationResult(status.result);
+
+                case 'failed':
+                    removeActiveJob();
+                    throw new WorkflowError(status.error?.message || '任务在服务器端执行失败', 'job');
+
+                case 'cancelled':
+                    removeActiveJob();
+                    throw new CancellationError('任务已在服务器端取消');
+
+                default:
+                    onProgress(status.progress ?? {
+                        stage: status.status === 'queued' ? '任务排队中...' : '任务处理中...',
+                    });
+            }
+
+            await sleep(config.pollIntervalMs, signal);
+        }
+    } catch (err) {
+        // 本地中止只停止轮询；服务器端任务由 cancelJob 显式取消
+        if (signal?.aborted) {
+            console.log(`[Job ${jobId}] 停止轮询`);
+            throw new CancellationError();
+        }
+        // 任务不存在（已过期或被清理），不再尝试恢复
+        if (err instanceof ApiError && err.code === 'NOT_FOUND') {
+            removeActiveJob();
+            throw new ApiError('任务不存在或已过期，请重新开始迁移', 'NOT_FOUND', 404);
+        }
+        if (err instanceof NetworkError || err instanceof ApiError) {
+            await reportError(err, { jobId, stage: 'job_poll' });
+        }
+        throw err;
+    }
+}
+
+/**
+ * 请求服务器取消任务并清除存储（尽力而为，失败时仅记录日志）
+ * 
+ * @param jobId - 任务 ID
+ */
+export async function cancelJob(jobId: string): Promise<void> {
+    removeActiveJob();
+    try {
+        await fetch(jobsUrl(jobId), {
+            method: 'DELETE',
+            headers: createRequestHeaders(createRequestId()),
+        });
+    } catch (err) {
+        console.warn(`[Job ${jobId}] 取消请求失败:`, err);
+    }
+}
@@ -0,0 +1,173 @@
+/**
+ * OpenAI 兼容 Chat Completions 客户端
+ *
+ * 在浏览器内直接调用任意实现了 `/chat/completions` 接口的服务，
+ * 例如自建的 vLLM、Ollama 或本地 mock 服务。
+ *
+ * @module llmClient
+ */
+
+import { getApiConfig, getLlmConfig } from '../src/config';
+import {
+    ApiError,
+    CancellationError,
+    WorkflowError,
+    createErrorFromResponse,
+    normalizeError
+} from '../src/errors';
+import { parseRetryAfter, withRetry } from '../utils/retry';
+
+/**
+ * 单次补全请求参数
+ */
+export interface ChatCompletionParams {
+    systemInstruction: string;
+    userPrompt: string;
+    signal?: AbortSignal;
+    /** 要求模型输出 JSON 对象 */
+    json?: boolean;
+}
+
+interface ChatCompletionResponse {
+    choices?: Array<{
+        message?: { content?: string | null };
+        finish_reason?: string;
+    }>;
+}
+
+/**
+ * 调用 Chat Completions 接口并返回模型输出文本
+ *
+ * @throws {ApiError} 当服务返回错误、超时、输出为空或因长度限制被截断时
+ * @throws {CancellationError} 当请求被取消时
+ */
+export async function createChatCompletion({
+    systemInstruction,
+    userPrompt,
+    signal,
+    json = false,
+}: ChatCompletionParams): Promise<string> {
+    const config = getLlmConfig();
+    const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const body: Record<string, unknown> = {
+        model: config.model,
+        temperature: config.temperature,
+        stream: false,
+        messages: [
+            { role: 'system', content: systemInstruction },
+            { role: 'user', content: userPrompt },
+        ],
+    };
+    if (json && config.jsonMode) {
+        body.response_format = { type: 'json_object' };
+    }
+
+    return withRetry(
+        () => requestCompletion(url, headers, body, config.timeout, signal),
+        { policy: getApiConfig().retry, signal }
+    );
+}
+
+/**
+ * 发送单次补全请求（带超时）
+ */
+async function requestCompletion(
+    url: string,
+    headers: Record<string, string>,
+    body: Record<string, unknown>,
+    timeout: number,
+    signal?: AbortSignal
+): Promise<string> {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeout);
+
+    try {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+        } catch (err) {
+            if (signal?.aborted) throw new CancellationError();
+            if (timedOut) throw new ApiError('模型服务响应超时', 'TIMEOUT');
+            throw normalizeError(err);
+        }
+
+        if (!response.ok) {
+            let errorText: string;
+            try {
+                errorText = await response.text();
+            } catch {
+                errorText = '无法读取错误响应';
+            }
+            const error = createErrorFromResponse(response.status, errorText);
+            if (error instanceof ApiError) {
+                error.retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+            }
+            throw error;
+        }
+
+        let data: ChatCompletionResponse;
+        try {
+            data = await response.json();
+        } catch {
+            if (signal?.aborted) throw new CancellationError();
+            if (timedOut) throw new ApiError('模型服务响应超时', 'TIMEOUT');
+            throw new ApiError('模型服务返回了无效的 JSON', 'INCOMPLETE_RESPONSE');
+        }
+
+        const choice = data.choices?.[0];
+        const content = choice?.message?.content;
+        if (!content) {
+            throw new ApiError('模型服务返回空内容', 'EMPTY_RESPONSE');
+        }
+        // 截断的输出缺少结尾，JSON 无法解析或改写不完整，重试也会得到同样的结果
+        if (choice?.finish_reason === 'length') {
+            throw new ApiError('模型输出因长度限制被截断', 'TRUNCATED');
+        }
+        return content;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', forwardAbort);
+    }
+}
+
+/**
+ * 从模型输出中解析 JSON 对象
+ * 兼容 ```json 代码块和前后多余说明文字
+ *
+ * @param content - 模型输出文本
+ * @param stage - 所属阶段，用于错误信息
+ * @throws {WorkflowError} 当无法解析出 JSON 对象时
+ */
+export function parseJsonResponse<T>(content: string, stage: string): T {
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = fenced ? fenced[1] : content;
+
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        throw new WorkflowError('模型输出中未找到 JSON 对象', stage);
+    }
+
+    try {
+        return JSON.parse(candidate.slice(start, end + 1)) as T;
+    } catch (err) {
+        throw new WorkflowError('模型输出的 JSON 无法解析', stage, err instanceof Error ? err : undefined);
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * Prompt 流水线阶段
+ * 每个阶段对应 shared/prompts 中的一个 Prompt，并负责校验模型输出的结构。
+ * 阶段的编排（顺序、进度、产物传递）由 workflowService 完成。
+ */
+
+import type { StyleGuide, DocumentContext, RewriteVariant } from '@papermirror/types';
+import {
+  extractStyleGuidePrompt,
+  documentContextPrompt,
+  rewriteFullDocumentPrompt,
+  rewriteChunkPrompt,
+} from '@papermirror/prompts';
+import type { CompletionProvider } from './providers';
+import { parseJsonResponse } from './llmClient';
+import { WorkflowError } from '../src/errors';
+import type { DocumentChunk } from '../utils/chunking';
+
+export type RewrittenVersions = Record<RewriteVariant, string>;
+
+/**
+ * 将可能为字符串的数值字段转换为数字
+ */
+function toNumber(value: unknown, field: string, stage: string): number {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || Number.isNaN(num)) {
+    throw new WorkflowError(`模型输出的 ${field} 不是有效数字`, stage);
+  }
+  return num;
+}
+
+/**
+ * 阶段一：从范文中提取风格指南
+ */
+export async function extractStyleGuide(
+  provider: CompletionProvider,
+  samplePaperContent: string,
+  signal?: AbortSignal
+): Promise<StyleGuide> {
+  const stage = 'extract_style';
+  const raw = parseJsonResponse<Record<string, unknown>>(
+    await provider.complete({
+      systemInstruction: extractStyleGuidePrompt.systemInstruction,
+      userPrompt: extractStyleGuidePrompt.createUserPrompt(samplePaperContent),
+      signal,
+      json: true,
+    }),
+    stage
+  );
+
+  return {
+    averageSentenceLength: toNumber(raw.averageSentenceLength, 'averageSentenceLength', stage),
+    lexicalComplexity: toNumber(raw.lexicalComplexity, 'lexicalComplexity', stage),
+    passiveVoicePercentage: toNumber(raw.passiveVoicePercentage, 'passiveVoicePercentage', stage),
+    commonTransitions: Array.isArray(raw.commonTransitions)
+      ? raw.commonTransitions.filter((t): t is string => typeof t === 'string')
+      : [],
+    tone: typeof raw.tone === 'string' ? raw.tone : '',
+    structure: typeof raw.structure === 'string' ? raw.structure : '',
+  };
+}
+
+/**
+ * 阶段二：分析草稿的整体语境和章节摘要
+ */
+export async function analyzeDocumentContext(
+  provider: CompletionProvider,
+  draftPaperContent: string,
+  signal?: AbortSignal
+): Promise<DocumentContext> {
+  const stage = 'document_context';
+  const raw = parseJsonResponse<Partial<DocumentContext>>(
+    await provider.complete({
+      systemInstruction: documentContextPrompt.systemInstruction,
+      userPrompt: documentContextPrompt.createUserPrompt(draftPaperContent),
+      signal,
+      json: true,
+    }),
+    stage
+  );
+
+  if (typeof raw.documentSummary !== 'string') {
+    throw new WorkflowError('模型输出缺少 documentSummary 字段', stage);
+  }
+
+  return {
+    documentSummary: raw.documentSummary,
+    sectionSummaries: Array.isArray(raw.sectionSummaries)
+      ? raw.sectionSummaries.filter(
+          (s) => s && typeof s.sectionTitle === 'string' && typeof s.summary === 'string'
+        )
+      : [],
+  };
+}
+
+/**
+ * 阶段三：根据风格指南和文档语境改写全文
+ */
+export async function rewriteDocument(
+  provider: CompletionProvider,
+  params: {
+    draftPaperContent: string;
+    styleGuide: StyleGuide;
+    documentContext: DocumentContext;
+    signal?: AbortSignal;
+  }
+): Promise<RewrittenVersions> {
+  const stage = 'rewrite';
+  const raw = parseJsonResponse<Partial<RewrittenVersions>>(
+    await provider.complete({
+      systemInstruction: rewriteFullDocumentPrompt.systemInstruction,
+      userPrompt: rewriteFullDocumentPrompt.createUserPrompt({
+        fullDocumentContent: params.draftPaperContent,
+        styleGuide: params.styleGuide,
+        documentContext: params.documentContext,
+      }),
+      signal: params.signal,
+      json: true,
+    }),
+    stage
+  );
+
+  return toRewrittenVersions(raw, stage);
+}
+
+/**
+ * 阶段三（分块）：改写长文档中的单个片段，章节摘要作为共享语境
+ */
+export async function rewriteChunk(
+  provider: CompletionProvider,
+  params: {
+    chunk: DocumentChunk;
+    styleGuide: StyleGuide;
+    documentContext: DocumentContext;
+    signal?: AbortSignal;
+  }
+): Promise<RewrittenVersions> {
+  const stage = 'rewrite_chunk';
+  const { chunk } = params;
+  const raw = parseJsonResponse<Partial<RewrittenVersions>>(
+    await provider.complete({
+      systemInstruction: rewriteChunkPrompt.systemInstruction,
+      userPrompt: rewriteChunkPrompt.createUserPrompt({
+        chunkContent: chunk.content,
+        styleGuide: params.styleGuide,
+        documentContext: params.documentContext,
+        sectionTitle: chunk.sectionTitle,
+        part: chunk.part,
+        partCount: chunk.partCount,
+      }),
+      signal: params.signal,
+      json: true,
+    }),
+    stage
+  );
+
+  return toRewrittenVersions(raw, stage);
+}
+
+/**
+ * 校验改写输出包含全部三个版本
+ */
+function toRewrittenVersions(raw: Partial<RewrittenVersions>, stage: string): RewrittenVersions {
+  if (
+    typeof raw.conservative !== 'string' ||
+    typeof raw.standard !== 'string' ||
+    typeof raw.enhanced !== 'string'
+  ) {
+    throw new WorkflowError('模型输出缺少 conservative / standard / enhanced 字段', stage);
+  }
+
+  return {
+    conservative: raw.conservative,
+    standard: raw.standard,
+    enhanced: raw.enhanced,
+  };
+}
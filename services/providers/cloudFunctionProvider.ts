@@ -0,0 +1,46 @@
+import type { RemoteRewriteProvider } from './types';
+import { processPaperWithCloudFunction } from '../cloudFunctionService';
+import { processPaperWithJobApi, resumeJob } from '../jobService';
+import { getApiConfig } from '../../src/config';
+
+/**
+ * 云函数提供方 - 按配置的 API 模式（SSE 流 / 任务轮询）调用 FC 后端
+ */
+export const cloudFunctionProvider: RemoteRewriteProvider = {
+  kind: 'remote',
+  id: 'cloudFunction',
+  label: '云函数后端',
+
+  rewrite({
+    samplePaperContent,
+    draftPaperContent,
+    onProgress,
+    signal,
+    resumeJobId,
+    sampleName,
+    draftName,
+    selectedSections,
+    styleGuide,
+    styleProfileId,
+  }) {
+    if (resumeJobId) {
+      return resumeJob(resumeJobId, onProgress, { signal });
+    }
+
+    if (getApiConfig().mode === 'job') {
+      return processPaperWithJobApi(samplePaperContent, draftPaperContent, onProgress, {
+        signal,
+        styleGuide,
+        sampleName,
+        draftName,
+        selectedSections,
+        styleProfileId,
+      });
+    }
+
+    return processPaperWithCloudFunction(samplePaperContent, draftPaperContent, onProgress, {
+      signal,
+      styleGuide,
+    });
+  },
+};
@@ -0,0 +1,23 @@
+/**
+ * 改写服务提供方注册表
+ */
+
+import type { RewriteProviderType } from '@papermirror/types';
+import type { RewriteProvider } from './types';
+import { cloudFunctionProvider } from './cloudFunctionProvider';
+import { openAICompatibleProvider } from './openAICompatibleProvider';
+import { getLlmConfig } from '../../src/config';
+
+export type { RewriteProvider, RemoteRewriteProvider, CompletionProvider, RewriteRequest } from './types';
+
+const providers: Record<RewriteProviderType, RewriteProvider> = {
+  cloudFunction: cloudFunctionProvider,
+  openaiCompatible: openAICompatibleProvider,
+};
+
+/**
+ * 获取改写服务提供方，未指定时使用配置中的提供方
+ */
+export function getRewriteProvider(type: RewriteProviderType = getLlmConfig().provider): RewriteProvider {
+  return providers[type];
+}
@@ -0,0 +1,13 @@
+import type { CompletionProvider } from './types';
+import { createChatCompletion } from '../llmClient';
+
+/**
+ * OpenAI 兼容提供方 - 调用任意 OpenAI 兼容的 Chat Completions 接口，
+ * 三阶段 Prompt 流水线由 workflowService 在浏览器内编排
+ */
+export const openAICompatibleProvider: CompletionProvider = {
+  kind: 'completion',
+  id: 'openaiCompatible',
+  label: 'OpenAI 兼容接口',
+  complete: createChatCompletion,
+};
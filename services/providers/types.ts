@@ -0,0 +1,48 @@
+import type { MigrationResult, ProgressUpdate, RewriteProviderType, StyleGuide } from '@papermirror/types';
+import type { ChatCompletionParams } from '../llmClient';
+
+/**
+ * 改写请求参数
+ */
+export interface RewriteRequest {
+  samplePaperContent: string;
+  /** 多篇范文时逐篇提供，samplePaperContent 为其拼接结果 */
+  samplePaperContents?: string[];
+  draftPaperContent: string;
+  onProgress: (update: ProgressUpdate) => void;
+  signal?: AbortSignal;
+  /** 任务模式下要恢复的任务 ID（仅云函数提供方支持） */
+  resumeJobId?: string;
+  sampleName?: string;
+  draftName?: string;
+  /** 只改写部分章节时的章节索引，任务模式下随任务保存，恢复时用于拼接 */
+  selectedSections?: number[];
+  /** 来自风格档案的风格指南，提供时跳过风格提取，samplePaperContent 可为空 */
+  styleGuide?: StyleGuide;
+  /** 使用的风格档案 ID，任务模式下随任务保存，恢复时用于核对 */
+  styleProfileId?: string;
+}
+
+/**
+ * 远程编排的提供方
+ * 整个改写流程在服务端完成，只返回三种改写版本
+ */
+export interface RemoteRewriteProvider {
+  readonly kind: 'remote';
+  readonly id: RewriteProviderType;
+  readonly label: string;
+  rewrite(request: RewriteRequest): Promise<MigrationResult>;
+}
+
+/**
+ * 补全型提供方
+ * 只提供单次模型补全，由 workflowService 在客户端编排各阶段 Prompt
+ */
+export interface CompletionProvider {
+  readonly kind: 'completion';
+  readonly id: RewriteProviderType;
+  readonly label: string;
+  complete(params: ChatCompletionParams): Promise<string>;
+}
+
+export type RewriteProvider = RemoteRewriteProvider | CompletionProvider;
@@ -1,72 +1,427 @@
-import { processPaperWithCloudFunction } from './cloudFunctionService';
-import { getAnalysisConfig } from '../src/config';
-import type { MigrationResult, ProgressUpdate } from '@papermirror/types';
+import { cancelJob } from './jobService';
+import { getRewriteProvider } from './providers';
+import type { RewriteRequest, CompletionProvider } from './providers';
 import {
+  extractStyleGuide,
+  analyzeDocumentContext,
+  rewriteDocument,
+  rewriteChunk
+} from './promptPipeline';
+import type { RewrittenVersions } from './promptPipeline';
+import { getAnalysisConfig, getLlmConfig } from '../src/config';
+import type {
+  CitationRuleSet,
+  DocumentContext,
+  MetricsAggregate,
+  MigrationResult,
+  MigrationArtifacts,
+  RewriteVariant,
+  StyleGuide,
+  StyleProfile,
+  TextLanguage
+} from '@papermirror/types';
+import { CancellationError, ValidationError, WorkflowError } from '../src/errors';
+import { loadActiveJob } from '../utils/storage';
+import { estimateTokens, planChunks, stitchChunks } from '../utils/chunking';
+import { parseOutline, hasContent, extractSections, spliceSections } from '../utils/outline';
+import { averageStyleGuides } from '../utils/styleProfiles';
+import {
+  aggregateMetrics,
+  alignSentences,
   calculateFidelityGuardrails,
   calculateMetrics,
+  detectLanguage,
+  generateCitationSuggestions,
   generateMirrorScore
 } from '../utils/analysis';
 
-interface WorkflowParams {
-  samplePaperContent: string;
-  draftPaperContent: string;
-  onProgress: (update: ProgressUpdate) => void;
+interface WorkflowParams extends Omit<RewriteRequest, 'samplePaperContent' | 'samplePaperContents'> {
+  /** 一篇或多篇范文的内容，使用风格档案时可以为空 */
+  samplePaperContents: string[];
+  /** 替代范文的风格档案：提供风格指南，并作为范文指标参与分析 */
+  styleProfile?: StyleProfile;
+  /** 完整分析模式下生成引用建议所用的规则集，未指定时使用内置规则集 */
+  citationRules?: CitationRuleSet;
+}
+
+// 多篇范文拼接为一篇发送给只接受单篇范文的后端
+const SAMPLE_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * 根据选中的章节确定实际送去改写的草稿
+ * 全部章节都选中时等同于整篇改写，返回 null
+ */
+function resolveSectionScope(draftPaperContent: string, selectedSections?: number[]) {
+  if (!selectedSections) return null;
+
+  const sections = parseOutline(draftPaperContent);
+  const selectable = sections.filter(hasContent);
+  if (selectable.every((section) => selectedSections.includes(section.index))) return null;
+
+  const content = extractSections(sections, selectedSections);
+  if (!content) {
+    throw new ValidationError('请至少选择一个要改写的章节', 'selectedSections');
+  }
+
+  return {
+    sections,
+    selectedSections,
+    content,
+    titles: selectable
+      .filter((section) => selectedSections.includes(section.index))
+      .map((section) => section.title || '开头部分'),
+  };
+}
+
+const PIPELINE_STAGES = 3;
+const VARIANTS: RewriteVariant[] = ['conservative', 'standard', 'enhanced'];
+const VARIANT_LABELS: Record<RewriteVariant, string> = {
+  conservative: '保守版',
+  standard: '标准版',
+  enhanced: '增强版',
+};
+
+/**
+ * 阶段二：分析草稿语境
+ * 超出单次请求预算的草稿逐块分析得到各章节摘要，再由章节摘要归纳整体摘要
+ */
+async function buildDocumentContext(
+  provider: CompletionProvider,
+  params: RewriteRequest
+): Promise<DocumentContext> {
+  const { draftPaperContent, onProgress, signal } = params;
+  const { chunkTokens } = getLlmConfig();
+  const plan = planChunks(draftPaperContent, chunkTokens);
+  if (plan.chunks.length <= 1) {
+    return analyzeDocumentContext(provider, draftPaperContent, signal);
+  }
+
+  const total = plan.chunks.length;
+  const joiner = detectLanguage(draftPaperContent) === 'en' ? ' ' : '';
+  const sectionSummaries: DocumentContext['sectionSummaries'] = [];
+  for (const chunk of plan.chunks) {
+    onProgress({
+      stage: `阶段 2/3：正在分析草稿语境（${chunk.index + 1}/${total}）...`,
+      current: 1 + chunk.index / (total + 1),
+      total: PIPELINE_STAGES,
+    });
+    // 标题行不在块内，补回后模型才知道所属章节
+    const sectionTitle = chunk.sectionTitle ?? '开头部分';
+    const content = chunk.sectionTitle ? `## ${chunk.sectionTitle}\n\n${chunk.content}` : chunk.content;
+    const { documentSummary } = await analyzeDocumentContext(provider, content, signal);
+
+    // 同一章节的多个块合并为一条摘要
+    const last = sectionSummaries[sectionSummaries.length - 1];
+    if (chunk.part > 1 && last) {
+      last.summary += joiner + documentSummary;
+    } else {
+      sectionSummaries.push({ sectionTitle, summary: documentSummary });
+    }
+  }
+
+  // 由章节摘要归纳整体摘要，摘要本身超出预算时只取前面能放下的章节
+  onProgress({ stage: '阶段 2/3：正在汇总章节摘要...', current: 1 + total / (total + 1), total: PIPELINE_STAGES });
+  let outline = '';
+  for (const { sectionTitle, summary } of sectionSummaries) {
+    const entry = `${outline ? '\n\n' : ''}## ${sectionTitle}\n\n${summary}`;
+    if (outline && estimateTokens(outline + entry) > chunkTokens) break;
+    outline += entry;
+  }
+  const { documentSummary } = await analyzeDocumentContext(provider, outline, signal);
+
+  return { documentSummary, sectionSummaries };
+}
+
+/**
+ * 阶段三（长文档）：按章节/段落分块改写后拼接
+ * 进度按块报告，每完成一块即推送已拼接的部分结果
+ */
+async function rewriteInChunks(
+  provider: CompletionProvider,
+  params: RewriteRequest,
+  artifacts: Required<MigrationArtifacts>
+): Promise<RewrittenVersions | null> {
+  const plan = planChunks(params.draftPaperContent, getLlmConfig().chunkTokens);
+  if (plan.chunks.length <= 1) return null;
+
+  const total = plan.chunks.length;
+  const rewritten: Record<RewriteVariant, Array<string | undefined>> = {
+    conservative: [],
+    standard: [],
+    enhanced: [],
+  };
+  const stitch = () =>
+    Object.fromEntries(
+      VARIANTS.map((variant) => [variant, stitchChunks(plan, rewritten[variant])])
+    ) as RewrittenVersions;
+
+  for (const chunk of plan.chunks) {
+    const location = chunk.sectionTitle
+      ? `「${chunk.sectionTitle}」${chunk.partCount > 1 ? ` ${chunk.part}/${chunk.partCount}` : ''}`
+      : '开头部分';
+    params.onProgress({
+      stage: `阶段 3/3：正在改写第 ${chunk.index + 1}/${total} 块 ${location}`,
+      current: chunk.index,
+      total,
+    });
+
+    const versions = await rewriteChunk(provider, { chunk, ...artifacts, signal: params.signal });
+    for (const variant of VARIANTS) {
+      rewritten[variant][chunk.index] = versions[variant];
+    }
+
+    params.onProgress({
+      stage: `阶段 3/3：已完成 ${chunk.index + 1}/${total} 块`,
+      current: chunk.index + 1,
+      total,
+      payload: { ...stitch(), artifacts },
+    });
+  }
+
+  return stitch();
+}
+
+/**
+ * 客户端编排的三阶段工作流
+ * 风格提取 → 文档语境分析 → 全文改写，中间产物随结果一并返回
+ */
+async function runStagedWorkflow(
+  provider: CompletionProvider,
+  params: RewriteRequest
+): Promise<MigrationResult> {
+  const { samplePaperContent, draftPaperContent, onProgress, signal } = params;
+  const samples = params.samplePaperContents ?? [samplePaperContent];
+  let styleGuide = params.styleGuide;
+  if (!styleGuide) {
+    // 多篇范文逐篇提取后按篇平均
+    const guides: StyleGuide[] = [];
+    for (const [i, sample] of samples.entries()) {
+      onProgress({
+        stage: samples.length > 1
+          ? `阶段 1/3：正在提取范文风格指纹（${i + 1}/${samples.length}）...`
+          : '阶段 1/3：正在提取范文风格指纹...',
+        current: i / samples.length,
+        total: PIPELINE_STAGES,
+      });
+      guides.push(await extractStyleGuide(provider, sample, signal));
+    }
+    styleGuide = guides.length > 1 ? averageStyleGuides(guides) : guides[0];
+  }
+  onProgress({
+    stage: params.styleGuide ? '阶段 1/3 完成：使用风格档案中的风格指纹' : '阶段 1/3 完成：已提取风格指纹',
+    current: 1,
+    total: PIPELINE_STAGES,
+    payload: { artifacts: { styleGuide } },
+  });
+
+  onProgress({ stage: '阶段 2/3：正在分析草稿结构与语境...', current: 1, total: PIPELINE_STAGES });
+  const documentContext = await buildDocumentContext(provider, params);
+  onProgress({
+    stage: `阶段 2/3 完成：识别出 ${documentContext.sectionSummaries.length} 个章节`,
+    current: 2,
+    total: PIPELINE_STAGES,
+    payload: { artifacts: { styleGuide, documentContext } },
+  });
+
+  // 超出单次请求预算的草稿分块改写，否则整篇一次完成
+  let rewritten = await rewriteInChunks(provider, params, { styleGuide, documentContext });
+  if (!rewritten) {
+    onProgress({ stage: '阶段 3/3：正在按风格指纹改写全文...', current: 2, total: PIPELINE_STAGES });
+    rewritten = await rewriteDocument(provider, {
+      draftPaperContent,
+      styleGuide,
+      documentContext,
+      signal,
+    });
+  }
+  onProgress({ stage: '阶段 3/3 完成：改写完成', current: PIPELINE_STAGES, total: PIPELINE_STAGES });
+
+  return {
+    ...rewritten,
+    analysisReport: { status: 'complete' },
+    artifacts: { styleGuide, documentContext },
+  };
+}
+
+/**
+ * 聚合范文指标；中文句长按字符、英文按单词，不同语言的范文不能一起平均。
+ * 只统计与草稿同语言的范文（没有时取篇数最多的语言），其余范文记入警告
+ */
+function aggregateSampleMetrics(
+  samplePaperContents: string[],
+  language: TextLanguage,
+  warnings: string[]
+): MetricsAggregate {
+  const metricsList = samplePaperContents.map((content) => calculateMetrics(content));
+  const counts = new Map<TextLanguage, number>();
+  for (const metrics of metricsList) {
+    counts.set(metrics.language, (counts.get(metrics.language) ?? 0) + 1);
+  }
+  const chosen = counts.has(language) ? language : [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+  const included = metricsList.filter((metrics) => metrics.language === chosen);
+  if (included.length < metricsList.length) {
+    warnings.push(`${metricsList.length - included.length} 篇范文与其余范文语言不同，未计入范文风格指标`);
+  }
+  return aggregateMetrics(included);
 }
 
 /**
  * 全文工作流
  * 利用长上下文能力处理整篇文档
  */
-async function runFullTextWorkflow({
-  samplePaperContent,
-  draftPaperContent,
-  onProgress,
-}: WorkflowParams): Promise<MigrationResult> {
+async function runFullTextWorkflow(params: WorkflowParams): Promise<MigrationResult> {
+  const { samplePaperContents, onProgress, signal, styleProfile } = params;
   const analysisMode = getAnalysisConfig().mode;
 
   try {
-    const result = await processPaperWithCloudFunction(
-      samplePaperContent,
+    if (styleProfile && !styleProfile.styleGuide) {
+      throw new ValidationError(`风格档案「${styleProfile.name}」不含风格指南，无法替代范文`, 'styleProfile');
+    }
+
+    // 只改写部分章节时，送去改写和参与本地分析的都只有选中的章节
+    const scope = resolveSectionScope(params.draftPaperContent, params.selectedSections);
+    const draftPaperContent = scope ? scope.content : params.draftPaperContent;
+    const request: RewriteRequest = {
+      ...params,
+      samplePaperContent: samplePaperContents.join(SAMPLE_SEPARATOR),
+      samplePaperContents,
       draftPaperContent,
-      onProgress
-    );
+      styleGuide: styleProfile?.styleGuide ?? params.styleGuide,
+      styleProfileId: styleProfile?.id,
+    };
 
-    // 本地分析处理
-    if (analysisMode !== 'none' && result.standard) {
-      onProgress({ stage: '正在运行保真度检查...' });
+    const provider = getRewriteProvider();
+    console.log(`使用改写服务: ${provider.label}`);
+    const result = provider.kind === 'completion'
+      ? await runStagedWorkflow(provider, request)
+      : await provider.rewrite(request);
+
+    // 结果返回后才取消的情况，不再进行本地分析
+    if (signal?.aborted) {
+      throw new CancellationError();
+    }
 
-      const fidelityGuardrails = calculateFidelityGuardrails(
-        draftPaperContent,
-        result.standard
-      );
+    if (request.styleGuide && !result.artifacts?.styleGuide) {
+      result.artifacts = { ...result.artifacts, styleGuide: request.styleGuide };
+    }
+
+    // 改写过的章节拼回原文，未选中的章节原样保留；本地分析使用拼接前的改写范围
+    const rewrittenScoped: Partial<Record<RewriteVariant, string>> = {};
+    for (const variant of VARIANTS) {
+      rewrittenScoped[variant] = result[variant];
+    }
+    if (scope) {
+      // 某个版本的章节数与所选章节不符时只丢弃该版本，其余版本照常返回
+      const failures: WorkflowError[] = [];
+      for (const variant of VARIANTS) {
+        const rewritten = result[variant];
+        if (!rewritten) continue;
+        try {
+          result[variant] = spliceSections(scope.sections, scope.selectedSections, rewritten);
+        } catch (err) {
+          if (!(err instanceof WorkflowError)) throw err;
+          failures.push(err);
+          delete result[variant];
+          delete rewrittenScoped[variant];
+          result.warnings = [...(result.warnings ?? []), `${VARIANT_LABELS[variant]}未能拼回原文：${err.message}`];
+        }
+      }
+      if (VARIANTS.every((variant) => !result[variant]) && failures.length > 0) {
+        throw failures[0];
+      }
+      result.rewrittenSections = scope.titles;
+    }
+    const rewrittenStandard = rewrittenScoped.standard;
+    result.draft = params.draftPaperContent;
 
+    // 本地分析处理
+    if (analysisMode !== 'none' && rewrittenStandard) {
       if (!result.analysisReport) {
         result.analysisReport = { status: 'complete' };
       }
-      result.analysisReport.fidelityGuardrails = fidelityGuardrails;
+
+      // 句子对齐基于完整文本，未改写的章节会逐句 1:1 对上
+      onProgress({ stage: '正在对齐草稿与改写版本的句子...' });
+      const alignmentLanguage = detectLanguage(params.draftPaperContent);
+      result.analysisReport.alignment = {};
+      for (const variant of VARIANTS) {
+        const rewritten = result[variant];
+        if (rewritten) {
+          result.analysisReport.alignment[variant] = alignSentences(
+            params.draftPaperContent,
+            rewritten,
+            alignmentLanguage
+          );
+        }
+      }
+
+      // 三个版本分别检查；保留率只统计改写范围，警报借助对齐定位到完整文本中的句子
+      onProgress({ stage: '正在运行保真度检查...' });
+      result.analysisReport.fidelityGuardrails = {};
+      for (const variant of VARIANTS) {
+        const rewritten = rewrittenScoped[variant];
+        if (rewritten) {
+          result.analysisReport.fidelityGuardrails[variant] = calculateFidelityGuardrails(
+            draftPaperContent,
+            rewritten,
+            result.analysisReport.alignment[variant]
+          );
+        }
+      }
 
       // 完整分析模式
       if (analysisMode === 'full') {
         onProgress({ stage: '正在计算风格指标...' });
 
-        const sampleMetrics = calculateMetrics(samplePaperContent);
-        const draftMetrics = calculateMetrics(draftPaperContent);
-        const rewrittenMetrics = calculateMetrics(result.standard);
+        // 重写保持草稿的语言，两者按同一语言统计
+        const draftLanguage = detectLanguage(draftPaperContent);
+
+        // 多篇范文取均值，离散度用于方差加权的镜像评分
+        const warnings: string[] = [];
+        const sampleAggregate = styleProfile
+          ? { mean: styleProfile.metrics, spread: styleProfile.spread }
+          : aggregateSampleMetrics(samplePaperContents, draftLanguage, warnings);
+        if (warnings.length > 0) {
+          result.warnings = [...(result.warnings ?? []), ...warnings];
+        }
+        const sampleMetrics = sampleAggregate.mean;
+        const sampleSpread = sampleAggregate.spread && sampleAggregate.spread.sampleCount > 1
+          ? sampleAggregate.spread
+          : undefined;
+        const draftMetrics = calculateMetrics(draftPaperContent, draftLanguage);
+        const rewrittenMetrics = calculateMetrics(rewrittenStandard, draftLanguage);
 
         result.analysisReport.styleComparison = {
           sample: sampleMetrics,
+          ...(sampleSpread && { sampleSpread }),
           draft: draftMetrics,
           rewrittenStandard: rewrittenMetrics,
         };
 
-        onProgress({ stage: '正在计算镜像分数...' });
+        // 句长单位和词表不同，跨语言的镜像分数没有意义
+        if ((sampleMetrics.language ?? 'zh') !== draftLanguage) {
+          result.analysisReport.status = 'partial';
+          result.analysisReport.message = '范文与草稿语言不同，风格指标无法直接比较，已跳过镜像评分。';
+        } else {
+          onProgress({ stage: '正在计算镜像分数...' });
 
-        const mirrorScore = generateMirrorScore(
-          sampleMetrics,
-          draftMetrics,
-          rewrittenMetrics
+          const mirrorScore = generateMirrorScore(
+            sampleMetrics,
+            draftMetrics,
+            rewrittenMetrics,
+            undefined,
+            sampleSpread
+          );
+          result.analysisReport.mirrorScore = mirrorScore;
+        }
+
+        onProgress({ stage: '正在生成引用建议...' });
+        result.analysisReport.citationSuggestions = generateCitationSuggestions(
+          draftPaperContent,
+          draftLanguage,
+          params.citationRules
         );
-        result.analysisReport.mirrorScore = mirrorScore;
       }
     }
 
@@ -77,4 +432,14 @@ async function runFullTextWorkflow({
   }
 }
 
-export { runFullTextWorkflow };
+/**
+ * 取消存储中的远程任务（仅任务模式下存在）
+ */
+async function cancelActiveJob(): Promise<void> {
+  const job = loadActiveJob();
+  if (job) {
+    await cancelJob(job.jobId);
+  }
+}
+
+export { runFullTextWorkflow, cancelActiveJob };
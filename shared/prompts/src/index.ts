@@ -35,6 +35,9 @@ ${samplePaperContent}
 
 ## 约束
 - 所有计算出的指标必须是数值类型（number/integer），不能是字符串。
+- 'averageSentenceLength' 为平均句长：中文按字符计，英文按单词计。
+- 'lexicalComplexity' 为词型/词例比（0-1 之间的小数）。
+- 'passiveVoicePercentage' 为被动句占全部句子的百分比（0-100）。
 - 'tone'（语调）应该用 2-3 个简洁的词描述。
 - 'structure'（结构）摘要必须是一句描述性的句子。
 - 你必须严格遵守提供的 JSON 模式。
@@ -97,6 +100,67 @@ ${params.fullDocumentContent}
   }
 };
 
+// ==================== 分块重写 Prompt ====================
+
+export const rewriteChunkPrompt = {
+  systemInstruction: `你是一位追求精准的学术写作助手。你的任务是根据严格的风格指南，对长文档中的一个片段进行风格迁移。你的输出必须是一个单一的、有效的 JSON 对象。`,
+
+  createUserPrompt: (params: {
+    chunkContent: string;
+    styleGuide: StyleGuide;
+    documentContext: DocumentContext;
+    sectionTitle?: string;
+    part: number;
+    partCount: number;
+  }) => {
+    const sectionOutline = params.documentContext.sectionSummaries
+      .map((s) => `- ${s.sectionTitle}: ${s.summary}`)
+      .join('\n');
+    const position = params.sectionTitle
+      ? `章节「${params.sectionTitle}」的第 ${params.part}/${params.partCount} 部分`
+      : `文档开头（标题之前）的第 ${params.part}/${params.partCount} 部分`;
+
+    return `
+## 上下文
+你被提供了以下信息：
+1.  <STYLE_GUIDE>: 内容必须适应的目标风格。
+2.  <GLOBAL_CONTEXT>: 论文的整体摘要和各章节摘要，用于保持前后一致。
+3.  <CHUNK>: 你必须重写的片段，它是${position}。
+
+<STYLE_GUIDE>
+${escapeJsonString(params.styleGuide)}
+</STYLE_GUIDE>
+
+<GLOBAL_CONTEXT>
+Document Summary: ${params.documentContext.documentSummary}
+
+Sections:
+${sectionOutline}
+</GLOBAL_CONTEXT>
+
+<CHUNK>
+${params.chunkContent}
+</CHUNK>
+
+## 任务
+重写 <CHUNK> 中的**所有内容**，使其符合 <STYLE_GUIDE> 中定义的风格。参考 <GLOBAL_CONTEXT> 保持术语和表述与全文一致。
+
+## 约束
+- **只输出 <CHUNK> 对应的改写内容，不要添加标题、前言或总结。**
+- **保持原有的段落划分和 Markdown 结构（列表、表格、代码块等）。**
+- **输出必须包含完整的片段内容，绝对不要使用省略号 (...) 或仅输出摘要。**
+- **你绝不能更改任何事实信息、数据或引用。**
+- 生成三个不同版本的重写：
+  - \`conservative\` (保守): 最小化更改。仅修正明显的语法错误和明显的语气不匹配。尽可能少改动单词。
+  - \`standard\` (标准): 风格指南的平衡应用。这是默认选项，目标是显著但不突兀的风格转变。
+  - \`enhanced\` (增强): 风格指南的激进应用。显著改变句子结构和词汇，以非常紧密地匹配目标风格。
+
+## 格式
+你的整个输出必须是一个单一的、有效的 JSON 对象，包含三个必需的字符串键："conservative", "standard", 和 "enhanced"。
+`;
+  }
+};
+
 // ==================== 文档语境分析 Prompt ====================
 
 export const documentContextPrompt = {
@@ -179,6 +243,7 @@ ${params.rewrittenStandardContent}
 export const prompts = {
   extractStyleGuide: extractStyleGuidePrompt,
   rewriteFullDocument: rewriteFullDocumentPrompt,
+  rewriteChunk: rewriteChunkPrompt,
   documentContext: documentContextPrompt,
   generateAnalysisReport: generateAnalysisReportPrompt,
 };
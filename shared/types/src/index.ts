@@ -17,13 +17,21 @@ export interface StyleGuide extends StyleMetrics {
   structure: string;
 }
 
+// 文本语言，决定分句规则、词表和句长单位
+export type TextLanguage = 'zh' | 'en';
+
+// 句长单位：中文按字符，英文按单词
+export type LengthUnit = 'chars' | 'words';
+
 // 用于三方比较的详细指标
 export interface DetailedMetrics {
+  language: TextLanguage;
+  lengthUnit: LengthUnit;
   sentenceLength: {
     mean: number;
     p50: number;
     p90: number;
-    longRate50: number; // 长度 > 50 字符的句子百分比
+    longRate50: number; // 长句百分比（中文 > 50 字符，英文 > 30 词）
   };
   punctuationDensity: {
     comma: number;     // 每 1000 字符
@@ -31,20 +39,37 @@ export interface DetailedMetrics {
     parenthesis: number;
   };
   connectorCounts: {
-    causal: number;     // 因此, 所以, 由于, 因为
-    adversative: number; // 然而, 但是, 不过, 尽管
-    additive: number;    // 此外, 另外, 同时, 并且
-    emphatic: number;    // 尤其, 特别, 值得注意
+    causal: number;     // 因此, 所以, 由于, 因为 / therefore, thus
+    adversative: number; // 然而, 但是, 不过, 尽管 / however, whereas
+    additive: number;    // 此外, 另外, 同时, 并且 / moreover, in addition
+    emphatic: number;    // 尤其, 特别, 值得注意 / notably, in particular
     total: number;
   };
   templateCounts: {
     count: number;       // 发现的模板短语总数
     perThousandChars: number;
   };
+  passiveVoicePercentage: number; // 被动句百分比，对应 StyleGuide.passiveVoicePercentage
+  lexical: {
+    typeTokenRatio: number;  // 词型/词例比（0-1，滑动窗口），对应 StyleGuide.lexicalComplexity
+    lexicalDensity: number;  // 实词占全部词的比例（0-1）
+  };
+  readability?: number;  // Flesch 易读度（0-100，越高越易读），仅英文计算
   textLengthChars: number;
   sentenceCount: number;
 }
 
+// 多篇范文间各指标的离散程度，结构与 DetailedMetrics 相同，每项为样本标准差
+export interface MetricsSpread {
+  sampleCount: number;
+  stdDev: DetailedMetrics;
+}
+
+export interface MetricsAggregate {
+  mean: DetailedMetrics;
+  spread: MetricsSpread;
+}
+
 export interface MirrorScore {
   draftToSample: number;    // 0-100
   standardToSample: number; // 0-100
@@ -55,31 +80,96 @@ export interface MirrorScore {
     punctuation: number;
     templates: number;
   };
+  // 多篇范文时各维度的可信度（0-1）：范文之间差异越大，该维度在评分中的权重越低
+  reliability?: {
+    sentence: number;
+    connectors: number;
+    punctuation: number;
+    templates: number;
+  };
+}
+
+// ==================== 风格档案类型 ====================
+
+// 可复用的"期刊指纹"：保存范文的风格指南和平均指标，可替代上传范文
+export interface StyleProfile {
+  id: string;
+  name: string;              // 例如 "IEEE TPAMI"、"中国科学: 信息科学"
+  createdAt: string;         // ISO 时间
+  updatedAt: string;
+  sampleNames: string[];     // 构建档案所用的范文文件名
+  styleGuide?: StyleGuide;   // 缺失时只能用于对比指标，不能替代范文
+  metrics: DetailedMetrics;  // 所有范文的平均指标
+  spread?: MetricsSpread;    // 范文之间的离散程度，用于方差加权的镜像评分
+}
+
+// 导出/导入的 JSON 文件格式
+export interface StyleProfileFile {
+  format: 'papermirror-style-profile';
+  version: 1;
+  profile: StyleProfile;
 }
 
 // ==================== 保真度检查类型 ====================
 
 export interface FidelityAlert {
-  type: 'number_loss' | 'acronym_change' | 'unit_loss';
-  sentenceIndex: number;
+  type:
+    | 'number_loss'
+    | 'acronym_change'
+    | 'unit_loss'
+    | 'citation_loss'
+    | 'equation_loss'
+    | 'figure_table_loss'
+    | 'negation_flip'
+    | 'certainty_shift';
+  sentenceIndex: number;            // 草稿句子索引（与句子对齐的 draftSentences 一致），-1 表示未定位
+  rewrittenSentenceIndex?: number;  // 对应的标准版句子索引，该句被删除时缺省
+  token?: string;                   // 缺失项在草稿中的原文写法，用于在原文中高亮
+  draftSentence?: string;           // 论断漂移警报对应的草稿句子
+  rewrittenSentence?: string;       // 论断漂移警报对应的改写句子
   detail?: string;
 }
 
 export interface FidelityGuardrails {
   numberRetentionRate: number;
   acronymRetentionRate: number;
+  unitRetentionRate: number;         // 量值与单位（含区间、± 不确定度）
+  citationRetentionRate: number;     // 正文引用标记
+  equationRetentionRate: number;     // 行内与行间 LaTeX 公式
+  figureTableRetentionRate: number;  // 图表引用
   alerts: FidelityAlert[];
 }
 
 // ==================== 引用建议类型 ====================
 
+export type CitationReason = 'background' | 'definition' | 'method' | 'comparison' | 'statistic';
+
 export interface CitationSuggestion {
   sentenceIndex: number;
   sentenceText: string;
-  reason: 'background' | 'definition' | 'method' | 'comparison' | 'statistic';
+  reason: CitationReason;
+  confidence: number;   // 0–1，命中的规则越多越高
   queries: string[];
 }
 
+// ==================== 句子对齐类型 ====================
+
+// match = 1:1，split = 1:N（草稿一句拆成多句），merge = N:1，deleted = 1:0，inserted = 0:1
+export type AlignmentKind = 'match' | 'split' | 'merge' | 'deleted' | 'inserted';
+
+export interface SentenceAlignment {
+  kind: AlignmentKind;
+  draft: number[];      // 草稿句子索引（inserted 时为空）
+  rewritten: number[];  // 改写句子索引（deleted 时为空）
+  similarity: number;   // 0-1，长度与词汇重合度的综合相似度
+}
+
+export interface VariantAlignment {
+  draftSentences: string[];
+  rewrittenSentences: string[];
+  pairs: SentenceAlignment[]; // 按文本顺序排列，覆盖两侧的全部句子
+}
+
 // ==================== 分析报告类型 ====================
 
 export interface AnalysisReport {
@@ -91,17 +181,22 @@ export interface AnalysisReport {
   
   // 三方风格比较
   styleComparison?: {
-    sample: DetailedMetrics;
+    sample: DetailedMetrics;         // 多篇范文时为均值
+    sampleSpread?: MetricsSpread;    // 多篇范文之间的离散程度
     draft: DetailedMetrics;
     rewrittenStandard: DetailedMetrics;
   };
   
-  // 保真度护栏
-  fidelityGuardrails?: FidelityGuardrails;
+  // 各改写版本的保真度护栏
+  fidelityGuardrails?: Partial<Record<RewriteVariant, FidelityGuardrails>>;
+  
+  // 草稿与各改写版本的句子对齐
+  alignment?: Partial<Record<RewriteVariant, VariantAlignment>>;
   
   // 引用建议
   citationSuggestions?: {
     rulesVersion: string;
+    ruleSetName?: string;            // 早期报告没有记录规则集名称
     items: CitationSuggestion[];
   };
   
@@ -124,7 +219,7 @@ export interface DocumentContext {
 
 // ==================== 应用状态类型 ====================
 
-export type AppStatus = 'idle' | 'loading' | 'success' | 'error';
+export type AppStatus = 'idle' | 'loading' | 'success' | 'error' | 'cancelled';
 
 export interface ProgressUpdate {
   stage: string;
@@ -135,11 +230,23 @@ export interface ProgressUpdate {
 
 // ==================== 迁移结果类型 ====================
 
+export type RewriteVariant = 'conservative' | 'standard' | 'enhanced';
+
+// 客户端编排 Prompt 流水线时产生的中间产物
+export interface MigrationArtifacts {
+  styleGuide?: StyleGuide;
+  documentContext?: DocumentContext;
+}
+
 export interface MigrationResult {
   conservative?: string;
   standard?: string;
   enhanced?: string;
   analysisReport?: AnalysisReport;
+  artifacts?: MigrationArtifacts;
+  rewrittenSections?: string[]; // 只改写部分章节时，被改写的章节标题
+  warnings?: string[];          // 结果可用但部分不完整时的提示，如某个版本无法拼回原文
+  draft?: string;               // 原始草稿全文，用于差异对比
 }
 
 // ==================== 下载链接类型 ====================
@@ -149,6 +256,61 @@ export interface DownloadLinks {
   standard?: string;
   enhanced?: string;
   report?: string;
+  merged?: string; // 审阅模式逐句选择后的合稿
+}
+
+// ==================== 审阅合稿类型 ====================
+
+// 每个审阅单元采用的版本
+export type ReviewChoice = 'draft' | RewriteVariant;
+
+export interface ReviewSession {
+  resultId: string;                          // 由草稿和各版本全文计算的指纹
+  result: MigrationResult;                   // 保存时不含句子对齐（可重新计算）
+  defaultChoice: ReviewChoice;               // 未单独选择的单元采用的版本
+  selections: Record<string, ReviewChoice>;  // 审阅单元 ID → 选择
+  citations?: CitationInsertion[];           // 插入合稿的引用
+  citationStyle?: CitationStyle;
+  updatedAt: string;
+}
+
+// ==================== 文献库类型 ====================
+
+// 由用户上传的 BibTeX 或 CSL-JSON 文件解析而来，仅保存在本地
+export interface BibEntry {
+  key: string;          // BibTeX 键或 CSL-JSON 的 id
+  title: string;
+  authors: string[];
+  year?: string;
+  abstract?: string;
+  keywords: string[];
+  venue?: string;       // 期刊或会议
+}
+
+export interface CitationMatch {
+  key: string;
+  score: number;        // BM25 得分，仅用于同一建议内排序
+}
+
+// latex = \cite{key}，numeric = [n] 并在文末附参考文献列表
+export type CitationStyle = 'latex' | 'numeric';
+
+export interface CitationInsertion {
+  unitId: string;       // 审阅单元 ID
+  anchor: string;       // 草稿句子开头，用于在单元内定位插入位置
+  key: string;
+}
+
+// ==================== 引用规则集类型 ====================
+
+// 可由用户编辑和导入导出的 JSON 文档；模式为正则表达式字符串，英文按不区分大小写匹配
+export interface CitationRuleSet {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  patterns: Record<TextLanguage, Partial<Record<CitationReason, string[]>>>;
+  exclusions: Record<TextLanguage, string[]>;   // 命中任一排除模式的句子不提示引用（如作者自己的工作）
 }
 
 // ==================== 分析模式类型 ====================
@@ -175,6 +337,7 @@ export const ErrorCodes = {
   SERVER_ERROR: 'SERVER_ERROR',
   EMPTY_RESPONSE: 'EMPTY_RESPONSE',
   INCOMPLETE_RESPONSE: 'INCOMPLETE_RESPONSE',
+  TRUNCATED: 'TRUNCATED',
   UNAUTHORIZED: 'UNAUTHORIZED',
   FORBIDDEN: 'FORBIDDEN',
   NOT_FOUND: 'NOT_FOUND',
@@ -207,17 +370,43 @@ export type ErrorCode = typeof ErrorCodes[keyof typeof ErrorCodes];
 
 // ==================== 配置类型 ====================
 
+export interface RetryPolicy {
+  maxAttempts: number;   // 包含首次请求在内的最大尝试次数
+  baseDelayMs: number;   // 指数退避的基础延迟
+  maxDelayMs: number;    // 单次等待的上限
+  maxRetryAfterMs: number; // 服务器 Retry-After 建议的等待超过该值时放弃重试
+}
+
+// stream: 单个 POST 请求 + SSE 流；job: 提交任务后轮询状态，可断线续传
+export type ApiMode = 'stream' | 'job';
+
+// cloudFunction: 闭源 FC 后端；openaiCompatible: 浏览器内直接调用任意 OpenAI 兼容接口（vLLM、Ollama 等）
+export type RewriteProviderType = 'cloudFunction' | 'openaiCompatible';
+
 export interface AppConfig {
   api: {
     baseUrl: string;
     timeout: number;
     token?: string;
+    retry: RetryPolicy;
+    mode: ApiMode;
+    pollIntervalMs: number;
   };
   gemini: {
     model: string;
     temperature: number;
     thinkingBudget: number;
   };
+  llm: {
+    provider: RewriteProviderType;
+    baseUrl: string;      // 例如 http://localhost:11434/v1
+    apiKey?: string;
+    model: string;
+    temperature: number;
+    timeout: number;      // 单次补全请求的超时（毫秒）
+    jsonMode: boolean;    // 是否发送 response_format: json_object
+    chunkTokens: number;  // 分块改写时每块的 token 预算，超出时按章节/段落切分
+  };
   analysis: {
     mode: AnalysisMode;
   };
@@ -229,7 +418,8 @@ export type WorkflowState =
   | { type: 'idle' }
   | { type: 'loading'; progress: ProgressUpdate }
   | { type: 'success'; result: MigrationResult; downloadLinks: DownloadLinks }
-  | { type: 'error'; error: ErrorDetails };
+  | { type: 'error'; error: ErrorDetails }
+  | { type: 'cancelled' };
 
 // ==================== Prompt 类型 ====================
 
@@ -249,6 +439,7 @@ export interface Prompts {
 export interface CloudFunctionRequest {
   samplePaper: string;
   draftPaper: string;
+  styleGuide?: StyleGuide; // 来自风格档案时提供，后端跳过风格提取，samplePaper 可为空
 }
 
 export interface CloudFunctionResponse {
@@ -258,11 +449,45 @@ export interface CloudFunctionResponse {
     enhanced: string;
   };
   analysisReport?: AnalysisReport;
+  styleGuide?: StyleGuide; // 后端提取的风格指南（可选），用于保存风格档案
+}
+
+// ==================== 任务模式请求/响应类型 ====================
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobSubmitResponse {
+  jobId: string;
+}
+
+export interface JobStatusResponse {
+  jobId: string;
+  status: JobStatus;
+  progress?: {
+    stage: string;
+    current?: number;
+    total?: number;
+  };
+  result?: CloudFunctionResponse;
+  error?: {
+    code?: string;
+    message: string;
+  };
 }
 
 export interface SSEEvent {
-  type: 'progress' | 'complete' | 'error';
+  type: 'progress' | 'partial' | 'complete' | 'error';
   stage?: string;
   message?: string;
   data?: CloudFunctionResponse;
+
+  // 进度计数（progress / partial 事件）
+  current?: number;
+  total?: number;
+
+  // 部分改写结果（partial 事件）：某个版本中一个章节的改写文本
+  variant?: RewriteVariant;
+  sectionIndex?: number;
+  sectionTitle?: string;
+  text?: string;
 }
@@ -3,7 +3,7 @@
  * 所有应用配置从此入口获取
  */
 
-import type { AppConfig, AnalysisMode } from '@papermirror/types';
+import type { AppConfig, AnalysisMode, ApiMode, RewriteProviderType } from '@papermirror/types';
 
 // 错误码定义
 export const ErrorCodes = {
@@ -33,6 +33,20 @@ function getEnv(key: string, defaultValue?: string): string | undefined {
   return value ?? defaultValue;
 }
 
+/**
+ * 解析整数配置，非数字时使用默认值，小于下限时取下限
+ */
+function parseIntEnv(key: string, defaultValue: number, min = 0): number {
+  const raw = getEnv(key);
+  if (raw === undefined || raw === '') return defaultValue;
+  const value = parseInt(raw, 10);
+  if (Number.isNaN(value)) {
+    console.warn(`无效的 ${key}: ${raw}，使用默认值 ${defaultValue}`);
+    return defaultValue;
+  }
+  return Math.max(min, value);
+}
+
 /**
  * 验证并解析分析模式
  */
@@ -46,6 +60,30 @@ function parseAnalysisMode(mode: string | undefined): AnalysisMode {
   return 'full';
 }
 
+/**
+ * 验证并解析 API 模式
+ */
+function parseApiMode(mode: string | undefined): ApiMode {
+  if (!mode) return 'stream';
+  if (mode === 'stream' || mode === 'job') {
+    return mode;
+  }
+  console.warn(`无效的 API 模式: ${mode}，使用默认值 'stream'`);
+  return 'stream';
+}
+
+/**
+ * 验证并解析改写服务提供方
+ */
+function parseProvider(provider: string | undefined): RewriteProviderType {
+  if (!provider) return 'cloudFunction';
+  if (provider === 'cloudFunction' || provider === 'openaiCompatible') {
+    return provider;
+  }
+  console.warn(`无效的改写服务提供方: ${provider}，使用默认值 'cloudFunction'`);
+  return 'cloudFunction';
+}
+
 /**
  * 验证配置完整性
  */
@@ -83,12 +121,30 @@ function createConfig(): AppConfig {
       baseUrl: getEnv('CLOUD_FUNCTION_URL', 'http://localhost:8080')!,
       timeout: parseInt(getEnv('API_TIMEOUT', '300000')!, 10), // 5分钟默认
       token: getEnv('APP_TOKEN'),
+      retry: {
+        maxAttempts: parseIntEnv('API_MAX_ATTEMPTS', 3, 1),
+        baseDelayMs: parseIntEnv('API_RETRY_BASE_DELAY', 1000),
+        maxDelayMs: parseIntEnv('API_RETRY_MAX_DELAY', 30000),
+        maxRetryAfterMs: parseIntEnv('API_RETRY_AFTER_LIMIT', 300000),
+      },
+      mode: parseApiMode(getEnv('API_MODE')),
+      pollIntervalMs: parseIntEnv('API_POLL_INTERVAL', 3000, 1),
     },
     gemini: {
       model: getEnv('GEMINI_MODEL', 'gemini-3-flash-preview')!,
       temperature: parseFloat(getEnv('GEMINI_TEMPERATURE', '0.2')!),
       thinkingBudget: parseInt(getEnv('GEMINI_THINKING_BUDGET', '0')!, 10),
     },
+    llm: {
+      provider: parseProvider(getEnv('LLM_PROVIDER')),
+      baseUrl: getEnv('LLM_BASE_URL', 'http://localhost:11434/v1')!,
+      apiKey: getEnv('LLM_API_KEY'),
+      model: getEnv('LLM_MODEL', 'qwen2.5:14b')!,
+      temperature: parseFloat(getEnv('LLM_TEMPERATURE', '0.2')!),
+      timeout: parseInt(getEnv('LLM_TIMEOUT', '600000')!, 10), // 10分钟默认
+      jsonMode: getEnv('LLM_JSON_MODE', 'true') !== 'false',
+      chunkTokens: parseIntEnv('LLM_CHUNK_TOKENS', 6000, 500),
+    },
     analysis: {
       mode: parseAnalysisMode(getEnv('ANALYSIS_MODE')),
     },
@@ -104,6 +160,7 @@ export const config = createConfig();
 // 导出便捷访问方法
 export const getApiConfig = () => config.api;
 export const getGeminiConfig = () => config.gemini;
+export const getLlmConfig = () => config.llm;
 export const getAnalysisConfig = () => config.analysis;
 
 // 导出默认配置值（用于文档和测试）
@@ -111,12 +168,29 @@ export const defaultConfig: AppConfig = {
   api: {
     baseUrl: 'http://localhost:8080',
     timeout: 300000,
+    retry: {
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      maxRetryAfterMs: 300000,
+    },
+    mode: 'stream',
+    pollIntervalMs: 3000,
   },
   gemini: {
     model: 'gemini-3-flash-preview',
     temperature: 0.2,
     thinkingBudget: 0,
   },
+  llm: {
+    provider: 'cloudFunction',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'qwen2.5:14b',
+    temperature: 0.2,
+    timeout: 600000,
+    jsonMode: true,
+    chunkTokens: 6000,
+  },
   analysis: {
     mode: 'full',
   },
@@ -24,6 +24,7 @@ export const ErrorCodes = {
   SERVER_ERROR: 'SERVER_ERROR',
   EMPTY_RESPONSE: 'EMPTY_RESPONSE',
   INCOMPLETE_RESPONSE: 'INCOMPLETE_RESPONSE',
+  TRUNCATED: 'TRUNCATED',
   UNAUTHORIZED: 'UNAUTHORIZED',
   FORBIDDEN: 'FORBIDDEN',
   NOT_FOUND: 'NOT_FOUND',
@@ -174,6 +175,16 @@ export class NetworkError extends AppError {
   }
 }
 
+/**
+ * 可通过重试恢复的 API 错误码
+ */
+const RETRYABLE_API_CODES: ErrorCode[] = [
+  ErrorCodes.SERVER_ERROR,
+  ErrorCodes.TIMEOUT,
+  ErrorCodes.RATE_LIMITED,
+  ErrorCodes.SERVICE_UNAVAILABLE,
+];
+
 /**
  * API 错误
  * 当后端 API 返回错误时抛出
@@ -184,12 +195,15 @@ export class NetworkError extends AppError {
  * ```
  */
 export class ApiError extends AppError {
+  /** 服务器通过 Retry-After 头建议的等待时间（毫秒） */
+  public retryAfterMs?: number;
+
   constructor(
     message: string,
     code: ErrorCode = 'SERVER_ERROR',
     public statusCode?: number
   ) {
-    super(message, code, code === 'SERVER_ERROR' || code === 'TIMEOUT');
+    super(message, code, RETRYABLE_API_CODES.includes(code));
     this.name = 'ApiError';
   }
 }
@@ -263,6 +277,22 @@ export class WorkflowError extends AppError {
   }
 }
 
+/**
+ * 取消错误
+ * 当用户主动取消处理流程时抛出
+ *
+ * @example
+ * ```typescript
+ * if (signal.aborted) throw new CancellationError();
+ * ```
+ */
+export class CancellationError extends AppError {
+  constructor(message: string = '处理已取消') {
+    super(message, 'WORKFLOW_CANCELLED', false);
+    this.name = 'CancellationError';
+  }
+}
+
 /**
  * 配置错误
  * 当应用配置缺失或无效时抛出
@@ -393,6 +423,7 @@ const userFriendlyMessages: Record<ErrorCode, string> = {
   [ErrorCodes.SERVER_ERROR]: '服务器出现错误，请稍后重试。如果问题持续存在，请联系支持团队',
   [ErrorCodes.EMPTY_RESPONSE]: '服务器返回空响应，请稍后重试',
   [ErrorCodes.INCOMPLETE_RESPONSE]: '数据传输不完整，请重试。如果问题持续，请检查网络稳定性',
+  [ErrorCodes.TRUNCATED]: '模型输出超出长度限制被截断，请调小分块大小（LLM_CHUNK_TOKENS）或选择输出上限更高的模型',
   [ErrorCodes.UNAUTHORIZED]: '未授权访问，请检查访问令牌是否有效或已过期',
   [ErrorCodes.FORBIDDEN]: '访问被拒绝，您没有权限执行此操作',
   [ErrorCodes.NOT_FOUND]: '请求的服务未找到，请检查配置或联系管理员',
@@ -457,6 +488,16 @@ export function isRetryableError(error: unknown): boolean {
   return false;
 }
 
+/**
+ * 判断错误是否由用户取消引起
+ *
+ * @param error - 错误对象
+ * @returns 是否为取消错误
+ */
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof AppError && error.code === ErrorCodes.WORKFLOW_CANCELLED;
+}
+
 /**
  * 获取重试建议
  * 
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { alignSentenceLists, alignSentences } from './alignment';
+
+const shape = (pairs: ReturnType<typeof alignSentenceLists>) =>
+  pairs.map(({ kind, draft, rewritten }) => ({ kind, draft, rewritten }));
+
+describe('alignSentenceLists', () => {
+  it('matches unchanged sentences 1:1', () => {
+    const sentences = ['The model was trained on three datasets.', 'Results improved by ten percent.'];
+    expect(shape(alignSentenceLists(sentences, sentences, 'en'))).toEqual([
+      { kind: 'match', draft: [0], rewritten: [0] },
+      { kind: 'match', draft: [1], rewritten: [1] },
+    ]);
+  });
+
+  it('aligns a split sentence as 1:N', () => {
+    const draft = ['我们提出了一种新的图像分割方法，并在三个公开数据集上验证了该方法的有效性。'];
+    const rewritten = ['我们提出了一种新的图像分割方法。', '并在三个公开数据集上验证了该方法的有效性。'];
+    expect(shape(alignSentenceLists(draft, rewritten, 'zh'))).toEqual([
+      { kind: 'split', draft: [0], rewritten: [0, 1] },
+    ]);
+  });
+
+  it('aligns merged sentences as N:1', () => {
+    const draft = ['We collected data from two hospitals.', 'The data covered five years of records.'];
+    const rewritten = ['We collected data from two hospitals, and the data covered five years of records.'];
+    expect(shape(alignSentenceLists(draft, rewritten, 'en'))).toEqual([
+      { kind: 'merge', draft: [0, 1], rewritten: [0] },
+    ]);
+  });
+
+  it('reports deleted and inserted sentences', () => {
+    const draft = ['The sample size was small.', 'Weather data were unavailable for March.', 'Future work will add more sites.'];
+    const rewritten = [
+      'The sample size was small.',
+      'Future work will add more sites.',
+      'Code is available on request from the authors.',
+    ];
+    expect(shape(alignSentenceLists(draft, rewritten, 'en'))).toEqual([
+      { kind: 'match', draft: [0], rewritten: [0] },
+      { kind: 'deleted', draft: [1], rewritten: [] },
+      { kind: 'match', draft: [2], rewritten: [1] },
+      { kind: 'inserted', draft: [], rewritten: [2] },
+    ]);
+  });
+
+  it('handles empty sides', () => {
+    expect(alignSentenceLists([], [], 'zh')).toEqual([]);
+    expect(shape(alignSentenceLists([], ['新增的一句。'], 'zh'))).toEqual([
+      { kind: 'inserted', draft: [], rewritten: [0] },
+    ]);
+  });
+
+  it.each([
+    ['one draft sentence, many rewritten', 1, 70],
+    ['many draft sentences, one rewritten', 70, 1],
+    ['lopsided long lists', 40, 200],
+  ])('reaches the end when the sides differ greatly in length (%s)', (_, n, m) => {
+    const draft = Array.from({ length: n }, (_, i) => `草稿中的第${i + 1}句内容。`);
+    const rewritten = Array.from({ length: m }, (_, i) => `改写后的第${i + 1}句文字。`);
+    const pairs = alignSentenceLists(draft, rewritten, 'zh');
+    expect(pairs.flatMap((pair) => pair.draft)).toEqual(draft.map((_, i) => i));
+    expect(pairs.flatMap((pair) => pair.rewritten)).toEqual(rewritten.map((_, i) => i));
+  });
+
+  it('aligns a single-sentence Chinese draft against a long rewrite', () => {
+    const rewritten = Array.from({ length: 70 }, (_, i) => `这是改写后的第${i + 1}句。`).join('');
+    const alignment = alignSentences('这是一句草稿内容。', rewritten, 'zh');
+    expect(alignment.rewrittenSentences).toHaveLength(70);
+    expect(alignment.pairs.flatMap((pair) => pair.rewritten)).toHaveLength(70);
+  });
+});
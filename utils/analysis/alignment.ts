@@ -0,0 +1,225 @@
+/**
+ * 句子对齐 - 确定改写版本中的每一句对应草稿中的哪一句。
+ * 采用长度 + 词汇重合度的动态规划对齐（思路同 Gale-Church），
+ * 支持 1:1、1:N（拆句）、N:1（并句）以及删除、新增的句子。
+ */
+
+import type { AlignmentKind, SentenceAlignment, TextLanguage, VariantAlignment } from '@papermirror/types';
+import { detectLanguage, splitSentences, tokenizeWords } from './text';
+
+// 单独删除或新增一句的代价；两句相似度低于 1 - 2 × SKIP_COST 时宁可拆成删除 + 新增
+const SKIP_COST = 0.4;
+
+// 相似度中词汇重合与长度比例的权重
+const LEXICAL_WEIGHT = 0.75;
+const LENGTH_WEIGHT = 0.25;
+
+// 拆句/并句时，组内每一句至少要有这一比例的词汇出现在另一侧，避免把无关的句子并进来
+const MIN_MEMBER_OVERLAP = 0.3;
+
+// 只在对角线附近的带状区域内搜索，带宽至少为该值（另加两侧句数之差）
+const MIN_BAND = 30;
+
+interface Move {
+  draft: number;
+  rewritten: number;
+  penalty: number;
+  kind: AlignmentKind;
+}
+
+// 允许的对齐步长；拆句与并句带少量惩罚，避免相似度相同时优先合并
+const MOVES: Move[] = [
+  { draft: 1, rewritten: 1, penalty: 0, kind: 'match' },
+  { draft: 1, rewritten: 2, penalty: 0.05, kind: 'split' },
+  { draft: 2, rewritten: 1, penalty: 0.05, kind: 'merge' },
+  { draft: 1, rewritten: 3, penalty: 0.1, kind: 'split' },
+  { draft: 3, rewritten: 1, penalty: 0.1, kind: 'merge' },
+  { draft: 1, rewritten: 0, penalty: SKIP_COST, kind: 'deleted' },
+  { draft: 0, rewritten: 1, penalty: SKIP_COST, kind: 'inserted' },
+];
+
+interface SentenceFeatures {
+  tokens: Set<string>;
+  length: number;
+}
+
+/**
+ * 提取句子的词汇特征：英文取小写单词，中文取相邻字符二元组（无需分词即可衡量重合度）。
+ */
+function extractFeatures(sentence: string, language: TextLanguage): SentenceFeatures {
+  const tokens = new Set<string>();
+  if (language === 'en') {
+    for (const word of tokenizeWords(sentence)) {
+      tokens.add(word.toLowerCase());
+    }
+  } else {
+    const chars = sentence.replace(/[\s\p{P}]/gu, '');
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.add(chars.slice(i, i + 2));
+    }
+    if (chars.length === 1) tokens.add(chars);
+  }
+  return { tokens, length: sentence.length };
+}
+
+/**
+ * 合并多句的特征（拆句/并句时作为一个整体比较）。
+ */
+function combineFeatures(features: SentenceFeatures[]): SentenceFeatures {
+  if (features.length === 1) return features[0];
+  const tokens = new Set<string>();
+  let length = 0;
+  for (const feature of features) {
+    feature.tokens.forEach((token) => tokens.add(token));
+    length += feature.length;
+  }
+  return { tokens, length };
+}
+
+/**
+ * 计算 a 的词汇中出现在 b 中的比例。
+ */
+function containment(a: SentenceFeatures, b: SentenceFeatures): number {
+  if (a.tokens.size === 0) return 0;
+  let shared = 0;
+  a.tokens.forEach((token) => {
+    if (b.tokens.has(token)) shared++;
+  });
+  return shared / a.tokens.size;
+}
+
+/**
+ * 计算两组特征的相似度（0-1）：Dice 系数与长度比例的加权和。
+ */
+function featureSimilarity(a: SentenceFeatures, b: SentenceFeatures): number {
+  let shared = 0;
+  const [smaller, larger] = a.tokens.size <= b.tokens.size ? [a.tokens, b.tokens] : [b.tokens, a.tokens];
+  smaller.forEach((token) => {
+    if (larger.has(token)) shared++;
+  });
+  const tokenTotal = a.tokens.size + b.tokens.size;
+  const dice = tokenTotal > 0 ? (2 * shared) / tokenTotal : 0;
+  const lengthRatio = Math.max(a.length, b.length) > 0
+    ? Math.min(a.length, b.length) / Math.max(a.length, b.length)
+    : 1;
+  return LEXICAL_WEIGHT * dice + LENGTH_WEIGHT * lengthRatio;
+}
+
+/**
+ * 计算两个句子的相似度（0-1）。
+ */
+export function sentenceSimilarity(a: string, b: string, language: TextLanguage): number {
+  return featureSimilarity(extractFeatures(a, language), extractFeatures(b, language));
+}
+
+/**
+ * 对齐两组句子，返回按文本顺序排列的对齐结果。
+ */
+export function alignSentenceLists(
+  draft: string[],
+  rewritten: string[],
+  language: TextLanguage
+): SentenceAlignment[] {
+  const n = draft.length;
+  const m = rewritten.length;
+  const draftFeatures = draft.map((sentence) => extractFeatures(sentence, language));
+  const rewrittenFeatures = rewritten.map((sentence) => extractFeatures(sentence, language));
+
+  const width = m + 1;
+  const cost = new Float64Array((n + 1) * width).fill(Infinity);
+  const choice = new Int8Array((n + 1) * width).fill(-1);
+  const similarity = new Float64Array((n + 1) * width);
+  cost[0] = 0;
+
+  // 连续句子合并后的特征会被多个单元格重复使用，按区间缓存
+  const groupCache = new Map<string, SentenceFeatures>();
+  const group = (side: 'd' | 'r', start: number, end: number): SentenceFeatures => {
+    const source = side === 'd' ? draftFeatures : rewrittenFeatures;
+    if (end - start === 1) return source[start];
+    const key = `${side}${start}:${end}`;
+    let features = groupCache.get(key);
+    if (!features) {
+      features = combineFeatures(source.slice(start, end));
+      groupCache.set(key, features);
+    }
+    return features;
+  };
+
+  // 带宽不小于两侧句数之差，保证"逐句匹配后连续删除/新增"的路径始终在带内，终点可达
+  const band = Math.abs(n - m) + Math.max(MIN_BAND, Math.ceil(Math.max(n, m) * 0.1));
+  const inBand = (i: number, j: number) => n === 0 || Math.abs(j - (i * m) / n) <= band;
+
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= m; j++) {
+      if ((i === 0 && j === 0) || !inBand(i, j)) continue;
+      const cell = i * width + j;
+
+      MOVES.forEach((move, moveIndex) => {
+        const pi = i - move.draft;
+        const pj = j - move.rewritten;
+        if (pi < 0 || pj < 0) return;
+        const previous = cost[pi * width + pj];
+        if (previous === Infinity) return;
+
+        let sim = 0;
+        let stepCost = move.penalty;
+        if (move.draft > 0 && move.rewritten > 0) {
+          const draftGroup = group('d', pi, i);
+          const rewrittenGroup = group('r', pj, j);
+          const weakMember = (members: SentenceFeatures[], other: SentenceFeatures) =>
+            members.length > 1 && members.some((f) => containment(f, other) < MIN_MEMBER_OVERLAP);
+          if (weakMember(draftFeatures.slice(pi, i), rewrittenGroup)) return;
+          if (weakMember(rewrittenFeatures.slice(pj, j), draftGroup)) return;
+          sim = featureSimilarity(draftGroup, rewrittenGroup);
+          stepCost += 1 - sim;
+        }
+
+        if (previous + stepCost < cost[cell]) {
+          cost[cell] = previous + stepCost;
+          choice[cell] = moveIndex;
+          similarity[cell] = sim;
+        }
+      });
+    }
+  }
+
+  // 从终点回溯
+  const pairs: SentenceAlignment[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const cell = i * width + j;
+    const move = MOVES[choice[cell]];
+    const pi = i - move.draft;
+    const pj = j - move.rewritten;
+    pairs.push({
+      kind: move.kind,
+      draft: Array.from({ length: move.draft }, (_, k) => pi + k),
+      rewritten: Array.from({ length: move.rewritten }, (_, k) => pj + k),
+      similarity: Math.round(similarity[cell] * 1000) / 1000,
+    });
+    i = pi;
+    j = pj;
+  }
+
+  return pairs.reverse();
+}
+
+/**
+ * 拆分句子并对齐草稿与改写版本。
+ * 语言以草稿为准（改写保持草稿的语言）。
+ */
+export function alignSentences(
+  draftText: string,
+  rewrittenText: string,
+  language: TextLanguage = detectLanguage(draftText)
+): VariantAlignment {
+  const draftSentences = splitSentences(draftText, language).map((sentence) => sentence.text);
+  const rewrittenSentences = splitSentences(rewrittenText, language).map((sentence) => sentence.text);
+
+  return {
+    draftSentences,
+    rewrittenSentences,
+    pairs: alignSentenceLists(draftSentences, rewrittenSentences, language),
+  };
+}
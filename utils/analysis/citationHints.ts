@@ -3,144 +3,282 @@
  * 不生成实际的引用 - 仅提供搜索关键词。
  */
 
-import type { CitationSuggestion } from '@papermirror/types';
-import { splitSentencesCN } from './text';
-
-// 规则版本，用于追踪
-const RULES_VERSION = '1.0.0';
+import type { CitationReason, CitationRuleSet, CitationSuggestion, TextLanguage } from '@papermirror/types';
+import { detectLanguage, splitSentences } from './text';
+import { extractCitationMarkers } from './fidelity';
+import { ValidationError } from '../../src/errors';
 
 // 中文技术术语后缀，用于提取
 const CHINESE_TECH_SUFFIXES = [
   '技术', '方法', '算法', '模型', '系统', '网络', '框架', '机制', '理论', '分析'
 ];
 
-// 指示需要引用的模式
-const CITATION_PATTERNS = {
-  background: [
-    '近年来',
-    '广泛关注',
-    '已被广泛应用',
-    '已有研究表明',
-    '文献报道',
-    '研究发现',
-    '前人研究',
-    '现有研究',
-    '大量研究',
-    '学者们',
-    '随着.*的发展',
-    '日益增长',
-    '已成为',
-    '普遍认为',
-    '通常认为',
-  ],
-  definition: [
-    '定义为',
-    '被定义为',
-    '根据.*标准',
-    '按照.*定义',
-    '指标.*定义',
-    '协议',
-    '规范',
-    '标准规定',
-    '国际标准',
-    '国家标准',
-    '行业标准',
-  ],
-  method: [
-    '采用.*方法',
-    '基于.*模型',
-    '使用.*算法',
-    '运用.*技术',
-    '借鉴.*框架',
-    '参考.*设计',
-    '引入.*机制',
-    '提出的.*方法',
-    '经典.*算法',
-    '传统.*方法',
-  ],
-  comparison: [
-    '传统方法.*存在',
-    '现有方法.*不足',
-    '相比之下',
-    '优于',
-    '劣于',
-    '对比',
-    '比较',
-    '相较于',
-    '与.*相比',
-    '超过了',
-    '不如',
-  ],
-  statistic: [
-    '占.*比例',
-    '增长了',
-    '下降了',
-    '大规模',
-    '调查显示',
-    '统计表明',
-    '数据显示',
-    '据统计',
-    '\\d+%.*的',
-    '约\\d+',
-    '超过\\d+',
-    '达到\\d+',
-  ],
+export const CITATION_REASONS: CitationReason[] = ['background', 'definition', 'method', 'comparison', 'statistic'];
+
+/**
+ * 内置规则集：patterns 指示需要引用的句子，exclusions 指示作者自己的工作（不应引用）
+ */
+export const DEFAULT_CITATION_RULE_SET: CitationRuleSet = {
+  id: 'default',
+  name: '通用学术写作',
+  version: '1.1.0',
+  patterns: {
+    zh: {
+      background: [
+        '近年来',
+        '广泛关注',
+        '已被广泛应用',
+        '已有研究表明',
+        '文献报道',
+        '研究发现',
+        '前人研究',
+        '现有研究',
+        '大量研究',
+        '学者们',
+        '随着.*的发展',
+        '日益增长',
+        '已成为',
+        '普遍认为',
+        '通常认为',
+      ],
+      definition: [
+        '定义为',
+        '被定义为',
+        '根据.*标准',
+        '按照.*定义',
+        '指标.*定义',
+        '协议',
+        '规范',
+        '标准规定',
+        '国际标准',
+        '国家标准',
+        '行业标准',
+      ],
+      method: [
+        '采用.*方法',
+        '基于.*模型',
+        '使用.*算法',
+        '运用.*技术',
+        '借鉴.*框架',
+        '参考.*设计',
+        '引入.*机制',
+        '提出的.*方法',
+        '经典.*算法',
+        '传统.*方法',
+      ],
+      comparison: [
+        '传统方法.*存在',
+        '现有方法.*不足',
+        '相比之下',
+        '优于',
+        '劣于',
+        '对比',
+        '比较',
+        '相较于',
+        '与.*相比',
+        '超过了',
+        '不如',
+      ],
+      statistic: [
+        '占.*比例',
+        '增长了',
+        '下降了',
+        '大规模',
+        '调查显示',
+        '统计表明',
+        '数据显示',
+        '据统计',
+        '\\d+%.*的',
+        '约\\d+',
+        '超过\\d+',
+        '达到\\d+',
+      ],
+    },
+    en: {
+      background: [
+        '\\bin recent years\\b',
+        '\\b(?:attracted|received|gained) (?:much|considerable|increasing|growing|wide) attention\\b',
+        '\\b(?:has|have) been (?:widely|extensively) (?:used|applied|adopted|studied|investigated)\\b',
+        '\\b(?:previous|prior|earlier|existing) (?:studies|work|research|literature)\\b',
+        '\\b(?:many|numerous|several|a number of) studies\\b',
+        '\\bstudies have (?:shown|demonstrated|reported|found)\\b',
+        '\\bit is (?:well|widely|generally|commonly) (?:known|accepted|believed|recognized)\\b',
+        '\\bresearchers have\\b',
+        '\\bhas become\\b',
+        '\\bwith the (?:rapid )?(?:development|advance|growth) of\\b',
+        '\\b(?:growing|increasing) interest\\b',
+      ],
+      definition: [
+        '\\b(?:is|are) defined as\\b',
+        '\\bdefined (?:by|in)\\b',
+        '\\baccording to the .*(?:standard|definition|guideline)s?\\b',
+        '\\bfollowing the definition\\b',
+        '\\b(?:protocol|specification)s?\\b',
+        '\\b(?:ISO|IEEE|IEC|ANSI)\\s?\\d+',
+      ],
+      method: [
+        '\\b(?:adopt|use|employ|apply|follow)(?:s|ed)? (?:the|a|an)? ?.*(?:method|approach|algorithm|model|framework|technique)s?\\b',
+        '\\bbased on (?:the|a|an)? ?.*(?:method|model|framework|algorithm|approach)\\b',
+        '\\b(?:proposed|introduced|developed|described) by\\b',
+        '\\b(?:classic|classical|conventional|traditional|standard|state-of-the-art) (?:method|approach|algorithm|model|technique)s?\\b',
+      ],
+      comparison: [
+        '\\bcompared (?:with|to)\\b',
+        '\\boutperform(?:s|ed|ing)?\\b',
+        '\\bin contrast\\b',
+        '\\b(?:superior|inferior) to\\b',
+        '\\b(?:better|worse) than\\b',
+        '\\bthan (?:existing|previous|traditional|conventional|prior)\\b',
+      ],
+      statistic: [
+        '\\d+(?:\\.\\d+)?\\s?%',
+        '\\b(?:according to|as reported by) .*(?:survey|report|statistics|census)\\b',
+        '\\b(?:statistics|data|surveys?) (?:show|shows|indicate|indicates|suggest|suggests)\\b',
+        '\\b(?:approximately|about|over|more than|nearly|up to) \\d+',
+        '\\b(?:increased|decreased|grew|fell) by\\b',
+        '\\b\\d+(?:\\.\\d+)? (?:million|billion)\\b',
+      ],
+    },
+  },
+  exclusions: {
+    zh: [
+      '本文提出',
+      '本研究',
+      '我们提出',
+      '我们发现',
+      '本工作',
+      '本实验',
+      '本文设计',
+      '本文实现',
+      '我们的方法',
+      '我们的模型',
+    ],
+    en: [
+      '\\bwe (?:propose|present|introduce|develop|design|implement)\\b',
+      '\\bwe (?:find|found|observe|observed|show|showed)\\b',
+      '\\b(?:this|the present|the current) (?:paper|study|work|article)\\b',
+      '\\bin this (?:paper|study|work|article)\\b',
+      '\\bour (?:method|model|approach|results|experiments|framework|findings)\\b',
+      '\\bhere,? we\\b',
+    ],
+  },
 };
 
-// 指示这是作者自己工作的模式（不应引用）
-const OWN_WORK_PATTERNS = [
-  '本文提出',
-  '本研究',
-  '我们提出',
-  '我们发现',
-  '本工作',
-  '本实验',
-  '本文设计',
-  '本文实现',
-  '我们的方法',
-  '我们的模型',
-];
+// 各类原因的基础置信度：背景与统计类陈述最常需要引用，比较类最容易是作者自己的结论
+const BASE_CONFIDENCE: Record<CitationReason, number> = {
+  background: 0.6,
+  statistic: 0.6,
+  definition: 0.55,
+  method: 0.5,
+  comparison: 0.45,
+};
+
+const patternFlags = (language: TextLanguage) => (language === 'en' ? 'i' : '');
+
+export interface CompiledCitationRules {
+  name: string;
+  version: string;
+  patterns: Record<TextLanguage, [CitationReason, RegExp[]][]>;
+  exclusions: Record<TextLanguage, RegExp[]>;
+}
 
-type CitationReason = 'background' | 'definition' | 'method' | 'comparison' | 'statistic';
+// 同一规则集对象只编译一次
+const compiledRuleSets = new WeakMap<CitationRuleSet, CompiledCitationRules>();
 
 /**
- * 检查句子是否指代作者自己的工作。
+ * 把规则集中的模式编译为正则表达式
+ *
+ * @throws {ValidationError} 当某条模式不是有效的正则表达式时，field 为该模式的路径
  */
-function isOwnWork(sentence: string): boolean {
-  for (const pattern of OWN_WORK_PATTERNS) {
-    if (new RegExp(pattern).test(sentence)) {
-      return true;
+export function compileCitationRules(ruleSet: CitationRuleSet): CompiledCitationRules {
+  const cached = compiledRuleSets.get(ruleSet);
+  if (cached) return cached;
+
+  const compile = (pattern: string, language: TextLanguage, field: string) => {
+    try {
+      return new RegExp(pattern, patternFlags(language));
+    } catch (err) {
+      throw new ValidationError(`无效的正则表达式 ${pattern}：${err instanceof Error ? err.message : err}`, field);
+    }
+  };
+
+  const compiled: CompiledCitationRules = {
+    name: ruleSet.name,
+    version: ruleSet.version,
+    patterns: { zh: [], en: [] },
+    exclusions: { zh: [], en: [] },
+  };
+  for (const language of ['zh', 'en'] as TextLanguage[]) {
+    for (const reason of CITATION_REASONS) {
+      const patterns = ruleSet.patterns[language]?.[reason] ?? [];
+      if (patterns.length === 0) continue;
+      compiled.patterns[language].push([
+        reason,
+        patterns.map((pattern, i) => compile(pattern, language, `patterns.${language}.${reason}[${i}]`)),
+      ]);
     }
+    compiled.exclusions[language] = (ruleSet.exclusions[language] ?? []).map((pattern, i) =>
+      compile(pattern, language, `exclusions.${language}[${i}]`)
+    );
   }
-  return false;
+
+  compiledRuleSets.set(ruleSet, compiled);
+  return compiled;
 }
 
 /**
- * Check if a sentence needs citation and return the reason.
+ * Check if a sentence needs citation; return the reason and a confidence in [0, 1].
+ * The reason is the category with the most matching patterns, and every extra match raises the confidence.
  */
-function needsCitation(sentence: string): CitationReason | null {
-  // Skip if it's the author's own work
-  if (isOwnWork(sentence)) {
+function needsCitation(
+  sentence: string,
+  language: TextLanguage,
+  rules: CompiledCitationRules
+): { reason: CitationReason; confidence: number } | null {
+  // Skip if it matches an exclusion (e.g. the author's own work) or is already cited
+  if (rules.exclusions[language].some((pattern) => pattern.test(sentence)) || extractCitationMarkers(sentence).size > 0) {
     return null;
   }
   
-  // Check each category
-  for (const [reason, patterns] of Object.entries(CITATION_PATTERNS)) {
-    for (const pattern of patterns) {
-      if (new RegExp(pattern).test(sentence)) {
-        return reason as CitationReason;
-      }
+  // Count matches in each category
+  let best: CitationReason | null = null;
+  let bestHits = 0;
+  let totalHits = 0;
+  for (const [reason, patterns] of rules.patterns[language]) {
+    const hits = patterns.filter((pattern) => pattern.test(sentence)).length;
+    totalHits += hits;
+    if (hits > bestHits) {
+      best = reason;
+      bestHits = hits;
     }
   }
+  if (!best) {
+    return null;
+  }
   
-  return null;
+  // 过短的句子多为标题或片段，降低置信度
+  const length = language === 'en' ? sentence.split(/\s+/).length : sentence.length;
+  const short = length < (language === 'en' ? 8 : 15);
+  const confidence = BASE_CONFIDENCE[best] + 0.1 * (totalHits - 1) - (short ? 0.15 : 0);
+  return { reason: best, confidence: Math.round(Math.min(0.95, Math.max(0.1, confidence)) * 100) / 100 };
 }
 
+// 英文查询中不作为关键术语的常见词（包括触发引用的提示词）
+const EN_QUERY_STOPWORDS = new Set([
+  'which', 'their', 'there', 'such', 'also', 'more', 'most', 'than', 'into', 'over', 'about', 'other', 'been',
+  'using', 'used', 'based', 'recent', 'years', 'many', 'several', 'numerous', 'studies', 'study', 'research',
+  'work', 'shown', 'show', 'shows', 'widely', 'known', 'well', 'according', 'compared', 'approximately',
+  'method', 'methods', 'approach', 'model', 'models', 'algorithm', 'framework', 'technique', 'increased',
+  'decreased', 'attention', 'become', 'previous', 'prior', 'existing', 'defined', 'have', 'they',
+  'considerable', 'attracted', 'received', 'gained', 'growing', 'increasing', 'interest', 'reported',
+  'extensively', 'generally', 'commonly', 'outperforms', 'outperformed', 'better', 'worse', 'contrast',
+]);
+
 /**
  * 从句子中提取关键术语用于搜索查询。
  * 返回对中文和英文友好的搜索词。
  */
-function extractKeyTerms(sentence: string): string[] {
+function extractKeyTerms(sentence: string, language: TextLanguage): string[] {
   const terms: string[] = [];
   
   // 提取引号中的术语
@@ -150,11 +288,17 @@ function extractKeyTerms(sentence: string): string[] {
   }
   
   // 提取英文术语（避免仅连字符的匹配）
-  const englishMatches = sentence.match(/[A-Za-z][A-Za-z0-9]*(?:-[A-Za-z0-9]+)*/g) || [];
-  for (const match of englishMatches) {
-    if (match.length >= 3 && !/^(the|and|for|with|from|this|that|these|those|are|was|were|been|have|has|had)$/i.test(match)) {
-      terms.push(match);
-    }
+  const englishMatches = (sentence.match(/[A-Za-z][A-Za-z0-9]*(?:-[A-Za-z0-9]+)*/g) || []).filter(
+    (match) => match.length >= 3 && !/^(the|and|for|with|from|this|that|these|those|are|was|were|been|have|has|had)$/i.test(match)
+  );
+  if (language === 'en') {
+    // 英文句子中普通词太多，优先取缩略词和专有名词，其余实词保持原有顺序以便组成短语
+    const words = englishMatches.filter((match) => !EN_QUERY_STOPWORDS.has(match.toLowerCase()));
+    const named = words.filter((word, i) => /[A-Z0-9]/.test(word.slice(1)) || (i > 0 && /^[A-Z]/.test(word)));
+    const others = words.filter((word) => !named.includes(word));
+    terms.push(...named, ...others);
+  } else {
+    terms.push(...englishMatches);
   }
   
   // 提取中文技术术语（粗略启发式：看起来像技术术语的2-6个字符序列）
@@ -170,8 +314,8 @@ function extractKeyTerms(sentence: string): string[] {
 /**
  * 根据句子和原因生成搜索查询。
  */
-function generateQueries(sentence: string, reason: CitationReason): string[] {
-  const keyTerms = extractKeyTerms(sentence);
+function generateQueries(sentence: string, reason: CitationReason, language: TextLanguage): string[] {
+  const keyTerms = extractKeyTerms(sentence, language);
   const queries: string[] = [];
   
   // 基于原因的查询后缀
@@ -200,6 +344,17 @@ function generateQueries(sentence: string, reason: CitationReason): string[] {
   
   const reasonSuffixes = suffixes[reason];
   
+  // 英文草稿只生成英文查询：前几个术语组合后加上原因后缀
+  if (language === 'en') {
+    if (keyTerms.length === 0) {
+      return [`${sentence.split(/\s+/).slice(0, 5).join(' ')} ${reasonSuffixes.en[0]}`];
+    }
+    return [
+      `${keyTerms.slice(0, 3).join(' ')} ${reasonSuffixes.en[0]}`,
+      ...keyTerms.slice(0, 2).map((term) => `${term} ${reasonSuffixes.en[1]}`),
+    ].filter((query, i, all) => all.indexOf(query) === i);
+  }
+  
   // 生成中文查询
   for (const term of keyTerms.slice(0, 2)) {
     for (const suffix of reasonSuffixes.cn.slice(0, 1)) {
@@ -226,31 +381,40 @@ function generateQueries(sentence: string, reason: CitationReason): string[] {
 
 /**
  * 为草稿文本生成引用建议。
- * 返回可能需要引用的句子以及搜索查询。
+ * 返回可能需要引用的句子、搜索查询和置信度；已带引用标记或命中排除模式的句子会被跳过。
+ *
+ * @throws {ValidationError} 当规则集中有无效的正则表达式时
  */
-export function generateCitationSuggestions(draftText: string): {
+export function generateCitationSuggestions(
+  draftText: string,
+  language: TextLanguage = detectLanguage(draftText),
+  ruleSet: CitationRuleSet = DEFAULT_CITATION_RULE_SET
+): {
   rulesVersion: string;
+  ruleSetName: string;
   items: CitationSuggestion[];
 } {
-  const sentences = splitSentencesCN(draftText);
+  const rules = compileCitationRules(ruleSet);
+  const sentences = splitSentences(draftText, language);
   const items: CitationSuggestion[] = [];
   
   for (const sentence of sentences) {
-    const reason = needsCitation(sentence.text);
-    if (reason) {
-      const queries = generateQueries(sentence.text, reason);
+    const verdict = needsCitation(sentence.text, language, rules);
+    if (verdict) {
+      const queries = generateQueries(sentence.text, verdict.reason, language);
       items.push({
         sentenceIndex: sentence.index,
         sentenceText: sentence.text.slice(0, 100) + (sentence.text.length > 100 ? '...' : ''),
-        reason,
+        reason: verdict.reason,
+        confidence: verdict.confidence,
         queries,
       });
     }
   }
   
-  // 限制为合理数量
   return {
-    rulesVersion: RULES_VERSION,
-    items: items.slice(0, 20),
+    rulesVersion: rules.version,
+    ruleSetName: rules.name,
+    items,
   };
 }
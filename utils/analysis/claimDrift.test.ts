@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { assessCertainty, extractNegations } from './claimDrift';
+
+describe('extractNegations', () => {
+  it.each(['检验结果是否显著仍需讨论。', '该方法能否推广有待验证。', '需要校正，否则结果偏高。'])(
+    'ignores words that only look like negations: %s',
+    (sentence) => {
+      expect(extractNegations(sentence)).toEqual([]);
+    }
+  );
+
+  it('ignores 无/非/未 inside technical compounds', () => {
+    expect(extractNegations('采用无线传感器和非线性模型估计未知参数。')).toEqual([]);
+    expect(extractNegations('基于无人机影像训练无监督的非参数模型。')).toEqual([]);
+  });
+
+  it('still finds real negations', () => {
+    expect(extractNegations('差异不显著。')).toEqual(['不']);
+    expect(extractNegations('The effect was not significant.')).toEqual(['not']);
+  });
+});
+
+describe('assessCertainty', () => {
+  it.each(['其作用机制尚不确定。', '作者对该结论不确信。', '长期影响尚不清楚。', '结果不一定成立。'])(
+    'treats %s as hedged',
+    (sentence) => {
+      expect(assessCertainty(sentence).level).toBe('hedged');
+    }
+  );
+
+  it.each(['该因素对结果有一定影响。', '模型具有一定的泛化能力。', '一定程度上缓解了过拟合。', '该方法有一定作用。'])(
+    'does not treat 一定 meaning "some degree of" as assertive: %s',
+    (sentence) => {
+      expect(assessCertainty(sentence).level).toBe('neutral');
+    }
+  );
+
+  it('treats 确定 and 不可能 as assertive', () => {
+    expect(assessCertainty('结果确定有效。').level).toBe('assertive');
+    expect(assessCertainty('这不可能是偶然。').level).toBe('assertive');
+    expect(assessCertainty('该结论一定成立。').level).toBe('assertive');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * 论断漂移检测 - 在对齐的句子对之间比较否定和确定性语气。
+ * 改写中最危险的错误往往不是丢了数字，而是把"不显著"写成"显著"、
+ * 把"may suggest"写成"demonstrates"。
+ */
+
+import type { FidelityAlert, VariantAlignment } from '@papermirror/types';
+
+export type CertaintyLevel = 'hedged' | 'neutral' | 'assertive';
+
+// 第一组是形似否定、实际不表示否定的词（含无线、非线性、未知等术语），匹配后跳过
+const NEGATION_PATTERN = new RegExp(
+  [
+    '(不仅|不只|不但|不断|不同|不少|不久|不管|不论|不过|不得不|无论|无疑|毫无疑问|非常|未来|是否|能否|否则|无线|无机|无人机|无穷|无限|无数|无偏|无监督|非线性|非参数|非对称|非负|未知|\\bnot only\\b|\\bno doubt\\b)',
+    '(没有|并非|不|没|未|无|非|否|\\bnot\\b|n[\'’]t\\b|\\bno\\b|\\bnever\\b|\\bnone\\b|\\bneither\\b|\\bnor\\b|\\bwithout\\b|\\bcannot\\b|\\bfail(?:s|ed)? to\\b|\\bnon-?significant\\b|\\binsignificant\\b)',
+  ].join('|'),
+  'gi'
+);
+
+// 同一位置按顺序取第一个命中的分组，因此"不一定""不确定"记为推测、"不可能"记为断言；
+// "有一定""一定的""一定程度""一定影响"表示"某种程度"，不算断言
+const CERTAINTY_PATTERN = new RegExp(
+  [
+    '(?<hedge>不一定|不确定|不确信|尚不清楚|可能|或许|也许|似乎|大概|大致|推测|暗示|有望|倾向于|在一定程度上|\\bmay\\b|\\bmight\\b|\\bcould\\b|\\bpossibly\\b|\\bperhaps\\b|\\blikely\\b|\\bsuggest(?:s|ed)?\\b|\\bappears? to\\b|\\bseems? to\\b|\\bpresumably\\b|\\bpotentially\\b|\\bto some extent\\b)',
+    '(?<booster>不可能|证明|证实|确证|显然|无疑|毫无疑问|必然|(?<!有)一定(?!的|程度|影响)|确定|确实|充分说明|\\bprove[sd]?\\b|\\bproven\\b|\\bdemonstrat(?:e|es|ed)\\b|\\bconfirm(?:s|ed)?\\b|\\bestablish(?:es|ed)?\\b|\\bclearly\\b|\\bundoubtedly\\b|\\bdefinitely\\b|\\bcertainly\\b|\\bconclusively\\b)',
+    '(?<neutral>表明|显示|说明|\\bindicat(?:e|es|ed)\\b|\\bshow(?:s|ed|n)?\\b|\\breveal(?:s|ed)?\\b)',
+  ].join('|'),
+  'gi'
+);
+
+const LEVEL_RANK: Record<CertaintyLevel, number> = { hedged: 0, neutral: 1, assertive: 2 };
+
+const LEVEL_LABELS: Record<CertaintyLevel, string> = {
+  hedged: '推测',
+  neutral: '陈述',
+  assertive: '断言',
+};
+
+/**
+ * 提取句子中的否定标记
+ */
+export function extractNegations(text: string): string[] {
+  const markers: string[] = [];
+  for (const match of text.matchAll(NEGATION_PATTERN)) {
+    if (match[2]) markers.push(match[2]);
+  }
+  return markers;
+}
+
+/**
+ * 评估句子的确定性：有弱化词且无强化词为推测，有强化词且无弱化词为断言，其余为陈述
+ */
+export function assessCertainty(text: string): { level: CertaintyLevel; cues: string[] } {
+  const hedges: string[] = [];
+  const boosters: string[] = [];
+  const neutral: string[] = [];
+  for (const match of text.matchAll(CERTAINTY_PATTERN)) {
+    const groups = match.groups ?? {};
+    if (groups.hedge) hedges.push(groups.hedge);
+    else if (groups.booster) boosters.push(groups.booster);
+    else if (groups.neutral) neutral.push(groups.neutral);
+  }
+
+  const level: CertaintyLevel = hedges.length > 0 && boosters.length === 0
+    ? 'hedged'
+    : boosters.length > 0 && hedges.length === 0
+      ? 'assertive'
+      : 'neutral';
+  return { level, cues: [...hedges, ...boosters, ...neutral] };
+}
+
+const quoteCues = (cues: string[]) => (cues.length ? cues.map((cue) => `“${cue}”`).join('、') : '无');
+
+/**
+ * 在每个对齐的句子对上检测否定翻转和确定性变化；删除或新增的句子没有对应句，不参与比较
+ */
+export function detectClaimDrift(alignment: VariantAlignment): FidelityAlert[] {
+  const alerts: FidelityAlert[] = [];
+
+  for (const pair of alignment.pairs) {
+    if (pair.draft.length === 0 || pair.rewritten.length === 0) continue;
+    const draftSentence = pair.draft.map((i) => alignment.draftSentences[i]).join(' ');
+    const rewrittenSentence = pair.rewritten.map((i) => alignment.rewrittenSentences[i]).join(' ');
+    if (draftSentence === rewrittenSentence) continue;
+
+    const location = {
+      sentenceIndex: pair.draft[0],
+      rewrittenSentenceIndex: pair.rewritten[0],
+      draftSentence,
+      rewrittenSentence,
+    };
+
+    // 否定标记个数的奇偶不同即视为极性翻转，双重否定不会误报
+    const draftNegations = extractNegations(draftSentence);
+    const rewrittenNegations = extractNegations(rewrittenSentence);
+    if (draftNegations.length % 2 !== rewrittenNegations.length % 2) {
+      const removed = draftNegations.length % 2 === 1;
+      alerts.push({
+        type: 'negation_flip',
+        ...location,
+        token: removed ? draftNegations[0] : undefined,
+        detail: removed
+          ? `否定被去掉：草稿中的${quoteCues(draftNegations)}在改写中没有对应`
+          : `新增否定：改写中出现${quoteCues(rewrittenNegations)}`,
+      });
+    }
+
+    const draftCertainty = assessCertainty(draftSentence);
+    const rewrittenCertainty = assessCertainty(rewrittenSentence);
+    if (draftCertainty.level !== rewrittenCertainty.level) {
+      const stronger = LEVEL_RANK[rewrittenCertainty.level] > LEVEL_RANK[draftCertainty.level];
+      alerts.push({
+        type: 'certainty_shift',
+        ...location,
+        token: draftCertainty.cues[0],
+        detail:
+          `确定性${stronger ? '增强' : '减弱'}：${LEVEL_LABELS[draftCertainty.level]} → ${LEVEL_LABELS[rewrittenCertainty.level]}` +
+          `（${quoteCues(draftCertainty.cues)} → ${quoteCues(rewrittenCertainty.cues)}）`,
+      });
+    }
+  }
+
+  return alerts;
+}
@@ -1,42 +1,12 @@
 /**
  * 保真度护栏 - 确保重写过程中保留重要信息。
- * 比较草稿与重写后的标准版，以检测信息丢失。
+ * 比较草稿与重写后的版本，检查数字、缩略词、量值与单位、引用标记、公式和图表引用是否丢失。
  */
 
-import type { FidelityGuardrails, FidelityAlert } from '@papermirror/types';
-import { splitSentencesCN } from './text';
-
-/**
- * 从文本中提取数字（包括小数、百分比等）
- */
-export function extractNumbers(text: string): Set<string> {
-  const numbers = new Set<string>();
-  
-  // 匹配各种数字格式：
-  // - 简单整数：123
-  // - 小数：12.34
-  // - 百分比：85%, 85.5%
-  // - 科学计数法：1.5e-3, 2E6
-  // - 带单位的数字：10mm, 5kg, 100℃
-  const patterns = [
-    /\d+(?:\.\d+)?%/g,                    // 百分比
-    /\d+(?:\.\d+)?[eE][+-]?\d+/g,         // 科学计数法
-    /\d+(?:\.\d+)?(?:mm|cm|m|km|mg|g|kg|ml|L|℃|°C|Hz|kHz|MHz|GHz|ms|s|min|h)/gi, // 带单位
-    /\d+\.\d+/g,                          // 小数
-    /\d{2,}/g,                            // 整数（2位以上，避免单位数）
-  ];
-  
-  for (const pattern of patterns) {
-    const matches = text.match(pattern) || [];
-    for (const match of matches) {
-      // 标准化：移除末尾的零和常见变体
-      const normalized = match.toLowerCase().replace(/\.0+$/, '');
-      numbers.add(normalized);
-    }
-  }
-  
-  return numbers;
-}
+import type { FidelityGuardrails, FidelityAlert, VariantAlignment } from '@papermirror/types';
+import { splitSentences } from './text';
+import { extractNumbers } from './numbers';
+import { detectClaimDrift } from './claimDrift';
 
 /**
  * 从文本中提取英文首字母缩略词和缩写。
@@ -67,15 +37,141 @@ export function extractAcronyms(text: string): Set<string> {
   return acronyms;
 }
 
+// 以下提取函数返回 规范形式 → 原文中首次出现的写法，
+// 规范形式用于比较（忽略空格、全半角、连接符差异），原文写法用于定位和高亮
+
+const UNITS = [
+  // 长度、质量、体积
+  'nm', 'μm', 'µm', 'mm', 'cm', 'km', 'm', 'μg', 'µg', 'mg', 'kg', 'g', 'μL', 'µL', 'mL', 'ml', 'L',
+  // 温度、时间、频率
+  '°C', '℃', 'K', 'ms', 'μs', 'µs', 'ns', 's', 'min', 'h', 'Hz', 'kHz', 'MHz', 'GHz',
+  // 电学、能量、压强
+  'mV', 'kV', 'V', 'mA', 'μA', 'µA', 'mW', 'kW', 'MW', 'W', 'kJ', 'kcal', 'Pa', 'kPa', 'MPa', 'GPa',
+  // 浓度、其他
+  'mol', 'mmol', 'μmol', 'µmol', 'mM', 'μM', 'µM', 'nM', 'dB', 'rpm', 'px', 'KB', 'MB', 'GB', 'TB',
+  // 中文单位
+  '毫米', '厘米', '千米', '公里', '米', '毫克', '千克', '公斤', '克', '毫升', '升', '摄氏度', '毫秒', '秒', '分钟', '小时',
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 数值、可选的区间上限（10–20、10 to 20）、可选的不确定度（± 0.5），然后是单位
+const QUANTITY_PATTERN = new RegExp(
+  '(?<![\\w.])\\d+(?:\\.\\d+)?' +
+    '(?:[ \\t\\u00a0\\u2009]*(?:[-–—~～]|\\s+to\\s+)[ \\t\\u00a0\\u2009]*\\d+(?:\\.\\d+)?)?' +
+    '(?:[ \\t\\u00a0\\u2009]*(?:±|\\+\\/-|\\+-)[ \\t\\u00a0\\u2009]*\\d+(?:\\.\\d+)?)?' +
+    '[ \\t\\u00a0\\u2009]*' +
+    `(?:${[...UNITS].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})` +
+    '(?![A-Za-z])',
+  'g'
+);
+
+const CITATION_PATTERNS = [
+  /(?<!\\)\[\d+(?:\s*[-–—,，]\s*\d+)*\]/g,                                        // [12], [3-5], [1, 4]
+  /[(（][A-Z\u4e00-\u9fa5][^()（）\n]{0,80}?[,，]?\s*(?:19|20)\d{2}[a-z]?(?:\s*[;；]\s*[^()（）\n]{1,80}?[,，]?\s*(?:19|20)\d{2}[a-z]?)*[)）]/g, // (Smith et al., 2020)
+  /[A-Z][A-Za-z'’-]+(?:\s+et al\.)?\s*\((?:19|20)\d{2}[a-z]?\)/g,                 // Smith (2020)
+  /\\cite[a-zA-Z]*\*?(?:\[[^\]]*\])*\{[^}]+\}/g,                                  // \cite{key}
+];
+
+// 先匹配行间公式并从文本中抹去，避免其中的 $...$ 被重复计为行内公式
+const MATH_PATTERNS = [
+  /\\begin\{(equation|align|gather|multline|eqnarray)(\*?)\}[\s\S]+?\\end\{\1\2\}/g,
+  /\$\$[\s\S]+?\$\$/g,
+  /\\\[[\s\S]+?\\\]/g,
+  /\\\([\s\S]+?\\\)/g,
+  /(?<![\\$])\$(?=[^\s$])[^$\n]+?(?<=\S)\$(?![$\d])/g,
+];
+
+const FIGURE_TABLE_PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => string]> = [
+  [/\b(Fig(?:ure)?s?\.?|Tab(?:le)?s?\.?)\s*(\d+(?:\.\d+)?[a-z]?)/gi,
+    (m) => `${/^fig/i.test(m[1]) ? 'fig' : 'tab'}:${m[2].toLowerCase()}`],
+  [/([图表])\s*(\d+(?:[.-]\d+)?[a-z]?)/g,
+    (m) => `${m[1] === '图' ? 'fig' : 'tab'}:${m[2].replace('-', '.').toLowerCase()}`],
+];
+
+const addItem = (items: Map<string, string>, key: string, raw: string) => {
+  if (!items.has(key)) items.set(key, raw);
+};
+
+/**
+ * 提取带单位的量值，包括区间（10–20 ℃）和不确定度（5.2 ± 0.3 mm）
+ */
+export function extractQuantities(text: string): Map<string, string> {
+  const items = new Map<string, string>();
+  for (const match of text.matchAll(QUANTITY_PATTERN)) {
+    const key = match[0]
+      .replace(/\s+to\s+/g, '-')
+      .replace(/\s+/g, '')
+      .replace(/[–—~～]/g, '-')
+      .replace(/\+\/?-/g, '±')
+      .replace(/℃|摄氏度/g, '°C')
+      .replace(/µ/g, 'μ');
+    addItem(items, key, match[0]);
+  }
+  return items;
+}
+
+/**
+ * 提取正文中的引用标记：[12]、[3-5]、(Smith et al., 2020)、\cite{key}
+ */
+export function extractCitationMarkers(text: string): Map<string, string> {
+  const items = new Map<string, string>();
+  for (const pattern of CITATION_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const key = match[0]
+        .replace(/\s+/g, '')
+        .replace(/（/g, '(')
+        .replace(/）/g, ')')
+        .replace(/，/g, ',')
+        .replace(/；/g, ';')
+        .replace(/[–—]/g, '-');
+      addItem(items, key, match[0]);
+    }
+  }
+  return items;
+}
+
+/**
+ * 提取行内与行间 LaTeX 公式
+ */
+export function extractEquations(text: string): Map<string, string> {
+  const items = new Map<string, string>();
+  let remaining = text;
+  for (const pattern of MATH_PATTERNS) {
+    remaining = remaining.replace(pattern, (match) => {
+      addItem(items, match.replace(/\s+/g, ''), match);
+      return ' '.repeat(match.length);
+    });
+  }
+  return items;
+}
+
+/**
+ * 提取图表引用：图3、表 2、Fig. 3、Figure 3、Table 2
+ */
+export function extractFigureTableRefs(text: string): Map<string, string> {
+  const items = new Map<string, string>();
+  for (const [pattern, normalize] of FIGURE_TABLE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      addItem(items, normalize(match), match[0]);
+    }
+  }
+  return items;
+}
+
+// 缩略词的规范形式即原文写法
+const identityItems = (items: Set<string>): Map<string, string> =>
+  new Map([...items].map((item) => [item, item]));
+
 /**
  * 计算两个集合之间的保留率。
  * 返回保留的原始项目的百分比。
  */
-function calculateRetentionRate(original: Set<string>, rewritten: Set<string>): number {
+function calculateRetentionRate(original: Map<string, string>, rewritten: Map<string, string>): number {
   if (original.size === 0) return 100;
   
   let retained = 0;
-  for (const item of original) {
+  for (const item of original.keys()) {
     if (rewritten.has(item)) {
       retained++;
     }
@@ -85,73 +181,110 @@ function calculateRetentionRate(original: Set<string>, rewritten: Set<string>):
 }
 
 /**
- * 查找原始文本中在重写文本中缺失的项目。
+ * 查找原始文本中在重写文本中缺失的项目，返回其原文写法。
  */
-function findMissingItems(original: Set<string>, rewritten: Set<string>): string[] {
+function findMissingItems(original: Map<string, string>, rewritten: Map<string, string>): string[] {
   const missing: string[] = [];
-  for (const item of original) {
+  for (const [item, raw] of original) {
     if (!rewritten.has(item)) {
-      missing.push(item);
+      missing.push(raw);
     }
   }
   return missing;
 }
 
+// 公式等较长的项目在警报中只显示开头
+const preview = (raw: string) => {
+  const flat = raw.replace(/\s+/g, ' ');
+  return flat.length > 40 ? `${flat.slice(0, 40)}…` : flat;
+};
+
 /**
- * 尝试在原始文本中定位令牌并返回大致的句子索引。
+ * 定位缺失令牌所在的草稿句子及其在标准版中的对应句子。
+ * 有句子对齐时，优先选择改写后确实丢失该令牌的句子；否则取第一个包含令牌的句子。
  */
-function findSentenceIndex(text: string, token: string): number {
-  const sentences = splitSentencesCN(text);
-  for (const sentence of sentences) {
-    if (sentence.text.includes(token)) {
-      return sentence.index;
-    }
-  }
-  return -1;
+function locateToken(
+  token: string,
+  draftSentences: string[],
+  alignment?: VariantAlignment
+): Pick<FidelityAlert, 'sentenceIndex' | 'rewrittenSentenceIndex'> {
+  // 跨句的行间公式只用首行定位
+  const probe = token.trim().split('\n')[0].trim() || token;
+  const candidates = draftSentences
+    .map((text, index) => ({ text, index }))
+    .filter((sentence) => sentence.text.includes(probe))
+    .map((sentence) => sentence.index);
+  if (candidates.length === 0) return { sentenceIndex: -1 };
+  if (!alignment) return { sentenceIndex: candidates[0] };
+
+  const rewrittenOf = (draftIndex: number) =>
+    alignment.pairs.find((pair) => pair.draft.includes(draftIndex))?.rewritten ?? [];
+  const lost = candidates.find((index) =>
+    rewrittenOf(index).every((i) => !alignment.rewrittenSentences[i].includes(probe))
+  );
+  const sentenceIndex = lost ?? candidates[0];
+  const rewritten = rewrittenOf(sentenceIndex);
+  return rewritten.length > 0
+    ? { sentenceIndex, rewrittenSentenceIndex: rewritten[0] }
+    : { sentenceIndex };
 }
 
+const FIDELITY_CHECKS: Array<{
+  type: FidelityAlert['type'];
+  label: string;
+  extract: (text: string) => Map<string, string>;
+}> = [
+  { type: 'number_loss', label: '数字', extract: extractNumbers },
+  { type: 'acronym_change', label: '缩略词', extract: (text) => identityItems(extractAcronyms(text)) },
+  { type: 'unit_loss', label: '量值', extract: extractQuantities },
+  { type: 'citation_loss', label: '引用标记', extract: extractCitationMarkers },
+  { type: 'equation_loss', label: '公式', extract: extractEquations },
+  { type: 'figure_table_loss', label: '图表引用', extract: extractFigureTableRefs },
+];
+
 /**
- * 计算保真度护栏，比较草稿和重写的标准版。
+ * 计算保真度护栏，比较草稿和重写后的版本。
+ * 传入两者的句子对齐时，警报的句子索引以对齐的句子列表为准，并附带改写版本中的对应句子，
+ * 同时逐句检查否定翻转和确定性变化。
  */
 export function calculateFidelityGuardrails(
   draftText: string,
-  standardText: string
+  rewrittenText: string,
+  alignment?: VariantAlignment
 ): FidelityGuardrails {
-  const draftNumbers = extractNumbers(draftText);
-  const standardNumbers = extractNumbers(standardText);
-  const draftAcronyms = extractAcronyms(draftText);
-  const standardAcronyms = extractAcronyms(standardText);
-  
-  const numberRetentionRate = calculateRetentionRate(draftNumbers, standardNumbers);
-  const acronymRetentionRate = calculateRetentionRate(draftAcronyms, standardAcronyms);
-  
+  const draftSentences = alignment
+    ? alignment.draftSentences
+    : splitSentences(draftText).map((sentence) => sentence.text);
   const alerts: FidelityAlert[] = [];
-  
-  // 生成缺失数字的警报
-  const missingNumbers = findMissingItems(draftNumbers, standardNumbers);
-  for (const num of missingNumbers.slice(0, 5)) { // 限制为5个警报
-    const sentenceIndex = findSentenceIndex(draftText, num);
-    alerts.push({
-      type: 'number_loss',
-      sentenceIndex,
-      detail: `缺失数字: ${num}`,
-    });
+  const rates = {} as Record<FidelityAlert['type'], number>;
+
+  for (const check of FIDELITY_CHECKS) {
+    const draftItems = check.extract(draftText);
+    const rewrittenItems = check.extract(rewrittenText);
+    rates[check.type] = calculateRetentionRate(draftItems, rewrittenItems);
+
+    for (const raw of findMissingItems(draftItems, rewrittenItems)) {
+      alerts.push({
+        type: check.type,
+        ...locateToken(raw, draftSentences, alignment),
+        token: raw,
+        detail: `缺失${check.label}: ${preview(raw)}`,
+      });
+    }
   }
-  
-  // 生成缺失缩略词的警报
-  const missingAcronyms = findMissingItems(draftAcronyms, standardAcronyms);
-  for (const acronym of missingAcronyms.slice(0, 5)) { // 限制为5个警报
-    const sentenceIndex = findSentenceIndex(draftText, acronym);
-    alerts.push({
-      type: 'acronym_change',
-      sentenceIndex,
-      detail: `缺失缩略词: ${acronym}`,
-    });
+
+  // 否定和确定性语气需要逐句比较，只在有句子对齐时检查
+  if (alignment) {
+    alerts.push(...detectClaimDrift(alignment));
   }
   
   return {
-    numberRetentionRate,
-    acronymRetentionRate,
+    numberRetentionRate: rates.number_loss,
+    acronymRetentionRate: rates.acronym_change,
+    unitRetentionRate: rates.unit_loss,
+    citationRetentionRate: rates.citation_loss,
+    equationRetentionRate: rates.equation_loss,
+    figureTableRetentionRate: rates.figure_table_loss,
     alerts,
   };
 }
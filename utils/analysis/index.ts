@@ -2,13 +2,43 @@
  * Analysis utilities - export all analysis functions.
  */
 
-export { normalizeText, splitSentencesCN, isMarkdownHeading, getBodyText } from './text';
+export {
+  normalizeText,
+  detectLanguage,
+  tokenizeWords,
+  segmentWords,
+  splitSentences,
+  splitSentencesCN,
+  splitSentencesEN,
+  isMarkdownHeading,
+  getBodyText
+} from './text';
 export type { Sentence } from './text';
 
-export { calculateMetrics, WORD_LISTS } from './metrics';
+export { calculateMetrics, averageMetrics, aggregateMetrics, mergeAggregates, WORD_LISTS } from './metrics';
 
 export { calculateMirrorScore, generateMirrorScore } from './mirrorScore';
 
-export { extractNumbers, extractAcronyms, calculateFidelityGuardrails } from './fidelity';
+export { alignSentences, alignSentenceLists, sentenceSimilarity } from './alignment';
 
-export { generateCitationSuggestions } from './citationHints';
+export { extractNumbers, parseChineseInteger } from './numbers';
+
+export {
+  extractAcronyms,
+  extractQuantities,
+  extractCitationMarkers,
+  extractEquations,
+  extractFigureTableRefs,
+  calculateFidelityGuardrails
+} from './fidelity';
+
+export { extractNegations, assessCertainty, detectClaimDrift } from './claimDrift';
+export type { CertaintyLevel } from './claimDrift';
+
+export {
+  CITATION_REASONS,
+  DEFAULT_CITATION_RULE_SET,
+  compileCitationRules,
+  generateCitationSuggestions
+} from './citationHints';
+export type { CompiledCitationRules } from './citationHints';
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../../src/errors';
+import { createStyleProfile, mergeIntoProfile } from '../styleProfiles';
+import { aggregateMetrics, calculateMetrics, mergeAggregates } from './metrics';
+
+const zhA = calculateMetrics('本研究提出了一种新的方法。实验结果表明该方法有效，并且在多个数据集上取得了较好的表现。');
+const zhB = calculateMetrics('我们分析了模型的误差来源。此外，还讨论了参数设置对结果的影响。');
+const en = calculateMetrics('We propose a new method. Experiments show that it performs well on several datasets.');
+
+describe('aggregateMetrics', () => {
+  it('averages samples of the same language', () => {
+    const { mean, spread } = aggregateMetrics([zhA, zhB]);
+    expect(mean.language).toBe('zh');
+    expect(mean.sentenceLength.mean).toBeCloseTo((zhA.sentenceLength.mean + zhB.sentenceLength.mean) / 2, 1);
+    expect(spread.sampleCount).toBe(2);
+  });
+
+  it('rejects samples in different languages', () => {
+    expect(() => aggregateMetrics([zhA, en])).toThrow(ValidationError);
+    expect(() => mergeAggregates(aggregateMetrics([zhA]), aggregateMetrics([en]))).toThrow(ValidationError);
+  });
+});
+
+describe('mergeIntoProfile', () => {
+  it('rejects samples whose language differs from the profile', () => {
+    const profile = createStyleProfile('中文期刊', [{ name: 'a.md', metrics: zhA }]);
+    expect(() => mergeIntoProfile(profile, [{ name: 'b.md', metrics: en }])).toThrow(/b\.md/);
+    expect(mergeIntoProfile(profile, [{ name: 'c.md', metrics: zhB }]).sampleNames).toEqual(['a.md', 'c.md']);
+  });
+});
+
+describe('calculateMetrics', () => {
+  it('computes Flesch readability for English only', () => {
+    expect(en.readability).toBeGreaterThan(0);
+    expect(zhA.readability).toBeUndefined();
+    expect(aggregateMetrics([zhA, zhB]).mean.readability).toBeUndefined();
+  });
+
+  it('does not count 被试 as a passive marker', () => {
+    expect(calculateMetrics('被试完成了两项任务。共有三十名被试参加实验。').passiveVoicePercentage).toBe(0);
+    expect(calculateMetrics('该方法被广泛采用。被试完成了任务。').passiveVoicePercentage).toBe(50);
+  });
+
+  it('drops readability when merging with metrics saved without it', () => {
+    const legacy = { ...zhA, readability: 40 };
+    expect(mergeAggregates(aggregateMetrics([legacy]), aggregateMetrics([zhB])).mean.readability).toBeUndefined();
+  });
+});
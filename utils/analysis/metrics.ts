@@ -1,28 +1,87 @@
 /**
  * 风格指标计算 - 用于三方比较（范文 vs 草稿 vs 标准版）。
+ * 中文句长按字符计，英文句长按单词计。
+ * 被动语态、词汇复杂度与 StyleGuide 中由 LLM 估计的字段一一对应，可用于核对。
  */
 
-import type { DetailedMetrics } from '@papermirror/types';
-import { splitSentencesCN, getBodyText, normalizeText } from './text';
+import type { DetailedMetrics, MetricsAggregate, TextLanguage } from '@papermirror/types';
+import { splitSentences, getBodyText, detectLanguage, tokenizeWords, segmentWords } from './text';
+import { ValidationError } from '../../src/errors';
 
-// 连接词列表（中文学术写作）
-const CONNECTOR_WORDS = {
-  causal: ['因此', '所以', '由于', '因为', '故', '从而', '以致', '导致', '因而', '于是'],
-  adversative: ['然而', '但是', '不过', '尽管', '虽然', '却', '但', '可是', '反而', '相反'],
-  additive: ['此外', '另外', '同时', '并且', '而且', '以及', '再者', '还', '也', '又'],
-  emphatic: ['尤其', '特别', '值得注意的是', '需要指出的是', '显然', '明显', '重要的是', '关键是'],
+type ConnectorCategory = 'causal' | 'adversative' | 'additive' | 'emphatic';
+
+// 连接词列表（学术写作）
+const CONNECTOR_WORDS: Record<TextLanguage, Record<ConnectorCategory, string[]>> = {
+  zh: {
+    causal: ['因此', '所以', '由于', '因为', '故', '从而', '以致', '导致', '因而', '于是'],
+    adversative: ['然而', '但是', '不过', '尽管', '虽然', '却', '但', '可是', '反而', '相反'],
+    additive: ['此外', '另外', '同时', '并且', '而且', '以及', '再者', '还', '也', '又'],
+    emphatic: ['尤其', '特别', '值得注意的是', '需要指出的是', '显然', '明显', '重要的是', '关键是'],
+  },
+  en: {
+    causal: ['therefore', 'thus', 'hence', 'consequently', 'because', 'as a result', 'accordingly', 'due to', 'thereby'],
+    adversative: ['however', 'but', 'although', 'though', 'whereas', 'nevertheless', 'nonetheless', 'in contrast', 'on the other hand', 'yet', 'despite'],
+    additive: ['moreover', 'furthermore', 'additionally', 'in addition', 'also', 'besides', 'likewise', 'similarly'],
+    emphatic: ['notably', 'particularly', 'especially', 'indeed', 'in particular', 'clearly', 'importantly', 'it is worth noting'],
+  },
+};
+
+// AI 生成文本中常见的模板短语（正则源码；英文不区分大小写）
+const TEMPLATE_PHRASES: Record<TextLanguage, string[]> = {
+  zh: [
+    '本文首先', '本文其次', '本文最后', '本文提出',
+    '综上所述', '总而言之', '总的来说',
+    '众所周知', '不言而喻', '毋庸置疑',
+    '近年来', '随着.*的发展', '受到广泛关注',
+    '具有重要意义', '具有重要的理论和实践价值',
+    '研究表明', '结果表明', '实验表明',
+    '进行了.*研究', '开展了.*工作',
+  ],
+  en: [
+    'in this (?:paper|work|study),? we', 'in conclusion', 'to sum up', 'in summary',
+    'it is well known that', 'it is worth noting that', 'needless to say',
+    'in recent years', 'with the (?:rapid )?development of', 'has (?:attracted|received) (?:much|considerable|increasing|widespread) attention',
+    'plays? an? (?:important|crucial|vital|key) role', 'of great significance', 'to the best of our knowledge',
+    '(?:results|experiments|studies) (?:show|demonstrate|indicate) that',
+    'delves? into', 'sheds? light on', 'a wide range of', 'paves? the way',
+  ],
+};
+
+// 长句阈值（中文按字符，英文按单词）
+const LONG_SENTENCE_THRESHOLD: Record<TextLanguage, number> = {
+  zh: 50,
+  en: 30,
+};
+
+// 被动句识别（按句判断）
+const PASSIVE_PATTERNS: Record<TextLanguage, RegExp> = {
+  // 被 + 动作（"被试"是名词，除外）；受（到）+ 影响/限制等；由 + 施事 + 动词；为……所
+  zh: /被(?!试)|受到?[^，。；]{0,12}(?:影响|限制|制约|约束|启发|关注|重视|欢迎|青睐)|由[^，。；]{0,15}(?:提出|完成|设计|开发|构成|组成|决定|引起|负责|提供|实现|给出|控制)|为[^，。；]{0,10}所/,
+  // be 动词 +（可选副词）+ 过去分词（规则 -ed 或常见不规则形式）
+  en: /\b(?:am|is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?(?:\w+ed|begun|built|bought|brought|caught|chosen|done|drawn|driven|found|given|grown|held|hidden|kept|known|laid|led|left|lost|made|meant|met|paid|put|read|run|said|seen|sent|set|shown|sought|spent|taken|taught|told|thought|understood|won|written)\b/i,
+};
+
+// 虚词表：不计入词汇密度的功能词
+const FUNCTION_WORDS: Record<TextLanguage, Set<string>> = {
+  zh: new Set([
+    '的', '地', '得', '了', '着', '过', '是', '在', '和', '与', '及', '或', '而', '也', '都', '就', '才',
+    '把', '被', '对', '从', '以', '为', '于', '之', '其', '这', '那', '该', '此', '等', '中', '上', '下',
+    '个', '种', '些', '一', '不', '没有', '有', '将', '会', '能', '可', '可以', '并', '且', '但', '却',
+    '我们', '本文', '他们', '它', '其中', '所', '则', '即', '如', '若', '如果', '因为', '所以', '由于', '通过',
+  ]),
+  en: new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'nor', 'so', 'yet', 'of', 'in', 'on', 'at', 'by', 'for', 'with',
+    'from', 'to', 'into', 'onto', 'over', 'under', 'about', 'as', 'than', 'that', 'this', 'these', 'those',
+    'which', 'who', 'whom', 'whose', 'what', 'it', 'its', 'we', 'our', 'us', 'they', 'their', 'them', 'he',
+    'she', 'his', 'her', 'i', 'you', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'do', 'does',
+    'did', 'have', 'has', 'had', 'will', 'would', 'shall', 'should', 'can', 'could', 'may', 'might', 'must',
+    'not', 'no', 'if', 'then', 'there', 'here', 'when', 'where', 'while', 'because', 'since', 'although',
+    'though', 'also', 'such', 'both', 'each', 'either', 'neither', 'all', 'any', 'some', 'between', 'through',
+  ]),
 };
 
-// AI 生成文本中常见的模板短语
-const TEMPLATE_PHRASES = [
-  '本文首先', '本文其次', '本文最后', '本文提出',
-  '综上所述', '总而言之', '总的来说',
-  '众所周知', '不言而喻', '毋庸置疑',
-  '近年来', '随着.*的发展', '受到广泛关注',
-  '具有重要意义', '具有重要的理论和实践价值',
-  '研究表明', '结果表明', '实验表明',
-  '进行了.*研究', '开展了.*工作',
-];
+// 词型/词例比的滑动窗口大小，使长短不同的文本可比
+const TTR_WINDOW = 100;
 
 /**
  * 计算排序数组的百分位数。
@@ -60,19 +119,80 @@ function countPattern(text: string, pattern: string | RegExp): number {
   return (text.match(pattern) || []).length;
 }
 
+/**
+ * 计算词表中词语的出现次数。
+ * 中文按子串匹配；英文按整词匹配且不区分大小写，避免 "though" 命中 "although"。
+ */
+function countWord(text: string, word: string, language: TextLanguage): number {
+  if (language === 'zh') return countPattern(text, word);
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+  return countPattern(text, new RegExp(`\\b${escaped}\\b`, 'gi'));
+}
+
+/**
+ * 计算词型/词例比（MATTR）：在固定窗口内求比值后取平均，短于窗口时退化为整体比值。
+ */
+function typeTokenRatio(words: string[]): number {
+  if (words.length === 0) return 0;
+  const normalized = words.map((word) => word.toLowerCase());
+  if (normalized.length <= TTR_WINDOW) {
+    return new Set(normalized).size / normalized.length;
+  }
+
+  // 维护窗口内各词的计数，逐步滑动
+  const counts = new Map<string, number>();
+  for (const word of normalized.slice(0, TTR_WINDOW)) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  let total = counts.size;
+  for (let i = TTR_WINDOW; i < normalized.length; i++) {
+    const removed = normalized[i - TTR_WINDOW];
+    const remaining = counts.get(removed)! - 1;
+    if (remaining === 0) counts.delete(removed);
+    else counts.set(removed, remaining);
+    const added = normalized[i];
+    counts.set(added, (counts.get(added) ?? 0) + 1);
+    total += counts.size;
+  }
+  return total / (normalized.length - TTR_WINDOW + 1) / TTR_WINDOW;
+}
+
+/**
+ * 估算英文单词的音节数（元音组计数，去掉词尾不发音的 e）。
+ */
+function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]+/g);
+  return Math.max(groups?.length ?? 0, 1);
+}
+
+/**
+ * Flesch 易读度：206.835 − 1.015 × 每句词数 − 84.6 × 每词音节数，截断到 0-100。
+ * 公式的系数按英文标定，中文文本不计算。
+ */
+function fleschReadingEase(words: string[], sentenceCount: number): number {
+  if (words.length === 0 || sentenceCount === 0) return 0;
+  const syllables = words.reduce((acc, word) => acc + countSyllables(word), 0);
+  const score = 206.835 - 1.015 * (words.length / sentenceCount) - 84.6 * (syllables / words.length);
+  return Math.min(Math.max(score, 0), 100);
+}
+
 /**
  * 计算给定文本的详细指标。
+ * 未指定语言时自动检测。
  */
-export function calculateMetrics(text: string): DetailedMetrics {
-  const normalized = normalizeText(text);
+export function calculateMetrics(text: string, language: TextLanguage = detectLanguage(text)): DetailedMetrics {
   const bodyText = getBodyText(text);
-  const sentences = splitSentencesCN(text);
+  const sentences = splitSentences(text, language);
   const textLength = bodyText.length;
   
   // 句子长度统计
-  const sentenceLengths = sentences.map(s => s.text.length);
+  const sentenceLengths = sentences.map(s =>
+    language === 'en' ? tokenizeWords(s.text).length : s.text.length
+  );
   const sortedLengths = [...sentenceLengths].sort((a, b) => a - b);
-  const longSentences = sentenceLengths.filter(len => len > 50);
+  const longSentences = sentenceLengths.filter(len => len > LONG_SENTENCE_THRESHOLD[language]);
   
   const sentenceLength = {
     mean: Math.round(mean(sentenceLengths) * 10) / 10,
@@ -97,33 +217,25 @@ export function calculateMetrics(text: string): DetailedMetrics {
   };
   
   // 连接词计数
+  const connectors = CONNECTOR_WORDS[language];
+  const countCategory = (category: ConnectorCategory) =>
+    connectors[category].reduce((acc, word) => acc + countWord(bodyText, word, language), 0);
+
   const connectorCounts = {
-    causal: 0,
-    adversative: 0,
-    additive: 0,
-    emphatic: 0,
+    causal: countCategory('causal'),
+    adversative: countCategory('adversative'),
+    additive: countCategory('additive'),
+    emphatic: countCategory('emphatic'),
     total: 0,
   };
-  
-  for (const word of CONNECTOR_WORDS.causal) {
-    connectorCounts.causal += countPattern(bodyText, word);
-  }
-  for (const word of CONNECTOR_WORDS.adversative) {
-    connectorCounts.adversative += countPattern(bodyText, word);
-  }
-  for (const word of CONNECTOR_WORDS.additive) {
-    connectorCounts.additive += countPattern(bodyText, word);
-  }
-  for (const word of CONNECTOR_WORDS.emphatic) {
-    connectorCounts.emphatic += countPattern(bodyText, word);
-  }
   connectorCounts.total = connectorCounts.causal + connectorCounts.adversative + 
                           connectorCounts.additive + connectorCounts.emphatic;
   
   // Template phrase counts
+  const templateFlags = language === 'en' ? 'gi' : 'g';
   let templateCount = 0;
-  for (const phrase of TEMPLATE_PHRASES) {
-    templateCount += countPattern(bodyText, new RegExp(phrase, 'g'));
+  for (const phrase of TEMPLATE_PHRASES[language]) {
+    templateCount += countPattern(bodyText, new RegExp(phrase, templateFlags));
   }
   
   const templateCounts = {
@@ -133,16 +245,120 @@ export function calculateMetrics(text: string): DetailedMetrics {
       : 0,
   };
   
+  // 被动语态、词汇多样性与易读度
+  const passiveCount = sentences.filter(s => PASSIVE_PATTERNS[language].test(s.text)).length;
+  const passiveVoicePercentage = sentences.length > 0
+    ? Math.round((passiveCount / sentences.length) * 100 * 10) / 10
+    : 0;
+
+  const words = sentences.flatMap(s => segmentWords(s.text, language));
+  const contentWords = words.filter(word => !FUNCTION_WORDS[language].has(word.toLowerCase()));
+  const lexical = {
+    typeTokenRatio: Math.round(typeTokenRatio(words) * 1000) / 1000,
+    lexicalDensity: words.length > 0 ? Math.round((contentWords.length / words.length) * 1000) / 1000 : 0,
+  };
+  
   return {
+    language,
+    lengthUnit: language === 'en' ? 'words' : 'chars',
     sentenceLength,
     punctuationDensity,
     connectorCounts,
     templateCounts,
+    passiveVoicePercentage,
+    lexical,
+    ...(language === 'en' && { readability: Math.round(fleschReadingEase(words, sentences.length) * 10) / 10 }),
     textLengthChars: textLength,
     sentenceCount: sentences.length,
   };
 }
 
+/**
+ * 对同构指标对象的每个数值字段应用合并函数（嵌套字段逐一处理）。
+ */
+function combineMetrics(metricsList: DetailedMetrics[], combine: (values: number[]) => number): DetailedMetrics {
+  const walk = (values: unknown[]): unknown => {
+    // 可选字段（如仅英文计算的易读度）任一缺失时结果也不含该字段
+    if (values.some((value) => value === undefined)) return undefined;
+    const first = values[0];
+    if (typeof first === 'number') {
+      return Math.round(combine(values as number[]) * 100) / 100;
+    }
+    if (first && typeof first === 'object') {
+      return Object.fromEntries(
+        Object.keys(first).map((key) => [
+          key,
+          walk(values.map((value) => (value as Record<string, unknown>)[key])),
+        ])
+      );
+    }
+    return first;
+  };
+
+  return walk(metricsList) as DetailedMetrics;
+}
+
+/**
+ * 对多篇文本的指标按权重求平均。
+ * 用于由多篇范文构建的风格档案；权重默认相同。
+ *
+ * @throws {ValidationError} 当指标的语言不一致时（中文句长按字符、英文按单词，不能混合平均）
+ */
+export function averageMetrics(metricsList: DetailedMetrics[], weights?: number[]): DetailedMetrics {
+  if (metricsList.length === 0) {
+    throw new Error('averageMetrics 至少需要一组指标');
+  }
+  const languages = new Set(metricsList.map((metrics) => metrics.language ?? 'zh'));
+  if (languages.size > 1) {
+    throw new ValidationError('中文和英文范文的指标单位不同，不能一起平均，请按语言分别处理', 'language');
+  }
+
+  const w = weights ?? metricsList.map(() => 1);
+  const totalWeight = w.reduce((a, b) => a + b, 0);
+  return combineMetrics(metricsList, (values) =>
+    values.reduce((acc, value, i) => acc + value * w[i], 0) / totalWeight
+  );
+}
+
+/**
+ * 聚合多篇范文的指标：逐项计算均值和样本标准差（n - 1）。
+ * 只有一篇范文时标准差为 0。
+ */
+export function aggregateMetrics(metricsList: DetailedMetrics[]): MetricsAggregate {
+  const mean = averageMetrics(metricsList);
+  const n = metricsList.length;
+
+  const stdDev = combineMetrics(metricsList, (values) => {
+    if (n < 2) return 0;
+    const m = values.reduce((a, b) => a + b, 0) / n;
+    return Math.sqrt(values.reduce((acc, value) => acc + (value - m) ** 2, 0) / (n - 1));
+  });
+
+  return { mean, spread: { sampleCount: n, stdDev } };
+}
+
+/**
+ * 合并两组聚合指标（例如已有风格档案与新范文），结果与直接聚合全部范文一致。
+ */
+export function mergeAggregates(a: MetricsAggregate, b: MetricsAggregate): MetricsAggregate {
+  const n1 = a.spread.sampleCount;
+  const n2 = b.spread.sampleCount;
+  const n = n1 + n2;
+  const mean = averageMetrics([a.mean, b.mean], [n1, n2]);
+
+  // 合并平方和：SS = SS1 + SS2 + n1·n2/n·(m1 − m2)²
+  const stdDev = combineMetrics(
+    [a.mean, a.spread.stdDev, b.mean, b.spread.stdDev],
+    ([m1, s1, m2, s2]) => {
+      if (n < 2) return 0;
+      const ss = s1 ** 2 * Math.max(n1 - 1, 0) + s2 ** 2 * Math.max(n2 - 1, 0) + (n1 * n2 / n) * (m1 - m2) ** 2;
+      return Math.sqrt(ss / (n - 1));
+    }
+  );
+
+  return { mean, spread: { sampleCount: n, stdDev } };
+}
+
 /**
  * Export connector and template word lists for reference.
  */
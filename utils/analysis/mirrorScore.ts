@@ -3,7 +3,7 @@
  * 主要叙述：标准版应该比草稿更接近范文。
  */
 
-import type { DetailedMetrics, MirrorScore } from '@papermirror/types';
+import type { DetailedMetrics, LengthUnit, MetricsSpread, MirrorScore } from '@papermirror/types';
 
 // 分数计算的默认权重
 const DEFAULT_WEIGHTS = {
@@ -13,12 +13,20 @@ const DEFAULT_WEIGHTS = {
   templates: 0.2,
 };
 
-// 用于归一化的最大预期差异
-const SENTENCE_LENGTH_MAX_EXPECTED = {
-  mean: 50,      // 平均句长的最大预期差异
-  percentile: 50, // 中位数的最大预期差异
-  p90: 100,      // P90的最大预期差异
-  longRate: 100, // 长句率（百分比）的最大预期差异
+// 用于归一化的最大预期差异（句长按单位区分：中文字符 / 英文单词）
+const SENTENCE_LENGTH_MAX_EXPECTED: Record<LengthUnit, Record<keyof DetailedMetrics['sentenceLength'], number>> = {
+  chars: {
+    mean: 50,       // 平均句长的最大预期差异
+    p50: 50,        // 中位数的最大预期差异
+    p90: 100,       // P90的最大预期差异
+    longRate50: 100, // 长句率（百分比）的最大预期差异
+  },
+  words: {
+    mean: 20,
+    p50: 20,
+    p90: 40,
+    longRate50: 100,
+  },
 };
 
 const PUNCTUATION_MAX_EXPECTED = {
@@ -29,6 +37,16 @@ const PUNCTUATION_MAX_EXPECTED = {
 
 const TEMPLATE_MAX_EXPECTED = 5; // 每千字模板密度的最大预期差异
 
+// 离散度惩罚系数：范文间标准差达到最大预期差异的 1/4 时，该指标权重减半
+const SPREAD_PENALTY = 4;
+
+type ScoreDimension = keyof MirrorScore['weights'];
+
+interface DimensionResult {
+  distance: number;    // 0 = 相同，1 = 差异最大
+  reliability: number; // 0-1，范文间差异越大越低
+}
+
 /**
  * 计算两个值之间的归一化距离。
  * 值为相同时返回0，差异最大时返回1。
@@ -39,30 +57,66 @@ function normalizedDiff(a: number, b: number, maxExpected: number): number {
   return Math.min(diff / maxExpected, 1);
 }
 
+/**
+ * 根据范文间的标准差计算指标的可信度。
+ * 没有离散度信息（单篇范文）时为 1。
+ */
+function reliability(stdDev: number | undefined, scale: number): number {
+  if (!stdDev || scale === 0) return 1;
+  return 1 / (1 + (SPREAD_PENALTY * stdDev / scale) ** 2);
+}
+
+/**
+ * 按权重 × 可信度合并多个子指标的距离。
+ */
+function combineComponents(
+  components: Array<{ diff: number; weight: number; reliability: number }>
+): DimensionResult {
+  const totalWeight = components.reduce((acc, c) => acc + c.weight, 0);
+  const effectiveWeight = components.reduce((acc, c) => acc + c.weight * c.reliability, 0);
+  if (effectiveWeight === 0) return { distance: 0, reliability: 0 };
+
+  return {
+    distance: components.reduce((acc, c) => acc + c.diff * c.weight * c.reliability, 0) / effectiveWeight,
+    reliability: effectiveWeight / totalWeight,
+  };
+}
+
 /**
  * 计算句子长度与范文的距离。
  * 考虑平均值、p50、p90和长句率。
  */
 function sentenceLengthDistance(
   target: DetailedMetrics['sentenceLength'],
-  sample: DetailedMetrics['sentenceLength']
-): number {
-  const meanDiff = normalizedDiff(target.mean, sample.mean, SENTENCE_LENGTH_MAX_EXPECTED.mean);
-  const p50Diff = normalizedDiff(target.p50, sample.p50, SENTENCE_LENGTH_MAX_EXPECTED.percentile);
-  const p90Diff = normalizedDiff(target.p90, sample.p90, SENTENCE_LENGTH_MAX_EXPECTED.p90);
-  const longRateDiff = normalizedDiff(target.longRate50, sample.longRate50, SENTENCE_LENGTH_MAX_EXPECTED.longRate);
-  
+  sample: DetailedMetrics['sentenceLength'],
+  unit: LengthUnit,
+  spread?: DetailedMetrics['sentenceLength']
+): DimensionResult {
+  const maxExpected = SENTENCE_LENGTH_MAX_EXPECTED[unit];
+  const component = (key: keyof DetailedMetrics['sentenceLength'], weight: number) => ({
+    diff: normalizedDiff(target[key], sample[key], maxExpected[key]),
+    weight,
+    reliability: reliability(spread?.[key], maxExpected[key]),
+  });
+
   // 加权组合
-  return meanDiff * 0.4 + p50Diff * 0.3 + p90Diff * 0.2 + longRateDiff * 0.1;
+  return combineComponents([
+    component('mean', 0.4),
+    component('p50', 0.3),
+    component('p90', 0.2),
+    component('longRate50', 0.1),
+  ]);
 }
 
 /**
  * 计算连接词分布与范文的距离。
+ * 可信度取各类连接词计数的变异系数（标准差 / 均值）。
  */
 function connectorDistance(
   target: DetailedMetrics['connectorCounts'],
-  sample: DetailedMetrics['connectorCounts']
-): number {
+  sample: DetailedMetrics['connectorCounts'],
+  spread?: DetailedMetrics['connectorCounts']
+): DimensionResult {
   // 如果总数 > 0，则归一化为比例
   const targetTotal = target.total || 1;
   const sampleTotal = sample.total || 1;
@@ -87,9 +141,15 @@ function connectorDistance(
     Math.abs(targetProportions.adversative - sampleProportions.adversative) +
     Math.abs(targetProportions.additive - sampleProportions.additive) +
     Math.abs(targetProportions.emphatic - sampleProportions.emphatic);
+
+  const categories = ['causal', 'adversative', 'additive', 'emphatic'] as const;
+  const connectorReliability = categories.reduce(
+    (acc, key) => acc + reliability(spread?.[key], Math.max(sample[key], 1)),
+    0
+  ) / categories.length;
   
   // 最大 L1 距离为 2（当分布完全相反时）
-  return Math.min(l1Distance / 2, 1);
+  return { distance: Math.min(l1Distance / 2, 1), reliability: connectorReliability };
 }
 
 /**
@@ -97,13 +157,20 @@ function connectorDistance(
  */
 function punctuationDistance(
   target: DetailedMetrics['punctuationDensity'],
-  sample: DetailedMetrics['punctuationDensity']
-): number {
-  const commaDiff = normalizedDiff(target.comma, sample.comma, PUNCTUATION_MAX_EXPECTED.comma);
-  const semicolonDiff = normalizedDiff(target.semicolon, sample.semicolon, PUNCTUATION_MAX_EXPECTED.semicolon);
-  const parenthesisDiff = normalizedDiff(target.parenthesis, sample.parenthesis, PUNCTUATION_MAX_EXPECTED.parenthesis);
-  
-  return commaDiff * 0.5 + semicolonDiff * 0.25 + parenthesisDiff * 0.25;
+  sample: DetailedMetrics['punctuationDensity'],
+  spread?: DetailedMetrics['punctuationDensity']
+): DimensionResult {
+  const component = (key: keyof DetailedMetrics['punctuationDensity'], weight: number) => ({
+    diff: normalizedDiff(target[key], sample[key], PUNCTUATION_MAX_EXPECTED[key]),
+    weight,
+    reliability: reliability(spread?.[key], PUNCTUATION_MAX_EXPECTED[key]),
+  });
+
+  return combineComponents([
+    component('comma', 0.5),
+    component('semicolon', 0.25),
+    component('parenthesis', 0.25),
+  ]);
 }
 
 /**
@@ -112,32 +179,58 @@ function punctuationDistance(
  */
 function templateDistance(
   target: DetailedMetrics['templateCounts'],
-  sample: DetailedMetrics['templateCounts']
-): number {
+  sample: DetailedMetrics['templateCounts'],
+  spread?: DetailedMetrics['templateCounts']
+): DimensionResult {
   // Compare per-thousand-chars density
-  return normalizedDiff(target.perThousandChars, sample.perThousandChars, TEMPLATE_MAX_EXPECTED);
+  return {
+    distance: normalizedDiff(target.perThousandChars, sample.perThousandChars, TEMPLATE_MAX_EXPECTED),
+    reliability: reliability(spread?.perThousandChars, TEMPLATE_MAX_EXPECTED),
+  };
+}
+
+/**
+ * 计算各维度的距离和可信度。
+ */
+function dimensionResults(
+  target: DetailedMetrics,
+  sample: DetailedMetrics,
+  spread?: MetricsSpread
+): Record<ScoreDimension, DimensionResult> {
+  const stdDev = spread && spread.sampleCount > 1 ? spread.stdDev : undefined;
+  return {
+    sentence: sentenceLengthDistance(
+      target.sentenceLength,
+      sample.sentenceLength,
+      sample.lengthUnit === 'words' ? 'words' : 'chars',
+      stdDev?.sentenceLength
+    ),
+    connectors: connectorDistance(target.connectorCounts, sample.connectorCounts, stdDev?.connectorCounts),
+    punctuation: punctuationDistance(target.punctuationDensity, sample.punctuationDensity, stdDev?.punctuationDensity),
+    templates: templateDistance(target.templateCounts, sample.templateCounts, stdDev?.templateCounts),
+  };
 }
 
 /**
  * Calculate comprehensive mirror score.
  * Higher score = closer to sample style.
  * Returns score from 0-100.
+ *
+ * 提供多篇范文的离散度时，范文之间本身差异较大的指标在评分中的权重更低。
  */
 export function calculateMirrorScore(
   target: DetailedMetrics,
   sample: DetailedMetrics,
-  weights = DEFAULT_WEIGHTS
+  weights = DEFAULT_WEIGHTS,
+  spread?: MetricsSpread
 ): number {
-  const sentenceDist = sentenceLengthDistance(target.sentenceLength, sample.sentenceLength);
-  const connectorDist = connectorDistance(target.connectorCounts, sample.connectorCounts);
-  const punctuationDist = punctuationDistance(target.punctuationDensity, sample.punctuationDensity);
-  const templateDist = templateDistance(target.templateCounts, sample.templateCounts);
-  
-  const weightedDistance = 
-    sentenceDist * weights.sentence +
-    connectorDist * weights.connectors +
-    punctuationDist * weights.punctuation +
-    templateDist * weights.templates;
+  const results = dimensionResults(target, sample, spread);
+  const dimensions = Object.keys(weights) as ScoreDimension[];
+
+  const effectiveWeight = dimensions.reduce((acc, d) => acc + weights[d] * results[d].reliability, 0);
+  const weightedDistance = effectiveWeight === 0
+    ? 0
+    : dimensions.reduce((acc, d) => acc + results[d].distance * weights[d] * results[d].reliability, 0) / effectiveWeight;
   
   // Convert distance (0 = identical, 1 = different) to score (100 = identical, 0 = different)
   const score = (1 - weightedDistance) * 100;
@@ -152,15 +245,29 @@ export function generateMirrorScore(
   sample: DetailedMetrics,
   draft: DetailedMetrics,
   standard: DetailedMetrics,
-  weights = DEFAULT_WEIGHTS
+  weights = DEFAULT_WEIGHTS,
+  spread?: MetricsSpread
 ): MirrorScore {
-  const draftToSample = calculateMirrorScore(draft, sample, weights);
-  const standardToSample = calculateMirrorScore(standard, sample, weights);
-  
-  return {
+  const draftToSample = calculateMirrorScore(draft, sample, weights, spread);
+  const standardToSample = calculateMirrorScore(standard, sample, weights, spread);
+
+  const mirrorScore: MirrorScore = {
     draftToSample,
     standardToSample,
     improvement: Math.round((standardToSample - draftToSample) * 10) / 10,
     weights,
   };
+
+  // 可信度只取决于范文的离散度，与被比较的文本无关
+  if (spread && spread.sampleCount > 1) {
+    const results = dimensionResults(standard, sample, spread);
+    mirrorScore.reliability = {
+      sentence: Math.round(results.sentence.reliability * 100) / 100,
+      connectors: Math.round(results.connectors.reliability * 100) / 100,
+      punctuation: Math.round(results.punctuation.reliability * 100) / 100,
+      templates: Math.round(results.templates.reliability * 100) / 100,
+    };
+  }
+
+  return mirrorScore;
 }
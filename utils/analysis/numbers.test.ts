@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { extractNumbers, parseChineseInteger } from './numbers';
+
+const keys = (text: string) => [...extractNumbers(text).keys()];
+
+describe('extractNumbers', () => {
+  it.each([
+    ['1,000', '1000'],
+    ['0.50', '0.5'],
+    ['50%', '百分之五十'],
+    ['50%', '0.5'],
+    ['三个', '3个'],
+    ['-3.5', '负三点五'],
+    ['−2', '-2'],
+    ['１２３', '123'],
+    ['３．５％', '3.5%'],
+    ['3.5万', '35000'],
+    ['三点五万', '35000'],
+    ['三万五千', '35000'],
+    ['1.2亿', '一亿二千万'],
+    ['2亿', '200000000'],
+  ])('normalizes %s and %s to the same value', (a, b) => {
+    expect(keys(a)).toHaveLength(1);
+    expect(keys(a)).toEqual(keys(b));
+  });
+
+  it('keeps the original spelling of the first occurrence', () => {
+    expect([...extractNumbers('样本量为三点五万，即35,000人').entries()]).toEqual([['35000', '35,000']]);
+  });
+
+  it('skips approximate quantities', () => {
+    expect(keys('数十个样本')).toEqual([]);
+    expect(keys('几百篇论文和上千条记录')).toEqual([]);
+    expect(keys('十几个模型、三十多人、二十余项研究')).toEqual([]);
+  });
+
+  it('skips words that only contain numeral characters', () => {
+    expect(keys('一般来说，十分重要，千万不要忽略')).toEqual([]);
+  });
+
+  it('keeps ordinals and numbers with classifiers', () => {
+    expect(keys('第三章列出了十二项指标')).toEqual(['3', '12']);
+  });
+});
+
+describe('parseChineseInteger', () => {
+  it.each([
+    ['十二', 12],
+    ['一百零五', 105],
+    ['三万五千', 35000],
+    ['一亿二千万', 120000000],
+    ['二〇二〇', 2020],
+  ])('parses %s', (text, value) => {
+    expect(parseChineseInteger(text)).toBe(value);
+  });
+});
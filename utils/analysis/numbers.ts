@@ -0,0 +1,152 @@
+/**
+ * 数值规范化 - 把不同写法的数字统一为同一个规范值，供保真度比较使用。
+ * 支持千分位、全角数字、正负号、科学计数法、百分数/千分数与小数、
+ * 阿拉伯数字加 万/亿，以及中文数字（含 万/亿、点、百分之）。
+ */
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0,
+  一: 1, 壹: 1,
+  二: 2, 两: 2, 贰: 2,
+  三: 3, 叁: 3,
+  四: 4, 肆: 4,
+  五: 5, 伍: 5,
+  六: 6, 陆: 6,
+  七: 7, 柒: 7,
+  八: 8, 捌: 8,
+  九: 9, 玖: 9,
+};
+
+const CHINESE_SMALL_UNITS: Record<string, number> = {
+  十: 10, 拾: 10,
+  百: 100, 佰: 100,
+  千: 1000, 仟: 1000,
+};
+
+const CHINESE_LARGE_UNITS: Record<string, number> = {
+  万: 4,
+  亿: 8,
+};
+
+// 中文数字后需跟量词，避免把"一般""千万不要""十分"等词语当作数字
+const CHINESE_CLASSIFIERS = '个种项类组次篇名位人例只份条倍层步轮批元章节家所台张年月日天周岁维阶级句段部款';
+
+/**
+ * 全角数字和符号转为半角，长度不变，匹配位置仍可对应原文
+ */
+function toHalfWidth(text: string): string {
+  return text
+    .replace(/[０-９．％＋－，]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .replace(/[−﹣]/g, '-');
+}
+
+/**
+ * 由符号、整数位、小数位和十进制位移生成规范值：
+ * 去掉前导零和末尾零，负零记为 0，例如 ("", "1000", "50", -2) → "10.5"
+ */
+function canonicalDecimal(negative: boolean, intDigits: string, fracDigits: string, shift: number): string {
+  let digits = intDigits + fracDigits;
+  let point = intDigits.length + shift;
+  if (point < 0) {
+    digits = '0'.repeat(-point) + digits;
+    point = 0;
+  }
+  if (point > digits.length) {
+    digits += '0'.repeat(point - digits.length);
+  }
+  const int = digits.slice(0, point).replace(/^0+/, '') || '0';
+  const frac = digits.slice(point).replace(/0+$/, '');
+  const value = frac ? `${int}.${frac}` : int;
+  return negative && value !== '0' ? `-${value}` : value;
+}
+
+/**
+ * 解析中文整数，如 "三" "十二" "一百零五" "三万五千" "一亿二千万" "二〇二〇"
+ */
+export function parseChineseInteger(text: string): number | null {
+  if ([...text].every((ch) => ch in CHINESE_DIGITS)) {
+    // 无单位时逐位读（年份等）
+    return Number([...text].map((ch) => CHINESE_DIGITS[ch]).join(''));
+  }
+
+  let total = 0;    // 亿以上
+  let section = 0;  // 亿以下
+  let digit = 0;
+  for (const ch of text) {
+    if (ch in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[ch];
+    } else if (ch in CHINESE_SMALL_UNITS) {
+      section += (digit || 1) * CHINESE_SMALL_UNITS[ch];
+      digit = 0;
+    } else if (ch === '万') {
+      section = (section + digit) * 1e4;
+      digit = 0;
+    } else if (ch === '亿') {
+      total = (total + section + digit) * 1e8;
+      section = 0;
+      digit = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + section + digit;
+}
+
+const ARABIC_NUMBER_PATTERN =
+  /(?<![A-Za-z0-9_.]|[A-Za-z][-‐])([-+](?=\d))?(\d{1,3}(?:,\d{3})+(?!\d)|\d+)(?:\.(\d+))?(?:[eE]([-+]?\d+))?(?:\s*(%|‰|per\s?cent\b|percent\b))?(?:\s*([万亿]+))?/gi;
+
+const CHINESE_NUMBER_PATTERN = new RegExp(
+  `(第)?(负)?(百分之|千分之)?([零〇一二两三四五六七八九壹贰叁肆伍陆柒捌玖十拾百佰千仟万亿]+)(?:点([零〇一二三四五六七八九]+)([万亿]+)?)?(?=([${CHINESE_CLASSIFIERS}])?)`,
+  'g'
+);
+
+// 约数写法（"数十""几百""上千""十几""三十多""二十余"）不是确切数值，不参与比较
+const APPROXIMATE_PREFIX = /[数几上成]$/;
+const APPROXIMATE_SUFFIX = /^[几多余]/;
+
+const largeUnitShift = (units: string | undefined) =>
+  [...(units ?? '')].reduce((sum, ch) => sum + CHINESE_LARGE_UNITS[ch], 0);
+
+/**
+ * 提取文本中的数值，返回 规范值 → 原文中首次出现的写法。
+ * 百分数按比例值记录，"50%""百分之五十""0.5" 视为同一数值；"1,000" 与 "1000"、"0.50" 与 "0.5" 同理。
+ */
+export function extractNumbers(text: string): Map<string, string> {
+  const items = new Map<string, string>();
+  const source = toHalfWidth(text);
+  const add = (key: string, index: number, length: number) => {
+    if (!items.has(key)) items.set(key, text.slice(index, index + length));
+  };
+
+  for (const match of source.matchAll(ARABIC_NUMBER_PATTERN)) {
+    const [raw, sign, int, frac = '', exponent, percent, large] = match;
+    let shift = (exponent ? Number(exponent) : 0) + largeUnitShift(large);
+    if (percent) shift -= percent === '‰' ? 3 : 2;
+    add(canonicalDecimal(sign === '-', int.replace(/,/g, ''), frac, shift), match.index!, raw.length);
+  }
+
+  for (const match of source.matchAll(CHINESE_NUMBER_PATTERN)) {
+    const [raw, ordinal, negative, percent, numeral, decimals = '', large, classifier] = match;
+    // 纯单位词（"千万""百"）和"万一"之类的词语不计；单个数字只在序数、百分数或带量词时计入，
+    // 单独的"一"歧义太大，即使带量词也不计
+    const hasDigit = /[零〇一二两三四五六七八九壹贰叁肆伍陆柒捌玖十拾]/.test(numeral);
+    if (!hasDigit || /^[万亿]/.test(numeral)) continue;
+    const before = source.slice(0, match.index);
+    const after = source.slice(match.index! + raw.length);
+    if ((/^[十拾百佰千仟]/.test(numeral) && APPROXIMATE_PREFIX.test(before)) || APPROXIMATE_SUFFIX.test(after)) continue;
+    // 带小数或 万/亿 的写法（"三点五万""五万"）不会是普通词语，不要求量词
+    const structured = numeral.length >= 2 && /[十拾百佰千仟万亿]/.test(numeral);
+    if (!ordinal && !percent && !classifier && !structured && !decimals && !large) continue;
+    if (!ordinal && !percent && !decimals && (numeral === '一' || numeral === '壹')) continue;
+
+    // 小数后的 万/亿（"三点五万"）作为量级，整数部分自带的单位由 parseChineseInteger 处理
+    const value = parseChineseInteger(numeral);
+    if (value === null) continue;
+    const fracDigits = [...decimals].map((ch) => CHINESE_DIGITS[ch]).join('');
+    const shift = largeUnitShift(large) - (percent === '百分之' ? 2 : percent === '千分之' ? 3 : 0);
+    const start = match.index! + (ordinal?.length ?? 0);
+    add(canonicalDecimal(Boolean(negative), String(value), fracDigits, shift), start, raw.length - (ordinal?.length ?? 0));
+  }
+
+  return items;
+}
@@ -1,7 +1,9 @@
 /**
- * 文本预处理和句子拆分工具，用于中文学术文本。
+ * 文本预处理、语言检测和句子拆分工具，支持中文和英文学术文本。
  */
 
+import type { TextLanguage } from '@papermirror/types';
+
 export interface Sentence {
   text: string;
   index: number;
@@ -58,6 +60,119 @@ export function splitSentencesCN(text: string): Sentence[] {
   return sentences;
 }
 
+// 句点后不断句的英文缩写（小写比较，不含句点）
+const EN_ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'cf', 'vs', 'al', 'approx', 'ca', 'resp', 'viz',
+  'fig', 'figs', 'eq', 'eqs', 'tab', 'sec', 'secs', 'ch', 'ref', 'refs', 'no', 'nos', 'vol', 'pp', 'p',
+  'dr', 'mr', 'mrs', 'ms', 'prof', 'st', 'jr', 'sr',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+]);
+
+// 英文单词（允许内部的撇号和连字符，如 don't、state-of-the-art）
+const EN_WORD_PATTERN = /[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g;
+
+/**
+ * 检测文本的主要语言。
+ * 比较汉字数与英文单词数：中文论文中夹杂的英文术语不会改变判断；空文本视为中文。
+ */
+export function detectLanguage(text: string): TextLanguage {
+  const hanCount = (text.match(/[\u4e00-\u9fff]/g) || []).length;
+  const wordCount = (text.match(/[A-Za-z]+/g) || []).length;
+  return wordCount > hanCount ? 'en' : 'zh';
+}
+
+/**
+ * 将英文文本切分为单词。
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(EN_WORD_PATTERN) || [];
+}
+
+/**
+ * 按语言切分词语，用于词汇多样性等统计。
+ * 优先使用 Intl.Segmenter（中文可获得真正的分词结果）；不可用时中文按单字、英文按单词切分。
+ */
+export function segmentWords(text: string, language: TextLanguage): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+    return Array.from(segmenter.segment(text))
+      .filter((segment) => segment.isWordLike)
+      .map((segment) => segment.segment);
+  }
+  if (language === 'en') return tokenizeWords(text);
+  return text.match(/[\u4e00-\u9fff]|[A-Za-z0-9]+/g) || [];
+}
+
+/**
+ * 判断句点是否为缩写的一部分（不构成句子边界）。
+ * before 为句点前（含句点）的文本。
+ */
+function isAbbreviationPeriod(before: string): boolean {
+  // 取句点前的最后一个"词"，如 "e.g."、"Fig."、"al."
+  const match = before.match(/([A-Za-z][A-Za-z.]*)\.$/);
+  if (!match) return false;
+  const token = match[1];
+  // 单个大写字母的姓名缩写，如 "J. Smith"
+  if (/^[A-Z]$/.test(token)) return true;
+  return EN_ABBREVIATIONS.has(token.toLowerCase());
+}
+
+/**
+ * 将英文文本拆分为句子。
+ * 规则：
+ * - 在 . ? ! 后接空白、且下一句以大写字母、数字、引号或括号开头时拆分
+ * - 缩写（e.g.、i.e.、et al.、Fig. 3、Eq. 2）和姓名首字母后不拆分
+ * - 空行和 Markdown 标题视为边界，标题本身被过滤掉
+ */
+export function splitSentencesEN(text: string): Sentence[] {
+  const normalized = normalizeText(text);
+  const sentences: Sentence[] = [];
+  let index = 0;
+
+  const push = (raw: string) => {
+    const trimmed = raw.trim();
+    if (trimmed.length < 2) return;
+    sentences.push({ text: trimmed, index: index++ });
+  };
+
+  // 先按段落和标题行切开，段内的单个换行视为空格
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  for (const line of normalized.split('\n')) {
+    if (!line.trim() || isMarkdownHeading(line)) {
+      if (current.length) paragraphs.push(current.join(' '));
+      current = [];
+      continue;
+    }
+    current.push(line.trim());
+  }
+  if (current.length) paragraphs.push(current.join(' '));
+
+  const boundary = /[.?!]+["')\]’”]*\s+(?=["'(\[‘“]?[A-Z0-9])/g;
+  for (const paragraph of paragraphs) {
+    let start = 0;
+    let match: RegExpExecArray | null;
+    boundary.lastIndex = 0;
+    while ((match = boundary.exec(paragraph)) !== null) {
+      const end = match.index + match[0].trimEnd().length;
+      const candidate = paragraph.slice(start, end);
+      if (/\.$/.test(candidate) && isAbbreviationPeriod(candidate)) continue;
+      push(candidate);
+      start = match.index + match[0].length;
+    }
+    push(paragraph.slice(start));
+  }
+
+  return sentences;
+}
+
+/**
+ * 按语言拆分句子，未指定语言时自动检测。
+ */
+export function splitSentences(text: string, language: TextLanguage = detectLanguage(text)): Sentence[] {
+  return language === 'en' ? splitSentencesEN(text) : splitSentencesCN(text);
+}
+
 /**
  * 检查一行是否为 Markdown 标题。
  */
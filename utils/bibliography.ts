@@ -0,0 +1,334 @@
+/**
+ * 本地文献库：解析用户上传的 BibTeX / CSL-JSON 文件，并用 BM25 把引用建议与文献条目匹配。
+ * 全部在浏览器内完成，不访问网络，只会匹配到用户自己的文献。
+ */
+
+import type { BibEntry, CitationMatch, CitationSuggestion } from '@papermirror/types';
+import { ValidationError } from '../src/errors';
+
+export const BIBLIOGRAPHY_EXTENSIONS = ['.bib', '.json'];
+
+// ==================== BibTeX ====================
+
+const SKIPPED_BIBTEX_TYPES = new Set(['comment', 'preamble']);
+
+/**
+ * 去掉 LaTeX 标记：\textit{x} → x，\'{e} → e，多余的花括号和空白
+ */
+function cleanLatex(value: string): string {
+  return value
+    .replace(/\\[a-zA-Z]+\*?\s*(?=\{)/g, '')        // \textit{...}、\emph{...}
+    .replace(/\\[`'^"~=.uvHckbdr]\s*\{?([a-zA-Z])\}?/g, '$1') // 重音符号
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/\\[a-zA-Z]+\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 逐字符读取 BibTeX 条目；值可以是 {嵌套花括号}、"引号"、数字或 @string 宏，用 # 连接
+ */
+class BibTeXReader {
+  private pos = 0;
+
+  constructor(private readonly text: string, private readonly macros: Map<string, string>) {}
+
+  private skipSpace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private readBalanced(open: string, close: string): string {
+    let depth = 0;
+    const start = this.pos;
+    for (; this.pos < this.text.length; this.pos++) {
+      const ch = this.text[this.pos];
+      if (ch === '\\') {
+        this.pos++;
+      } else if (ch === open && (open !== close || depth === 0)) {
+        depth++;
+      } else if (ch === close) {
+        depth--;
+        if (depth === 0) {
+          this.pos++;
+          return this.text.slice(start + 1, this.pos - 1);
+        }
+      }
+    }
+    throw new ValidationError('BibTeX 文件中的括号或引号不匹配', 'file');
+  }
+
+  private readValue(): string {
+    const parts: string[] = [];
+    for (;;) {
+      this.skipSpace();
+      const ch = this.text[this.pos];
+      if (ch === '{') {
+        parts.push(this.readBalanced('{', '}'));
+      } else if (ch === '"') {
+        parts.push(this.readBalanced('"', '"'));
+      } else {
+        const word = /^[^\s,#})]+/.exec(this.text.slice(this.pos))?.[0] ?? '';
+        this.pos += word.length;
+        parts.push(/^\d+$/.test(word) ? word : this.macros.get(word.toLowerCase()) ?? word);
+      }
+      this.skipSpace();
+      if (this.text[this.pos] !== '#') return parts.join('');
+      this.pos++;
+    }
+  }
+
+  /** 读取从当前位置开始的 name = value 列表，直到条目结束 */
+  private readFields(close: string): Map<string, string> {
+    const fields = new Map<string, string>();
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+      if (this.text[this.pos] === close || this.pos >= this.text.length) {
+        this.pos++;
+        return fields;
+      }
+      const name = /^[^\s=,}]+/.exec(this.text.slice(this.pos))?.[0];
+      if (!name) throw new ValidationError('BibTeX 条目的字段格式无效', 'file');
+      this.pos += name.length;
+      this.skipSpace();
+      if (this.text[this.pos] !== '=') throw new ValidationError(`BibTeX 字段 ${name} 缺少等号`, 'file');
+      this.pos++;
+      fields.set(name.toLowerCase(), this.readValue());
+    }
+  }
+
+  /** 读取下一个条目；没有更多条目时返回 null */
+  next(): { type: string; key: string; fields: Map<string, string> } | null {
+    for (;;) {
+      const at = this.text.indexOf('@', this.pos);
+      if (at === -1) return null;
+      this.pos = at + 1;
+      const type = /^[a-zA-Z]+/.exec(this.text.slice(this.pos))?.[0]?.toLowerCase();
+      if (!type) continue;
+      this.pos += type.length;
+      this.skipSpace();
+      const open = this.text[this.pos];
+      if (open !== '{' && open !== '(') continue;
+      const close = open === '{' ? '}' : ')';
+
+      if (SKIPPED_BIBTEX_TYPES.has(type)) {
+        this.readBalanced(open, close);
+        continue;
+      }
+      this.pos++;
+      if (type === 'string') {
+        return { type, key: '', fields: this.readFields(close) };
+      }
+      const key = /^[^\s,]*/.exec(this.text.slice(this.pos))?.[0] ?? '';
+      this.pos += key.length;
+      return { type, key: key.trim(), fields: this.readFields(close) };
+    }
+  }
+}
+
+/**
+ * 解析 BibTeX 文本
+ */
+export function parseBibTeX(text: string): BibEntry[] {
+  const macros = new Map<string, string>();
+  const reader = new BibTeXReader(text, macros);
+  const entries: BibEntry[] = [];
+
+  for (let item = reader.next(); item; item = reader.next()) {
+    if (item.type === 'string') {
+      for (const [name, value] of item.fields) macros.set(name, value);
+      continue;
+    }
+    const field = (name: string) => {
+      const value = item!.fields.get(name);
+      return value ? cleanLatex(value) : undefined;
+    };
+    const title = field('title');
+    if (!item.key || !title) continue;
+    entries.push({
+      key: item.key,
+      title,
+      authors: (item.fields.get('author') ?? '')
+        .split(/\s+and\s+/i)
+        .map(cleanLatex)
+        .filter(Boolean),
+      year: field('year') ?? field('date')?.slice(0, 4),
+      abstract: field('abstract'),
+      keywords: (field('keywords') ?? '').split(/[,;]/).map((k) => k.trim()).filter(Boolean),
+      venue: field('journal') ?? field('booktitle'),
+    });
+  }
+  return entries;
+}
+
+// ==================== CSL-JSON ====================
+
+interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+interface CslItem {
+  id?: string | number;
+  'citation-key'?: string;
+  title?: string;
+  author?: CslName[];
+  issued?: { 'date-parts'?: Array<Array<number | string>>; raw?: string };
+  abstract?: string;
+  keyword?: string | string[];
+  'container-title'?: string;
+}
+
+/**
+ * 解析 CSL-JSON（条目数组，或带 items 字段的对象）
+ */
+export function parseCslJson(text: string): BibEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ValidationError('CSL-JSON 文件不是有效的 JSON', 'file');
+  }
+  const items = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { items?: unknown })?.items)
+      ? (data as { items: unknown[] }).items
+      : null;
+  if (!items) {
+    throw new ValidationError('CSL-JSON 文件应为条目数组', 'file');
+  }
+
+  const entries: BibEntry[] = [];
+  for (const item of items as CslItem[]) {
+    const key = String(item?.['citation-key'] ?? item?.id ?? '').trim();
+    if (!key || typeof item.title !== 'string' || !item.title.trim()) continue;
+    const year = item.issued?.['date-parts']?.[0]?.[0] ?? item.issued?.raw?.slice(0, 4);
+    entries.push({
+      key,
+      title: item.title.trim(),
+      authors: (item.author ?? [])
+        .map((name) => name.literal ?? [name.family, name.given].filter(Boolean).join(', '))
+        .filter(Boolean),
+      year: year !== undefined ? String(year) : undefined,
+      abstract: item.abstract,
+      keywords: (Array.isArray(item.keyword) ? item.keyword : (item.keyword ?? '').split(/[,;]/))
+        .map((k) => k.trim())
+        .filter(Boolean),
+      venue: item['container-title'],
+    });
+  }
+  return entries;
+}
+
+/**
+ * 按扩展名（或内容）选择解析器；同一键重复时保留第一条
+ */
+export function parseBibliography(fileName: string, text: string): BibEntry[] {
+  const isJson = /\.json$/i.test(fileName) || (!/\.bib$/i.test(fileName) && /^\s*[[{]/.test(text));
+  const entries = isJson ? parseCslJson(text) : parseBibTeX(text);
+  if (entries.length === 0) {
+    throw new ValidationError('文献库中没有找到带标题的条目', 'file');
+  }
+  const seen = new Set<string>();
+  return entries.filter((entry) => !seen.has(entry.key) && seen.add(entry.key));
+}
+
+/**
+ * 生成参考文献列表中的一行：作者. 标题. 期刊, 年份.
+ */
+export function formatReference(entry: BibEntry): string {
+  const authors = entry.authors.length > 3
+    ? `${entry.authors.slice(0, 3).join(', ')}, et al`
+    : entry.authors.join(', ');
+  const venue = [entry.venue, entry.year].filter(Boolean).join(', ');
+  return [authors, entry.title, venue].filter(Boolean).map((part) => part.replace(/\.$/, '')).join('. ') + '.';
+}
+
+// ==================== BM25 匹配 ====================
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// 标题最能代表主题，关键词次之，摘要只作补充
+const FIELD_WEIGHTS = { title: 3, keywords: 2, abstract: 1 };
+
+const EN_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'this', 'that', 'these', 'those', 'are', 'was', 'were', 'been', 'have',
+  'has', 'had', 'into', 'onto', 'over', 'such', 'their', 'its', 'our', 'can', 'may', 'also', 'which', 'while',
+  'using', 'based', 'via', 'between', 'than', 'more', 'most', 'not', 'but', 'all', 'any', 'each', 'other',
+]);
+
+/**
+ * 检索用分词：英文取小写单词并去掉复数词尾，中文取相邻两字
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[a-z][a-z0-9-]+|\d+[a-z]+[a-z0-9]*/g) ?? []) {
+    if (EN_STOPWORDS.has(word)) continue;
+    tokens.push(word.length > 4 ? word.replace(/ies$/, 'y').replace(/([^su])s$/, '$1') : word);
+  }
+  for (const run of text.match(/[\u4e00-\u9fa5]+/g) ?? []) {
+    if (run.length === 1) tokens.push(run);
+    for (let i = 0; i + 1 < run.length; i++) tokens.push(run.slice(i, i + 2));
+  }
+  return tokens;
+}
+
+export interface LibraryIndex {
+  entries: BibEntry[];
+  termFrequencies: Array<Map<string, number>>;
+  lengths: number[];
+  averageLength: number;
+  documentFrequency: Map<string, number>;
+}
+
+/**
+ * 为文献库建立 BM25 索引；字段权重通过重复计词实现
+ */
+export function buildLibraryIndex(entries: BibEntry[]): LibraryIndex {
+  const documentFrequency = new Map<string, number>();
+  const termFrequencies = entries.map((entry) => {
+    const tf = new Map<string, number>();
+    const add = (text: string | undefined, weight: number) => {
+      for (const token of tokenizeForSearch(text ?? '')) tf.set(token, (tf.get(token) ?? 0) + weight);
+    };
+    add(entry.title, FIELD_WEIGHTS.title);
+    add(entry.keywords.join(' '), FIELD_WEIGHTS.keywords);
+    add(entry.abstract, FIELD_WEIGHTS.abstract);
+    for (const token of tf.keys()) documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    return tf;
+  });
+  const lengths = termFrequencies.map((tf) => [...tf.values()].reduce((a, b) => a + b, 0));
+  const averageLength = lengths.reduce((a, b) => a + b, 0) / Math.max(1, lengths.length);
+  return { entries, termFrequencies, lengths, averageLength, documentFrequency };
+}
+
+/**
+ * 用建议所在的句子和检索词给文献条目打分，返回得分最高的若干条
+ */
+export function matchCitation(index: LibraryIndex, suggestion: CitationSuggestion, limit = 3): CitationMatch[] {
+  const queryTokens = new Set(tokenizeForSearch([suggestion.sentenceText, ...suggestion.queries].join(' ')));
+  const n = index.entries.length;
+  const matches: CitationMatch[] = [];
+
+  index.termFrequencies.forEach((tf, i) => {
+    let score = 0;
+    for (const token of queryTokens) {
+      const freq = tf.get(token);
+      if (!freq) continue;
+      const df = index.documentFrequency.get(token) ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * index.lengths[i]) / (index.averageLength || 1));
+      score += (idf * freq * (BM25_K1 + 1)) / (freq + norm);
+    }
+    if (score > 0) matches.push({ key: index.entries[i].key, score: Math.round(score * 100) / 100 });
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
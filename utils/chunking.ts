@@ -0,0 +1,201 @@
+/**
+ * 长文档分块与拼接
+ *
+ * 按 Markdown 标题划分章节，章节正文超出 token 预算时再按段落（必要时按句子）切分。
+ * 分块不跨越章节边界；标题行原样保留、不交给模型改写，拼接时按原顺序放回，
+ * 块与块之间的分隔符在分块时确定，因此拼接结果的结构与原文一致。
+ */
+
+import { isMarkdownHeading } from './analysis/text';
+
+export interface DocumentChunk {
+  index: number;
+  /** 所属章节标题（去除 # 前缀），文档开头没有标题的部分为 undefined */
+  sectionTitle?: string;
+  /** 块在所属章节内的序号（从 1 开始）和总块数 */
+  part: number;
+  partCount: number;
+  content: string;
+  tokens: number;
+}
+
+type PlanSegment =
+  | { kind: 'heading'; text: string; separator: string }
+  | { kind: 'chunk'; chunkIndex: number; separator: string };
+
+export interface ChunkPlan {
+  chunks: DocumentChunk[];
+  /** 文档骨架：标题行与正文块按原顺序排列，separator 为与前一段之间的分隔符 */
+  segments: PlanSegment[];
+}
+
+interface Block {
+  kind: 'heading' | 'paragraph';
+  text: string;
+}
+
+interface Unit {
+  text: string;
+  separator: string;
+}
+
+const PARAGRAPH_SEPARATOR = '\n\n';
+
+/**
+ * 粗略估算 token 数
+ * 中日韩字符约 1 token/字，其他字符约 4 字符/token
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/g)?.length ?? 0;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+}
+
+/**
+ * 将文本拆分为标题行和段落，代码块内的 # 行不视为标题
+ */
+function splitBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      paragraph.push(line);
+    } else if (inFence) {
+      paragraph.push(line);
+    } else if (isMarkdownHeading(line)) {
+      flush();
+      blocks.push({ kind: 'heading', text: line.trim() });
+    } else if (line.trim() === '') {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * 将超出预算的段落按句子切分，句子本身仍超出预算时按字符硬切
+ * 句子之间的分隔符沿用原文中前一句的尾随空白（英文为空格，中文为空）
+ */
+function splitParagraph(paragraph: string, maxTokens: number): Unit[] {
+  const units: Unit[] = [];
+  const sentences = paragraph.match(/[^。？！.?!]+(?:[。？！.?!]+|$)\s*/g) ?? [paragraph];
+  let separator = PARAGRAPH_SEPARATOR;
+
+  for (const raw of sentences) {
+    const text = raw.trim();
+    if (!text) continue;
+
+    if (estimateTokens(text) <= maxTokens) {
+      units.push({ text, separator });
+    } else {
+      // 按 token 比例估算每段字符数
+      const size = Math.max(1, Math.floor(text.length * maxTokens / estimateTokens(text)));
+      for (let i = 0; i < text.length; i += size) {
+        units.push({ text: text.slice(i, i + size), separator: i === 0 ? separator : '' });
+      }
+    }
+
+    separator = /\s$/.test(raw) ? ' ' : '';
+  }
+
+  return units;
+}
+
+/**
+ * 生成分块计划
+ *
+ * @param text - 原始文档
+ * @param maxTokens - 每块的 token 预算
+ */
+export function planChunks(text: string, maxTokens: number): ChunkPlan {
+  const plan: ChunkPlan = { chunks: [], segments: [] };
+  let sectionTitle: string | undefined;
+  let sectionUnits: Unit[] = [];
+
+  const separatorFor = (separator: string) => (plan.segments.length === 0 ? '' : separator);
+
+  const flushSection = () => {
+    const groups: Unit[][] = [];
+    let current: Unit[] = [];
+    let currentTokens = 0;
+
+    for (const unit of sectionUnits) {
+      const tokens = estimateTokens(unit.text);
+      if (current.length > 0 && currentTokens + tokens > maxTokens) {
+        groups.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(unit);
+      currentTokens += tokens;
+    }
+    if (current.length > 0) groups.push(current);
+
+    groups.forEach((group, i) => {
+      const content = group.map((unit, j) => (j === 0 ? '' : unit.separator) + unit.text).join('');
+      const chunkIndex = plan.chunks.length;
+      plan.chunks.push({
+        index: chunkIndex,
+        sectionTitle,
+        part: i + 1,
+        partCount: groups.length,
+        content,
+        tokens: estimateTokens(content),
+      });
+      plan.segments.push({ kind: 'chunk', chunkIndex, separator: separatorFor(group[0].separator) });
+    });
+
+    sectionUnits = [];
+  };
+
+  for (const block of splitBlocks(text)) {
+    if (block.kind === 'heading') {
+      flushSection();
+      sectionTitle = block.text.replace(/^#+\s*/, '');
+      plan.segments.push({ kind: 'heading', text: block.text, separator: separatorFor(PARAGRAPH_SEPARATOR) });
+    } else if (estimateTokens(block.text) > maxTokens) {
+      sectionUnits.push(...splitParagraph(block.text, maxTokens));
+    } else {
+      sectionUnits.push({ text: block.text, separator: PARAGRAPH_SEPARATOR });
+    }
+  }
+  flushSection();
+
+  return plan;
+}
+
+/**
+ * 按分块计划拼接改写结果
+ * 遇到尚未完成的块时停止，可用于拼接流式的部分结果
+ *
+ * @param plan - planChunks 生成的计划
+ * @param rewrittenChunks - 与 plan.chunks 一一对应的改写结果
+ */
+export function stitchChunks(plan: ChunkPlan, rewrittenChunks: Array<string | undefined>): string {
+  let output = '';
+
+  for (const segment of plan.segments) {
+    if (segment.kind === 'heading') {
+      output += segment.separator + segment.text;
+      continue;
+    }
+    const rewritten = rewrittenChunks[segment.chunkIndex];
+    if (rewritten === undefined) break;
+    output += segment.separator + rewritten.trim();
+  }
+
+  return output;
+}
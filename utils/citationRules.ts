@@ -0,0 +1,109 @@
+/**
+ * 引用规则集的创建、校验与导入导出。
+ * 不同领域的引用触发词不同（临床论文的"发病率"、计算机论文的基准数据集名称），
+ * 规则集以 JSON 文档保存，可以编辑、导出并与同事共享。
+ */
+
+import type { CitationReason, CitationRuleSet, TextLanguage } from '@papermirror/types';
+import { CITATION_REASONS, DEFAULT_CITATION_RULE_SET, compileCitationRules } from './analysis';
+import { ValidationError } from '../src/errors';
+
+const RULES_FORMAT = 'papermirror-citation-rules';
+
+const LANGUAGES: TextLanguage[] = ['zh', 'en'];
+
+export const createRuleSetId = () => `rules_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+/**
+ * 以已有规则集为模板新建一份可编辑的副本
+ */
+export function copyCitationRuleSet(ruleSet: CitationRuleSet, name = `${ruleSet.name} 副本`): CitationRuleSet {
+  return {
+    ...structuredClone(ruleSet),
+    id: createRuleSetId(),
+    name,
+  };
+}
+
+/**
+ * 校验规则集的名称、版本和全部模式
+ *
+ * @throws {ValidationError} 当名称或版本为空、或有无效的正则表达式时
+ */
+export function validateCitationRuleSet(ruleSet: CitationRuleSet): CitationRuleSet {
+  if (!ruleSet.name.trim()) {
+    throw new ValidationError('规则集名称不能为空', 'name');
+  }
+  if (!ruleSet.version.trim()) {
+    throw new ValidationError('规则集版本不能为空', 'version');
+  }
+  if (ruleSet.id === DEFAULT_CITATION_RULE_SET.id && ruleSet !== DEFAULT_CITATION_RULE_SET) {
+    throw new ValidationError('内置规则集不能被覆盖', 'id');
+  }
+  compileCitationRules(ruleSet);
+  return ruleSet;
+}
+
+/**
+ * 导出为 JSON 文本
+ */
+export function serializeCitationRuleSet(ruleSet: CitationRuleSet): string {
+  return JSON.stringify({ format: RULES_FORMAT, ...ruleSet }, null, 2);
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * 解析导入的 JSON 文本；缺少 id 或使用内置规则集的 id 时分配新 id
+ *
+ * @throws {ValidationError} 当文件不是有效的引用规则集时
+ */
+export function parseCitationRuleSet(json: string): CitationRuleSet {
+  let file: Partial<CitationRuleSet> & { format?: unknown };
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new ValidationError('规则集文件不是有效的 JSON', 'file');
+  }
+
+  if (!file || typeof file !== 'object' || (file.format !== undefined && file.format !== RULES_FORMAT)) {
+    throw new ValidationError('不是 PaperMirror 引用规则集文件', 'file');
+  }
+  if (typeof file.name !== 'string' || typeof file.version !== 'string') {
+    throw new ValidationError('规则集缺少名称或版本', 'name');
+  }
+  if (!file.patterns || typeof file.patterns !== 'object') {
+    throw new ValidationError('规则集缺少 patterns', 'patterns');
+  }
+
+  const patterns: CitationRuleSet['patterns'] = { zh: {}, en: {} };
+  const exclusions: CitationRuleSet['exclusions'] = { zh: [], en: [] };
+  for (const language of LANGUAGES) {
+    const byReason = (file.patterns[language] ?? {}) as Record<string, unknown>;
+    for (const [reason, list] of Object.entries(byReason)) {
+      if (!CITATION_REASONS.includes(reason as CitationReason)) {
+        throw new ValidationError(`未知的引用原因 ${reason}`, `patterns.${language}`);
+      }
+      if (!isStringArray(list)) {
+        throw new ValidationError('模式列表必须是字符串数组', `patterns.${language}.${reason}`);
+      }
+      patterns[language][reason as CitationReason] = list;
+    }
+
+    const excluded = file.exclusions?.[language] ?? [];
+    if (!isStringArray(excluded)) {
+      throw new ValidationError('排除模式必须是字符串数组', `exclusions.${language}`);
+    }
+    exclusions[language] = excluded;
+  }
+
+  return validateCitationRuleSet({
+    id: typeof file.id === 'string' && file.id && file.id !== DEFAULT_CITATION_RULE_SET.id ? file.id : createRuleSetId(),
+    name: file.name.trim(),
+    version: file.version.trim(),
+    description: typeof file.description === 'string' ? file.description : undefined,
+    patterns,
+    exclusions,
+  });
+}
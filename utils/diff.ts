@@ -0,0 +1,140 @@
+/**
+ * 文本差异比较
+ *
+ * 基于词元的最长公共子序列（LCS）。英文按单词比较；
+ * 中日韩文字没有空格分词，逐字比较，避免整句被当成一个"词"。
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// 中日韩字符逐字成词；拉丁字母和数字按单词；空白和其余标点各自成词
+const DIFF_TOKEN_PATTERN =
+  /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]|[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*|\s+|[^\sA-Za-z0-9]/g;
+
+// LCS 表的规模上限（词元数乘积），超过时整段视为替换，避免卡住界面
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * 把文本切分为差异比较的词元，所有词元依次拼接等于原文
+ */
+export function tokenizeForDiff(text: string): string[] {
+  return text.match(DIFF_TOKEN_PATTERN) || [];
+}
+
+/**
+ * 追加一段差异，与上一段操作相同时合并
+ */
+function pushPart(parts: DiffPart[], op: DiffOp, text: string): void {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    parts.push({ op, text });
+  }
+}
+
+/**
+ * 比较两组词元，返回按顺序排列的差异片段
+ */
+export function diffTokens(a: string[], b: string[]): DiffPart[] {
+  const parts: DiffPart[] = [];
+
+  // 先去掉相同的前缀和后缀，缩小 LCS 表
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  pushPart(parts, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    pushPart(parts, 'delete', midA.join(''));
+    pushPart(parts, 'insert', midB.join(''));
+  } else if (n > 0 || m > 0) {
+    // lcs[i][j] = midA[i..] 与 midB[j..] 的 LCS 长度
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushPart(parts, 'delete', midA[i++]);
+      } else {
+        pushPart(parts, 'insert', midB[j++]);
+      }
+    }
+    pushPart(parts, 'delete', midA.slice(i).join(''));
+    pushPart(parts, 'insert', midB.slice(j).join(''));
+  }
+
+  pushPart(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
+
+/**
+ * 合并零碎的改动：夹在两处改动之间的纯空白视为改动的一部分，
+ * 连续的删除和新增各自合并为一段，避免英文按词交错显示
+ */
+function coalesceChanges(parts: DiffPart[]): DiffPart[] {
+  const result: DiffPart[] = [];
+  let deleted = '';
+  let inserted = '';
+  const flush = () => {
+    pushPart(result, 'delete', deleted);
+    pushPart(result, 'insert', inserted);
+    deleted = '';
+    inserted = '';
+  };
+
+  parts.forEach((part, i) => {
+    const bridgesChanges = part.op === 'equal' && /^\s+$/.test(part.text) &&
+      i > 0 && i < parts.length - 1 && parts[i - 1].op !== 'equal' && parts[i + 1].op !== 'equal';
+    if (part.op === 'delete') {
+      deleted += part.text;
+    } else if (part.op === 'insert') {
+      inserted += part.text;
+    } else if (bridgesChanges) {
+      deleted += part.text;
+      inserted += part.text;
+    } else {
+      flush();
+      pushPart(result, 'equal', part.text);
+    }
+  });
+  flush();
+  return result;
+}
+
+/**
+ * 比较两段文本
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+  return coalesceChanges(diffTokens(tokenizeForDiff(before), tokenizeForDiff(after)));
+}
@@ -0,0 +1,474 @@
+/**
+ * DOCX 解析 - 读取 OOXML 压缩包并转换为 Markdown。
+ *
+ * 保留：
+ * - 标题（Heading 1–6、Title 样式或大纲级别）
+ * - 项目符号与编号列表（含多级缩进）
+ * - 表格（首行作为表头，合并单元格留空）
+ * - 脚注与尾注（[^n] 引用，定义附在文末）
+ * - 粗体、斜体
+ * - 公式（OMML 无法转为文本，以 [公式 n] / [Equation n] 占位）
+ *
+ * 修订模式下已删除的文字不输出，已插入的文字照常输出。
+ */
+
+import { detectLanguage } from './analysis';
+
+// ==================== ZIP ====================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * 只读的 ZIP 目录：按需解压单个条目（存储或 deflate），不支持 ZIP64 和加密
+ */
+class ZipArchive {
+  private readonly view: DataView;
+  private readonly entries = new Map<string, ZipEntry>();
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.readCentralDirectory();
+  }
+
+  private readCentralDirectory() {
+    // 目录结束记录位于文件末尾，之后最多跟 65535 字节的注释
+    let eocd = -1;
+    for (let i = this.bytes.length - 22; i >= Math.max(0, this.bytes.length - 22 - 0xffff); i--) {
+      if (this.view.getUint32(i, true) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new Error('不是有效的 ZIP 文件');
+    }
+
+    const count = this.view.getUint16(eocd + 10, true);
+    let offset = this.view.getUint32(eocd + 16, true);
+    const decoder = new TextDecoder();
+    for (let i = 0; i < count; i++) {
+      if (this.view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new Error('ZIP 目录已损坏');
+      }
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const name = decoder.decode(this.bytes.subarray(offset + 46, offset + 46 + nameLength));
+      this.entries.set(name, {
+        method: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        localHeaderOffset: this.view.getUint32(offset + 42, true),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  /**
+   * 读取条目的文本内容，条目不存在时返回 null
+   */
+  async readText(name: string): Promise<string | null> {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    const local = entry.localHeaderOffset;
+    if (this.view.getUint32(local, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`ZIP 条目 ${name} 已损坏`);
+    }
+    const start = local + 30 + this.view.getUint16(local + 26, true) + this.view.getUint16(local + 28, true);
+    const data = this.bytes.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === 0) {
+      return new TextDecoder().decode(data);
+    }
+    if (entry.method !== 8) {
+      throw new Error(`不支持的 ZIP 压缩方式: ${entry.method}`);
+    }
+    const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+  }
+}
+
+// ==================== XML ====================
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (raw, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? raw;
+  });
+
+const TAG_PATTERN = /<(\/?)([^\s/>]+)([^>]*?)(\/?)>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>/g;
+const ATTR_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * 解析 XML 为元素树；只处理 OOXML 用到的语法，不校验文档
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let last = 0;
+
+  for (const match of xml.matchAll(TAG_PATTERN)) {
+    const parent = stack[stack.length - 1];
+    if (match.index! > last) parent.children.push(decodeEntities(xml.slice(last, match.index)));
+    last = match.index! + match[0].length;
+
+    const [, closing, name, rawAttrs, selfClosing, cdata] = match;
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (!name) {
+      continue; // 注释、声明、DOCTYPE
+    } else if (closing) {
+      // 容忍不匹配的结束标签：回退到同名元素
+      const index = stack.map((element) => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+    } else {
+      const attrs: Record<string, string> = {};
+      for (const [, key, double, single] of rawAttrs.matchAll(ATTR_PATTERN)) {
+        attrs[key] = decodeEntities(double ?? single);
+      }
+      const element: XmlElement = { name, attrs, children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+  return root;
+}
+
+const isElement = (node: XmlNode): node is XmlElement => typeof node !== 'string';
+
+const child = (element: XmlElement | undefined, name: string) =>
+  element?.children.find((node): node is XmlElement => isElement(node) && node.name === name);
+
+const childrenNamed = (element: XmlElement, name: string) =>
+  element.children.filter((node): node is XmlElement => isElement(node) && node.name === name);
+
+/**
+ * 深度优先查找所有同名元素（不进入已匹配元素的内部）
+ */
+function findAll(element: XmlElement, name: string, found: XmlElement[] = []): XmlElement[] {
+  for (const node of element.children) {
+    if (!isElement(node)) continue;
+    if (node.name === name) found.push(node);
+    else findAll(node, name, found);
+  }
+  return found;
+}
+
+const textContent = (element: XmlElement): string =>
+  element.children.map((node) => (isElement(node) ? textContent(node) : node)).join('');
+
+// w:b、w:i 等开关属性：缺省 w:val 表示开启
+const isOn = (element: XmlElement | undefined) =>
+  !!element && !['0', 'false', 'off'].includes(element.attrs['w:val'] ?? '');
+
+// ==================== 样式与编号 ====================
+
+interface DocxContext {
+  /** 样式 ID → 标题级别 */
+  headingLevels: Map<string, number>;
+  /** 样式 ID → 样式自带的列表编号 */
+  styleNumbering: Map<string, { numId: string; level: number }>;
+  /** numId → 各级别是否为项目符号 */
+  bulletLevels: Map<string, Map<number, boolean>>;
+  footnotes: Map<string, XmlElement>;
+  endnotes: Map<string, XmlElement>;
+  /** 脚注/尾注按首次引用顺序编号，键为 "footnote:id" 或 "endnote:id" */
+  noteNumbers: Map<string, number>;
+  equationCount: number;
+}
+
+const HEADING_STYLE_PATTERN = /^(?:heading|标题)\s*([1-6])$/i;
+
+function readStyles(styles: XmlElement | null, context: DocxContext) {
+  if (!styles) return;
+  for (const style of findAll(styles, 'w:style')) {
+    const id = style.attrs['w:styleId'];
+    if (!id) continue;
+    const name = child(style, 'w:name')?.attrs['w:val'] ?? '';
+    const pPr = child(style, 'w:pPr');
+    const outline = child(pPr, 'w:outlineLvl')?.attrs['w:val'];
+    const heading = HEADING_STYLE_PATTERN.exec(name) ?? HEADING_STYLE_PATTERN.exec(id);
+    if (heading) {
+      context.headingLevels.set(id, Number(heading[1]));
+    } else if (/^title$/i.test(name)) {
+      context.headingLevels.set(id, 1);
+    } else if (outline !== undefined && Number(outline) < 6) {
+      context.headingLevels.set(id, Number(outline) + 1);
+    }
+
+    const numPr = child(pPr, 'w:numPr');
+    const numId = child(numPr, 'w:numId')?.attrs['w:val'];
+    if (numId) {
+      context.styleNumbering.set(id, { numId, level: Number(child(numPr, 'w:ilvl')?.attrs['w:val'] ?? 0) });
+    }
+  }
+}
+
+function readNumbering(numbering: XmlElement | null, context: DocxContext) {
+  if (!numbering) return;
+  const abstractBullets = new Map<string, Map<number, boolean>>();
+  for (const abstract of findAll(numbering, 'w:abstractNum')) {
+    const levels = new Map<number, boolean>();
+    for (const level of childrenNamed(abstract, 'w:lvl')) {
+      levels.set(Number(level.attrs['w:ilvl'] ?? 0), child(level, 'w:numFmt')?.attrs['w:val'] === 'bullet');
+    }
+    abstractBullets.set(abstract.attrs['w:abstractNumId'], levels);
+  }
+  for (const num of findAll(numbering, 'w:num')) {
+    const abstractId = child(num, 'w:abstractNumId')?.attrs['w:val'];
+    const levels = abstractId !== undefined ? abstractBullets.get(abstractId) : undefined;
+    if (levels) context.bulletLevels.set(num.attrs['w:numId'], levels);
+  }
+}
+
+function readNotes(notes: XmlElement | null, name: string): Map<string, XmlElement> {
+  const map = new Map<string, XmlElement>();
+  if (!notes) return map;
+  for (const note of findAll(notes, name)) {
+    // 分隔线等非正文注释带 w:type
+    const type = note.attrs['w:type'];
+    if (!type || type === 'normal') map.set(note.attrs['w:id'], note);
+  }
+  return map;
+}
+
+// ==================== 转换 ====================
+
+// 公式占位符在确定文档语言后替换
+const EQUATION_MARK = (n: number) => `\u0000EQ${n}\u0000`;
+
+interface Segment {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+/**
+ * 收集段落中的文字片段；修订删除的内容、域代码和图形不输出
+ */
+function collectSegments(element: XmlElement, context: DocxContext, segments: Segment[]) {
+  for (const node of element.children) {
+    if (!isElement(node)) continue;
+    switch (node.name) {
+      case 'w:r': {
+        const rPr = child(node, 'w:rPr');
+        const bold = isOn(child(rPr, 'w:b'));
+        const italic = isOn(child(rPr, 'w:i'));
+        for (const part of node.children) {
+          if (!isElement(part)) continue;
+          if (part.name === 'w:t') segments.push({ text: textContent(part), bold, italic });
+          else if (part.name === 'w:tab') segments.push({ text: ' ', bold: false, italic: false });
+          else if (part.name === 'w:br' && part.attrs['w:type'] !== 'page') segments.push({ text: '\n', bold: false, italic: false });
+          else if (part.name === 'w:footnoteReference' || part.name === 'w:endnoteReference') {
+            const kind = part.name === 'w:footnoteReference' ? 'footnote' : 'endnote';
+            const key = `${kind}:${part.attrs['w:id']}`;
+            if (!context.noteNumbers.has(key)) context.noteNumbers.set(key, context.noteNumbers.size + 1);
+            segments.push({ text: `[^${context.noteNumbers.get(key)}]`, bold: false, italic: false });
+          }
+        }
+        break;
+      }
+      case 'm:oMath':
+        context.equationCount++;
+        segments.push({ text: EQUATION_MARK(context.equationCount), bold: false, italic: false });
+        break;
+      case 'w:del':
+      case 'w:pPr':
+      case 'w:rPr':
+        break;
+      default:
+        // w:hyperlink、w:ins、w:smartTag、w:fldSimple、m:oMathPara 等容器
+        collectSegments(node, context, segments);
+    }
+  }
+}
+
+/**
+ * 合并格式相同的相邻片段后加上 Markdown 强调标记；标记放在首尾空白之内
+ */
+function renderSegments(segments: Segment[]): string {
+  const merged: Segment[] = [];
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.bold === segment.bold && previous.italic === segment.italic) {
+      previous.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged
+    .map(({ text, bold, italic }) => {
+      const marker = (bold ? '**' : '') + (italic ? '*' : '');
+      if (!marker || !text.trim()) return text;
+      const [, leading, body, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+      return `${leading}${marker}${body}${marker}${trailing}`;
+    })
+    .join('');
+}
+
+const paragraphText = (paragraph: XmlElement, context: DocxContext) => {
+  const segments: Segment[] = [];
+  collectSegments(paragraph, context, segments);
+  return renderSegments(segments).replace(/[ \t]+\n/g, '\n').trim();
+};
+
+interface Block {
+  text: string;
+  /** 列表项之间只隔一个换行 */
+  listItem: boolean;
+}
+
+function convertParagraph(paragraph: XmlElement, context: DocxContext): Block | null {
+  const pPr = child(paragraph, 'w:pPr');
+  const styleId = child(pPr, 'w:pStyle')?.attrs['w:val'];
+  const text = paragraphText(paragraph, context);
+  if (!text) return null;
+
+  // 整段只有公式时作为独立公式
+  if (/^\u0000EQ\d+\u0000$/.test(text)) return { text, listItem: false };
+
+  const outline = child(pPr, 'w:outlineLvl')?.attrs['w:val'];
+  const styleLevel = styleId ? context.headingLevels.get(styleId) : undefined;
+  const level = styleLevel ?? (outline !== undefined && Number(outline) < 6 ? Number(outline) + 1 : 0);
+  if (level) {
+    return { text: `${'#'.repeat(level)} ${text.replace(/\*+/g, '').replace(/\n/g, ' ')}`, listItem: false };
+  }
+
+  const numPr = child(pPr, 'w:numPr');
+  const styleNumbering = styleId ? context.styleNumbering.get(styleId) : undefined;
+  const numId = child(numPr, 'w:numId')?.attrs['w:val'] ?? styleNumbering?.numId;
+  // numId 为 0 表示显式取消编号
+  if (numId && numId !== '0') {
+    const ilvl = Number(child(numPr, 'w:ilvl')?.attrs['w:val'] ?? styleNumbering?.level ?? 0);
+    const bullet = context.bulletLevels.get(numId)?.get(ilvl) ?? true;
+    const indent = '    '.repeat(ilvl);
+    return { text: `${indent}${bullet ? '-' : '1.'} ${text.replace(/\n/g, `\n${indent}  `)}`, listItem: true };
+  }
+
+  return { text, listItem: false };
+}
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, '<br>');
+
+function convertTable(table: XmlElement, context: DocxContext): Block | null {
+  const rows: string[][] = [];
+  for (const row of findAll(table, 'w:tr')) {
+    const cells: string[] = [];
+    for (const cell of childrenNamed(row, 'w:tc')) {
+      const tcPr = child(cell, 'w:tcPr');
+      const span = Number(child(tcPr, 'w:gridSpan')?.attrs['w:val'] ?? 1);
+      // 纵向合并的后续单元格没有 w:val="restart"，内容为空
+      const vMerge = child(tcPr, 'w:vMerge');
+      const continued = vMerge !== undefined && vMerge.attrs['w:val'] !== 'restart';
+      const text = continued
+        ? ''
+        : convertBody(cell, context)
+            .map((block) => block.text)
+            .join('\n');
+      cells.push(escapeCell(text), ...Array<string>(Math.max(0, span - 1)).fill(''));
+    }
+    if (cells.length > 0) rows.push(cells);
+  }
+  if (rows.length === 0) return null;
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (row: string[]) => `| ${[...row, ...Array<string>(width - row.length).fill('')].join(' | ')} |`;
+  const [header, ...body] = rows;
+  return {
+    text: [line(header), `| ${Array<string>(width).fill('---').join(' | ')} |`, ...body.map(line)].join('\n'),
+    listItem: false,
+  };
+}
+
+function convertBody(container: XmlElement, context: DocxContext): Block[] {
+  const blocks: Block[] = [];
+  for (const node of container.children) {
+    if (!isElement(node)) continue;
+    let block: Block | null = null;
+    if (node.name === 'w:p') block = convertParagraph(node, context);
+    else if (node.name === 'w:tbl') block = convertTable(node, context);
+    else if (node.name === 'w:sdt') blocks.push(...convertBody(child(node, 'w:sdtContent') ?? node, context));
+    else if (node.name === 'm:oMathPara') block = convertParagraph(node, context);
+    if (block) blocks.push(block);
+  }
+  return blocks;
+}
+
+const joinBlocks = (blocks: Block[]) =>
+  blocks
+    .map((block, i) => (i === 0 ? '' : block.listItem && blocks[i - 1].listItem ? '\n' : '\n\n') + block.text)
+    .join('');
+
+/**
+ * 将 DOCX 文件内容转换为 Markdown
+ *
+ * @throws {Error} 当文件不是有效的 DOCX 压缩包时
+ */
+export async function convertDocxToMarkdown(data: ArrayBuffer): Promise<string> {
+  const archive = new ZipArchive(new Uint8Array(data));
+  const read = async (name: string) => {
+    const xml = await archive.readText(name);
+    return xml === null ? null : parseXml(xml);
+  };
+
+  const [document, styles, numbering, footnotes, endnotes] = await Promise.all([
+    read('word/document.xml'),
+    read('word/styles.xml'),
+    read('word/numbering.xml'),
+    read('word/footnotes.xml'),
+    read('word/endnotes.xml'),
+  ]);
+  const body = document && findAll(document, 'w:body')[0];
+  if (!body) {
+    throw new Error('DOCX 文件中缺少正文（word/document.xml）');
+  }
+
+  const context: DocxContext = {
+    headingLevels: new Map(),
+    styleNumbering: new Map(),
+    bulletLevels: new Map(),
+    footnotes: readNotes(footnotes, 'w:footnote'),
+    endnotes: readNotes(endnotes, 'w:endnote'),
+    noteNumbers: new Map(),
+    equationCount: 0,
+  };
+  readStyles(styles, context);
+  readNumbering(numbering, context);
+
+  let markdown = joinBlocks(convertBody(body, context));
+
+  // 脚注正文中也可能引用新的注释，逐个处理直到编号不再增加
+  const definitions: string[] = [];
+  for (const [key, n] of context.noteNumbers) {
+    const [kind, id] = key.split(':');
+    const note = (kind === 'footnote' ? context.footnotes : context.endnotes).get(id);
+    const text = note ? convertBody(note, context).map((block) => block.text).join(' ') : '';
+    definitions.push(`[^${n}]: ${text.replace(/\n+/g, ' ')}`);
+  }
+  if (definitions.length > 0) {
+    markdown += `\n\n${definitions.join('\n')}`;
+  }
+
+  const label = detectLanguage(markdown.replace(/\u0000EQ\d+\u0000/g, '')) === 'en' ? 'Equation' : '公式';
+  return markdown.replace(/\u0000EQ(\d+)\u0000/g, (_, n) => `[${label} ${n}]`);
+}
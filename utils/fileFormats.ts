@@ -0,0 +1,90 @@
+/**
+ * 支持上传的文件格式与统一的读取入口。
+ * 上传组件的 accept 属性、格式校验和内容读取共用这一份列表。
+ */
+
+import { convertDocxToMarkdown } from './docx';
+import { FileError } from '../src/errors';
+
+export interface FileFormat {
+  extension: string;
+  mimeTypes: string[];
+  label: string;
+  /** 二进制格式需要转换为 Markdown */
+  binary: boolean;
+}
+
+export const ACCEPTED_FILE_FORMATS: FileFormat[] = [
+  { extension: '.md', mimeTypes: ['text/markdown'], label: 'MD', binary: false },
+  { extension: '.txt', mimeTypes: ['text/plain'], label: 'TXT', binary: false },
+  { extension: '.tex', mimeTypes: ['text/x-tex'], label: 'TEX', binary: false },
+  {
+    extension: '.docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    label: 'DOCX',
+    binary: true,
+  },
+];
+
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/** 用于 <input type="file"> 的 accept 属性 */
+export const FILE_ACCEPT = ACCEPTED_FILE_FORMATS.flatMap((format) => [format.extension, ...format.mimeTypes]).join(',');
+
+/** 用于提示文字，如 "MD, TXT, TEX, DOCX" */
+export const ACCEPTED_FORMAT_LABELS = ACCEPTED_FILE_FORMATS.map((format) => format.label).join(', ');
+
+/**
+ * 按扩展名（优先）或 MIME 类型确定文件格式，不支持时返回 undefined
+ */
+export function getFileFormat(file: File): FileFormat | undefined {
+  const fileName = file.name.toLowerCase();
+  return (
+    ACCEPTED_FILE_FORMATS.find((format) => fileName.endsWith(format.extension)) ??
+    ACCEPTED_FILE_FORMATS.find((format) => format.mimeTypes.includes(file.type))
+  );
+}
+
+/**
+ * 读取文件内容为文本；DOCX 转换为 Markdown
+ *
+ * @throws {FileError} 当格式不受支持、文件过大、为空或无法解析时
+ */
+export async function readFileContent(file: File): Promise<string> {
+  const format = getFileFormat(file);
+  if (!format) {
+    const hint = /\.doc$/i.test(file.name) ? '请在 Word 中另存为 .docx 后再上传。' : '';
+    throw new FileError(
+      `不支持的文件类型: ${file.type || file.name}。支持的类型: ${ACCEPTED_FORMAT_LABELS}（暂不支持 PDF 和 DOC）。${hint}`,
+      'INVALID_FILE_TYPE',
+      file.name,
+      file.size
+    );
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    throw new FileError(
+      `文件过大: ${(file.size / 1024 / 1024).toFixed(2)}MB (最大 ${MAX_FILE_SIZE / 1024 / 1024}MB)`,
+      'FILE_TOO_LARGE',
+      file.name,
+      file.size
+    );
+  }
+
+  let content: string;
+  try {
+    content = format.binary ? await convertDocxToMarkdown(await file.arrayBuffer()) : await file.text();
+  } catch (err) {
+    throw new FileError(
+      `读取文件 ${file.name} 失败: ${err instanceof Error ? err.message : String(err)}`,
+      'FILE_READ_ERROR',
+      file.name,
+      file.size
+    );
+  }
+
+  if (!content.trim()) {
+    throw new FileError(`文件 ${file.name} 没有可用的文本内容`, 'FILE_EMPTY', file.name, file.size);
+  }
+  return content;
+}
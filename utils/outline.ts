@@ -0,0 +1,113 @@
+/**
+ * 草稿章节大纲
+ *
+ * 按 Markdown 标题把草稿拆分为章节，保留原文的全部字符（包括换行和空行），
+ * 因此未选中的章节可以原样拼回。
+ */
+
+import { isMarkdownHeading } from './analysis/text';
+import { WorkflowError } from '../src/errors';
+
+export interface DraftSection {
+  index: number;
+  /** 标题文本（去除 # 前缀），文档开头没有标题的部分为空字符串 */
+  title: string;
+  /** 标题级别，文档开头没有标题的部分为 0 */
+  level: number;
+  /** 原文中的标题行（含换行符） */
+  heading: string;
+  /** 标题之后、下一个标题之前的原文 */
+  body: string;
+}
+
+/**
+ * 解析章节大纲
+ * 所有章节的 heading + body 依次拼接等于原文；代码块内的 # 行不视为标题
+ */
+export function parseOutline(text: string): DraftSection[] {
+  const sections: DraftSection[] = [];
+  let current: DraftSection = { index: 0, title: '', level: 0, heading: '', body: '' };
+  let inFence = false;
+
+  for (const line of text.match(/[^\n]*\n|[^\n]+$/g) ?? []) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    if (!inFence && isMarkdownHeading(line)) {
+      if (current.heading || current.body) {
+        sections.push(current);
+      }
+      const trimmed = line.trim();
+      current = {
+        index: sections.length,
+        title: trimmed.replace(/^#+\s*/, ''),
+        level: trimmed.match(/^#+/)![0].length,
+        heading: line,
+        body: '',
+      };
+    } else {
+      current.body += line;
+    }
+  }
+
+  if (current.heading || current.body) {
+    sections.push(current);
+  }
+
+  return sections;
+}
+
+/**
+ * 章节是否有可改写的内容（文档开头只有空白时不计入）
+ */
+export function hasContent(section: DraftSection): boolean {
+  return section.heading !== '' || section.body.trim() !== '';
+}
+
+/**
+ * 将选中的章节拼接为送去改写的文本
+ */
+export function extractSections(sections: DraftSection[], selected: number[]): string {
+  return sections
+    .filter((section) => selected.includes(section.index) && hasContent(section))
+    .map((section) => (section.heading + section.body).trim())
+    .join('\n\n');
+}
+
+/**
+ * 将改写后的章节拼回原文
+ * 改写结果按顺序与选中的章节一一对应；标题行和章节前后的空白沿用原文，
+ * 未选中的章节原样保留。
+ *
+ * @throws {WorkflowError} 当改写结果的章节数与选中的章节数不一致时
+ */
+export function spliceSections(
+  sections: DraftSection[],
+  selected: number[],
+  rewritten: string
+): string {
+  const targets = sections.filter((section) => selected.includes(section.index) && hasContent(section));
+  const replacements = parseOutline(rewritten).filter(hasContent);
+
+  if (replacements.length !== targets.length) {
+    throw new WorkflowError(
+      `改写结果包含 ${replacements.length} 个章节，与所选的 ${targets.length} 个章节不一致，无法拼接`,
+      'splice_sections'
+    );
+  }
+
+  const bodies = new Map(targets.map((section, i) => [section.index, replacements[i].body.trim()]));
+
+  return sections
+    .map((section) => {
+      const body = bodies.get(section.index);
+      if (body === undefined) {
+        return section.heading + section.body;
+      }
+      const leading = section.body.match(/^\s*/)![0] || (body && !section.heading.endsWith('\n') ? '\n\n' : '');
+      const trailing = section.body.slice(leading.length).match(/\s*$/)![0];
+      return section.heading + leading + body + trailing;
+    })
+    .join('');
+}
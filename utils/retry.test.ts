@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { RetryPolicy } from '@papermirror/types';
+import { ApiError, ValidationError } from '../src/errors';
+import { getRetryDelay, parseRetryAfter } from './retry';
+
+const policy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 300000,
+};
+
+const rateLimited = (retryAfterMs?: number) => {
+  const error = new ApiError('请求过于频繁', 'RATE_LIMITED', 429);
+  error.retryAfterMs = retryAfterMs;
+  return error;
+};
+
+describe('getRetryDelay', () => {
+  it('waits the full Retry-After time even when it exceeds maxDelayMs', () => {
+    expect(getRetryDelay(rateLimited(120000), 1, policy)).toBe(120000);
+  });
+
+  it('gives up when Retry-After exceeds maxRetryAfterMs', () => {
+    expect(getRetryDelay(rateLimited(300001), 1, policy)).toBeNull();
+  });
+
+  it('falls back to capped backoff without Retry-After', () => {
+    const delay = getRetryDelay(rateLimited(), 10, { ...policy, maxAttempts: 20 });
+    expect(delay).not.toBeNull();
+    expect(delay!).toBeLessThanOrEqual(policy.maxDelayMs);
+  });
+
+  it('stops after maxAttempts and on non-retryable errors', () => {
+    expect(getRetryDelay(rateLimited(1000), 3, policy)).toBeNull();
+    expect(getRetryDelay(new ValidationError('无效输入'), 1, policy)).toBeNull();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:30:00 GMT', now)).toBe(120000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
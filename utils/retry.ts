@@ -0,0 +1,113 @@
+/**
+ * 重试工具 - 指数退避、Retry-After 解析与可取消的等待。
+ */
+
+import type { RetryPolicy } from '@papermirror/types';
+import { ApiError, CancellationError, isCancellationError, isRetryableError } from '../src/errors';
+
+export interface RetryOptions {
+  policy: RetryPolicy;
+  /** 取消信号，触发后停止重试并中断等待 */
+  signal?: AbortSignal;
+  /** 每次等待重试前调用，attempt 为刚刚失败的尝试序号 */
+  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void;
+}
+
+/**
+ * 计算第 attempt 次失败后的等待时间（毫秒）。
+ * 采用 "full jitter" 策略：在 [0, min(maxDelay, baseDelay * 2^(attempt-1))] 内随机取值，
+ * 避免多个客户端在同一时刻重试。
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped * random());
+}
+
+/**
+ * 解析 HTTP Retry-After 头。
+ * 支持秒数（"120"）和 HTTP 日期（"Wed, 21 Oct 2015 07:28:00 GMT"）两种格式。
+ * 返回等待毫秒数；无法解析时返回 undefined。
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * 等待指定时间，信号触发时以 CancellationError 提前结束。
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancellationError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancellationError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 计算下一次重试前的等待时间。
+ * 服务器给出 Retry-After 时按其等待完整时间（不受 maxDelayMs 限制），
+ * 超过 maxRetryAfterMs 才放弃重试。
+ * 返回等待毫秒数；不应重试时返回 null。
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number | null {
+  if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+    return null;
+  }
+
+  if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxRetryAfterMs ? error.retryAfterMs : null;
+  }
+
+  return computeBackoffDelay(attempt, policy);
+}
+
+/**
+ * 按重试策略执行异步操作。
+ * 仅对可重试错误（isRetryableError）重试，取消错误直接抛出。
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  { policy, signal, onRetry }: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || isCancellationError(error)) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(error, attempt, policy);
+      if (delayMs === null) {
+        throw error;
+      }
+      onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { buildReviewParagraphs, composeMergedDocument } from './review';
+
+const composeAll = (draft: string, variants: Parameters<typeof buildReviewParagraphs>[1], choice: 'draft' | 'standard') =>
+  composeMergedDocument(buildReviewParagraphs(draft, variants), {}, choice);
+
+describe('buildReviewParagraphs', () => {
+  it.each([
+    ['closing quote and bracket at paragraph end', '实验结束后，他说：“结果很好。”\n\n下一段（见图3。）'],
+    ['single-character paragraph', 'A'],
+    ['single-character Chinese paragraph', '第一段。\n\n好'],
+    ['English closers', 'He said "it works." Then he left.\n\nSee the appendix (Table 2.)'],
+    ['heading and list', '# 标题\n\n- 第一项\n- 第二项\n\n正文第一句。正文第二句！'],
+  ])('reproduces the draft when every unit keeps the draft (%s)', (_, draft) => {
+    const variants = { standard: draft.replace(/结果|it/g, (m) => (m === 'it' ? 'this' : '效果')) };
+    expect(composeAll(draft, variants, 'draft')).toBe(draft);
+  });
+
+  it('keeps trailing closers with the sentence they end', () => {
+    const draft = '他说：“结果很好。”随后离开。';
+    const [paragraph] = buildReviewParagraphs(draft, { standard: '他说：“效果很好。”随后离开。' });
+    expect(paragraph.units.map((unit) => unit.draft)).toEqual(['他说：“结果很好。”', '随后离开。']);
+    expect(paragraph.units.map((unit) => unit.variants.standard)).toEqual(['他说：“效果很好。”', '随后离开。']);
+  });
+
+  it('reproduces a variant when every unit selects it', () => {
+    const draft = '第一句。第二句（注释。）\n\nB';
+    const standard = '改写第一句。改写第二句（注释。）\n\nB';
+    expect(composeAll(draft, { standard }, 'standard')).toBe(standard);
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * 审阅合稿
+ *
+ * 把草稿和各改写版本切分为可逐一取舍的审阅单元：先按段落对齐，
+ * 段落两侧都是单段时再按句子对齐。单元的边界取所有版本对齐边界的交集，
+ * 因此任意组合选择都能拼出结构完整的合稿。
+ */
+
+import type {
+  CitationInsertion,
+  CitationStyle,
+  MigrationResult,
+  ReviewChoice,
+  RewriteVariant,
+  TextLanguage,
+} from '@papermirror/types';
+import { alignSentenceLists, detectLanguage, isMarkdownHeading, splitSentences } from './analysis';
+
+export const REVIEW_VARIANTS: RewriteVariant[] = ['conservative', 'standard', 'enhanced'];
+
+export interface ReviewUnit {
+  /** 段落序号.单元序号，同一结果每次计算都相同 */
+  id: string;
+  draft: string;
+  variants: Partial<Record<RewriteVariant, string>>;
+}
+
+export interface ReviewParagraph {
+  index: number;
+  /** 标题段落，审阅界面中作为按节批量选择的分组 */
+  heading: boolean;
+  /** 段内单元之间的连接符：中文句子直接相连，英文以空格分隔 */
+  joiner: string;
+  units: ReviewUnit[];
+}
+
+export interface CitationOptions {
+  insertions: CitationInsertion[];
+  style: CitationStyle;
+  /** numeric 样式下文末参考文献列表的条目文本，按键索引 */
+  references?: Record<string, string>;
+}
+
+interface UnitRange {
+  draft: [number, number];
+  variants: Partial<Record<RewriteVariant, [number, number]>>;
+}
+
+/**
+ * 按空行切分段落；标题行单独成段，代码块整体成段
+ */
+export function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+  const flush = () => {
+    if (current.length) blocks.push(current.join('\n'));
+    current = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      if (!inFence) flush();
+      inFence = !inFence;
+      current.push(line);
+      if (!inFence) flush();
+      continue;
+    }
+    if (inFence) {
+      current.push(line);
+    } else if (!line.trim()) {
+      flush();
+    } else if (isMarkdownHeading(line)) {
+      flush();
+      blocks.push(line.trim());
+    } else {
+      current.push(line.trimEnd());
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * 对齐草稿与各版本的条目（段落或句子），按所有版本共同的边界分组
+ */
+function groupByCommonCuts(
+  draftItems: string[],
+  variantItems: Partial<Record<RewriteVariant, string[]>>,
+  language: TextLanguage
+): UnitRange[] {
+  const n = draftItems.length;
+  const variants = REVIEW_VARIANTS.filter((variant) => variantItems[variant]);
+  const alignments = variants.map((variant) => ({
+    variant,
+    pairs: alignSentenceLists(draftItems, variantItems[variant]!, language),
+  }));
+
+  // 草稿条目 k - 1 与 k 之间可以切开，当且仅当每个版本都没有跨过该位置的对齐
+  const cuttable = new Array<boolean>(n + 1).fill(true);
+  for (const { pairs } of alignments) {
+    for (const pair of pairs) {
+      for (let k = 1; k < pair.draft.length; k++) {
+        cuttable[pair.draft[k]] = false;
+      }
+    }
+  }
+
+  const ranges: UnitRange[] = [];
+  const unitOf = new Array<number>(n);
+  let start = 0;
+  for (let k = 1; k <= n; k++) {
+    if (k === n || cuttable[k]) {
+      for (let i = start; i < k; i++) unitOf[i] = ranges.length;
+      ranges.push({ draft: [start, k], variants: {} });
+      start = k;
+    }
+  }
+  if (ranges.length === 0) {
+    ranges.push({ draft: [0, 0], variants: {} });
+  }
+
+  // 改写条目归入所对齐草稿条目的单元；新增的条目跟随前一个单元
+  for (const { variant, pairs } of alignments) {
+    let unit = 0;
+    for (const pair of pairs) {
+      if (pair.draft.length > 0) unit = unitOf[pair.draft[0]];
+      if (pair.rewritten.length === 0) continue;
+      const range = ranges[unit].variants[variant];
+      const first = pair.rewritten[0];
+      const last = pair.rewritten[pair.rewritten.length - 1] + 1;
+      ranges[unit].variants[variant] = range ? [range[0], last] : [first, last];
+    }
+  }
+
+  return ranges;
+}
+
+const sliceJoin = (items: string[], range: [number, number] | undefined, joiner: string) =>
+  range ? items.slice(range[0], range[1]).join(joiner) : '';
+
+const LEADING_CLOSERS = /^[”’」』）】》)\]]+/;
+
+/**
+ * 把段落切为首尾相接的句子：切句会丢弃过短的片段（如句末的 ” 或 ）、单字段落），
+ * 句间遗漏的文本并入前一句。用连接符拼回后与原段落不一致时返回 null
+ */
+function splitUnitSentences(text: string, language: TextLanguage, joiner: string): string[] | null {
+  const pieces: string[] = [];
+  let cursor = 0;
+  for (const { text: sentence } of splitSentences(text, language)) {
+    const start = text.indexOf(sentence, cursor);
+    if (start === -1) return null;
+    const gap = text.slice(cursor, start);
+    if (pieces.length > 0) {
+      // 句间的连接符留给拼接时补回；句首的后引号、后括号属于前一句
+      const closers = gap ? '' : LEADING_CLOSERS.exec(sentence)?.[0] ?? '';
+      pieces[pieces.length - 1] += (joiner && gap.endsWith(joiner) ? gap.slice(0, -joiner.length) : gap) + closers;
+      if (sentence.length > closers.length) pieces.push(sentence.slice(closers.length));
+    } else {
+      pieces.push(gap + sentence);
+    }
+    cursor = start + sentence.length;
+  }
+
+  if (pieces.length === 0) return text ? [text] : [];
+  pieces[pieces.length - 1] += text.slice(cursor);
+  return pieces.join(joiner) === text ? pieces : null;
+}
+
+/**
+ * 在单个段落单元内按句子细分；段落内有换行（列表、表格等）或句子无法原样拼回时保持整段
+ */
+function splitParagraphUnit(
+  draft: string,
+  variants: Partial<Record<RewriteVariant, string>>,
+  language: TextLanguage,
+  joiner: string
+): Array<Omit<ReviewUnit, 'id'>> {
+  const texts = [draft, ...Object.values(variants)];
+  if (texts.some((text) => text === undefined || text.includes('\n') || isMarkdownHeading(text))) {
+    return [{ draft, variants }];
+  }
+
+  const draftSentences = splitUnitSentences(draft, language, joiner);
+  if (!draftSentences) return [{ draft, variants }];
+  const variantSentences: Partial<Record<RewriteVariant, string[]>> = {};
+  for (const variant of REVIEW_VARIANTS) {
+    const text = variants[variant];
+    if (text === undefined) continue;
+    const sentences = splitUnitSentences(text, language, joiner);
+    if (!sentences) return [{ draft, variants }];
+    variantSentences[variant] = sentences;
+  }
+
+  return groupByCommonCuts(draftSentences, variantSentences, language).map((range) => {
+    const unitVariants: Partial<Record<RewriteVariant, string>> = {};
+    for (const variant of REVIEW_VARIANTS) {
+      const sentences = variantSentences[variant];
+      if (sentences) unitVariants[variant] = sliceJoin(sentences, range.variants[variant], joiner);
+    }
+    return { draft: sliceJoin(draftSentences, range.draft, joiner), variants: unitVariants };
+  });
+}
+
+/**
+ * 构建审阅单元
+ */
+export function buildReviewParagraphs(
+  draft: string,
+  variants: Partial<Record<RewriteVariant, string>>
+): ReviewParagraph[] {
+  const language = detectLanguage(draft);
+  const joiner = language === 'en' ? ' ' : '';
+  const draftBlocks = splitBlocks(draft);
+  const variantBlocks: Partial<Record<RewriteVariant, string[]>> = {};
+  for (const variant of REVIEW_VARIANTS) {
+    const text = variants[variant];
+    if (text) variantBlocks[variant] = splitBlocks(text);
+  }
+
+  return groupByCommonCuts(draftBlocks, variantBlocks, language).map((range, index) => {
+    const paragraphDraft = sliceJoin(draftBlocks, range.draft, '\n\n');
+    const paragraphVariants: Partial<Record<RewriteVariant, string>> = {};
+    for (const variant of REVIEW_VARIANTS) {
+      const blocks = variantBlocks[variant];
+      if (blocks) paragraphVariants[variant] = sliceJoin(blocks, range.variants[variant], '\n\n');
+    }
+
+    const units = splitParagraphUnit(paragraphDraft, paragraphVariants, language, joiner);
+    return {
+      index,
+      heading: range.draft[1] - range.draft[0] === 1 && isMarkdownHeading(paragraphDraft),
+      joiner,
+      units: units.map((unit, i) => ({ ...unit, id: `${index}.${i}` })),
+    };
+  });
+}
+
+/**
+ * 取审阅单元在某一选择下的文本；所选版本不存在时退回草稿
+ */
+export function unitText(unit: ReviewUnit, choice: ReviewChoice): string {
+  if (choice === 'draft') return unit.draft;
+  return unit.variants[choice] ?? unit.draft;
+}
+
+// 句末标点（英文句点后需为空白或结尾，避免 e.g. 中的点）
+const SENTENCE_END = /[。！？!?]|\.(?=\s|$)/g;
+
+/**
+ * 找到引用在单元文本中的插入位置：锚点句子的句末标点之前；
+ * 所选版本改写了该句、找不到锚点时放在单元最后一个句末标点之前
+ */
+function citationPosition(text: string, anchor: string): number {
+  const trimmed = text.trimEnd();
+  const start = anchor ? text.indexOf(anchor) : -1;
+  if (start !== -1) {
+    SENTENCE_END.lastIndex = start + Math.max(0, anchor.length - 1);
+    const end = SENTENCE_END.exec(text);
+    if (end && end.index < trimmed.length) return end.index;
+    return trimmed.length;
+  }
+  return /[。！？!?.]$/.test(trimmed) ? trimmed.length - 1 : trimmed.length;
+}
+
+/**
+ * 按选择拼出合稿；带引用时在对应句子处插入 \cite{key} 或 [n]，numeric 样式在文末附参考文献
+ */
+export function composeMergedDocument(
+  paragraphs: ReviewParagraph[],
+  selections: Record<string, ReviewChoice>,
+  defaultChoice: ReviewChoice,
+  citations?: CitationOptions
+): string {
+  const byUnit = new Map<string, CitationInsertion[]>();
+  for (const insertion of citations?.insertions ?? []) {
+    byUnit.set(insertion.unitId, [...(byUnit.get(insertion.unitId) ?? []), insertion]);
+  }
+  // [n] 按在合稿中首次出现的顺序编号
+  const numbers = new Map<string, number>();
+
+  const withCitations = (unit: ReviewUnit, text: string, joiner: string) => {
+    const insertions = byUnit.get(unit.id);
+    if (!citations || !insertions || !text.trim()) return text;
+
+    const groups = new Map<number, string[]>();
+    for (const insertion of insertions) {
+      const position = citationPosition(text, insertion.anchor);
+      groups.set(position, [...(groups.get(position) ?? []), insertion.key]);
+    }
+    const ordered = [...groups.entries()].sort((a, b) => a[0] - b[0]);
+    const markers = ordered.map(([position, keys]) => {
+      const unique = [...new Set(keys)];
+      if (citations.style === 'latex') return [position, `${joiner}\\cite{${unique.join(',')}}`] as const;
+      for (const key of unique) {
+        if (!numbers.has(key)) numbers.set(key, numbers.size + 1);
+      }
+      return [position, `${joiner}[${unique.map((key) => numbers.get(key)).join(', ')}]`] as const;
+    });
+
+    let result = text;
+    for (const [position, marker] of markers.reverse()) {
+      result = result.slice(0, position) + marker + result.slice(position);
+    }
+    return result;
+  };
+
+  const body = paragraphs
+    .map((paragraph) =>
+      paragraph.units
+        .map((unit) => withCitations(unit, unitText(unit, selections[unit.id] ?? defaultChoice), paragraph.joiner))
+        .filter((text) => text.trim() !== '')
+        .join(paragraph.joiner)
+    )
+    .filter((text) => text.trim() !== '')
+    .join('\n\n');
+
+  if (citations?.style !== 'numeric' || numbers.size === 0) return body;
+  const heading = paragraphs[0]?.joiner === ' ' ? 'References' : '参考文献';
+  const references = [...numbers.entries()].map(
+    ([key, n]) => `[${n}] ${citations.references?.[key] ?? key}`
+  );
+  return `${body}\n\n## ${heading}\n\n${references.join('\n\n')}`;
+}
+
+/**
+ * 计算结果指纹（FNV-1a），用于判断保存的审阅是否属于当前结果
+ */
+export function fingerprintResult(result: MigrationResult): string {
+  const source = [result.draft ?? '', ...REVIEW_VARIANTS.map((variant) => result[variant] ?? '')].join('\u0000');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}_${source.length}`;
+}
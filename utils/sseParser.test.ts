@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { SSEParser } from './sseParser';
+import type { SSEMessage } from './sseParser';
+
+// 按给定的分块依次输入，收集全部事件
+const feedAll = (parser: SSEParser, chunks: string[]): SSEMessage[] =>
+  chunks.flatMap((chunk) => parser.feed(chunk));
+
+describe('SSEParser', () => {
+  describe('line endings', () => {
+    it.each([
+      ['LF', '\n'],
+      ['CR', '\r'],
+      ['CRLF', '\r\n'],
+    ])('parses %s line endings', (_, eol) => {
+      const messages = feedAll(new SSEParser(), [`data: a${eol}${eol}data: b${eol}${eol}`]);
+      expect(messages.map((m) => m.data)).toEqual(['a', 'b']);
+    });
+
+    it.each([
+      ['LF', '\n'],
+      ['CR', '\r'],
+      ['CRLF', '\r\n'],
+    ])('parses %s line endings split at every character', (_, eol) => {
+      const stream = `event: delta${eol}data: one${eol}${eol}data: two${eol}${eol}`;
+      const messages = feedAll(new SSEParser(), [...stream]);
+      expect(messages).toEqual([
+        { type: 'delta', data: 'one', lastEventId: '' },
+        { type: 'message', data: 'two', lastEventId: '' },
+      ]);
+    });
+
+    it('does not treat a CRLF split across chunks as two line breaks', () => {
+      const messages = feedAll(new SSEParser(), ['data: a\r', '\ndata: b\r', '\n\r', '\n']);
+      expect(messages.map((m) => m.data)).toEqual(['a\nb']);
+    });
+
+    it('keeps an unfinished line until the next chunk', () => {
+      const parser = new SSEParser();
+      expect(parser.feed('data: hel')).toEqual([]);
+      expect(parser.feed('lo\n\n')).toEqual([{ type: 'message', data: 'hello', lastEventId: '' }]);
+    });
+  });
+
+  it('joins multi-line data fields with LF', () => {
+    const messages = feedAll(new SSEParser(), ['data: first\ndata:second\ndata\ndata:  indented\n\n']);
+    expect(messages[0].data).toBe('first\nsecond\n\n indented');
+  });
+
+  it('ignores id values that contain NUL', () => {
+    const parser = new SSEParser();
+    const messages = feedAll(parser, ['id: 1\ndata: a\n\n', 'id: 2\0x\ndata: b\n\n']);
+    expect(messages.map((m) => m.lastEventId)).toEqual(['1', '1']);
+    expect(parser.lastEventId).toBe('1');
+  });
+
+  it('accepts only all-digit retry values', () => {
+    const parser = new SSEParser();
+    parser.feed('retry: 2500\n\n');
+    expect(parser.reconnectionTime).toBe(2500);
+    parser.feed('retry: 10s\nretry: -1\nretry:\n\n');
+    expect(parser.reconnectionTime).toBe(2500);
+  });
+
+  it('strips a leading BOM only at the start of the stream', () => {
+    const parser = new SSEParser();
+    const messages = feedAll(parser, ['\uFEFFdata: a\n\n', '\uFEFFdata: b\n\n']);
+    // 第二个 BOM 使字段名以 BOM 开头，按未知字段忽略
+    expect(messages.map((m) => m.data)).toEqual(['a']);
+  });
+
+  it('strips the BOM again after reset', () => {
+    const parser = new SSEParser();
+    parser.feed('data: a\n\n');
+    parser.reset();
+    expect(parser.feed('\uFEFFdata: b\n\n').map((m) => m.data)).toEqual(['b']);
+  });
+
+  describe('Last-Event-ID', () => {
+    it('carries the last id to later events without an id field', () => {
+      const messages = feedAll(new SSEParser(), ['id: 7\ndata: a\n\ndata: b\n\n', 'id\ndata: c\n\n']);
+      expect(messages.map((m) => m.lastEventId)).toEqual(['7', '7', '']);
+    });
+
+    it('updates lastEventId even when the event has no data', () => {
+      const parser = new SSEParser();
+      expect(parser.feed('id: 42\n\n')).toEqual([]);
+      expect(parser.lastEventId).toBe('42');
+    });
+
+    it('keeps lastEventId across reset and discards the unfinished event', () => {
+      const parser = new SSEParser();
+      parser.feed('id: 3\ndata: done\n\nid: 4\ndata: partial\n');
+      parser.reset();
+      expect(parser.lastEventId).toBe('3');
+      expect(parser.feed('data: next\n\n')).toEqual([{ type: 'message', data: 'next', lastEventId: '3' }]);
+    });
+  });
+
+  it('reports comments and does not dispatch them', () => {
+    const comments: string[] = [];
+    const parser = new SSEParser({ onComment: (comment) => comments.push(comment) });
+    expect(parser.feed(': heartbeat\n:raw\n\n')).toEqual([]);
+    expect(comments).toEqual(['heartbeat', 'raw']);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Server-Sent Events 解析器 - 按 WHATWG HTML 规范（event stream interpretation）
+ * 将文本流拆分为事件。
+ *
+ * 支持：
+ * - CRLF / LF / CR 三种行结束符（包括跨数据块的 CRLF）
+ * - event / data / id / retry 字段与注释行
+ * - 多行 data 字段（以 \n 连接）
+ * - 跨事件保留的 Last-Event-ID，用于断线续传
+ */
+
+export interface SSEMessage {
+  /** 事件类型，未指定 event 字段时为 'message' */
+  type: string;
+  /** 事件数据，多行 data 以 \n 连接 */
+  data: string;
+  /** 事件分发时的 last event ID */
+  lastEventId: string;
+}
+
+export interface SSEParserOptions {
+  /** 收到注释行（以 ':' 开头，常用作心跳）时调用 */
+  onComment?: (comment: string) => void;
+}
+
+export class SSEParser {
+  /** 最近一次分发事件时的 ID，重连时作为 Last-Event-ID 请求头发送 */
+  lastEventId = '';
+  /** 服务器通过 retry 字段指定的重连间隔（毫秒） */
+  reconnectionTime: number | undefined;
+
+  private buffer = '';
+  private dataBuffer = '';
+  private eventTypeBuffer = '';
+  private lastEventIdBuffer = '';
+  private isFirstChunk = true;
+  private skipLeadingLF = false;
+
+  constructor(private options: SSEParserOptions = {}) {}
+
+  /**
+   * 输入一段已解码的文本，返回其中完整的事件。
+   * 未结束的行和未分发的事件保留到下一次调用。
+   */
+  feed(chunk: string): SSEMessage[] {
+    let text = chunk;
+
+    // 流开头的 BOM 需要忽略
+    if (this.isFirstChunk && text.length > 0) {
+      this.isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    // 上一块以 CR 结尾时，本块开头的 LF 属于同一个 CRLF
+    if (this.skipLeadingLF && text.length > 0) {
+      this.skipLeadingLF = false;
+      if (text[0] === '\n') {
+        text = text.slice(1);
+      }
+    }
+
+    this.buffer += text;
+    const messages: SSEMessage[] = [];
+
+    let lineStart = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\r' && char !== '\n') continue;
+
+      const line = this.buffer.slice(lineStart, i);
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.skipLeadingLF = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      lineStart = i + 1;
+
+      const message = this.processLine(line);
+      if (message) {
+        messages.push(message);
+      }
+    }
+
+    this.buffer = this.buffer.slice(lineStart);
+    return messages;
+  }
+
+  /**
+   * 流结束。按规范丢弃未完成的事件。
+   */
+  end(): void {
+    this.reset();
+  }
+
+  /**
+   * 清空行与事件缓冲区（用于重连），保留 lastEventId 和 reconnectionTime。
+   */
+  reset(): void {
+    this.buffer = '';
+    this.dataBuffer = '';
+    this.eventTypeBuffer = '';
+    this.lastEventIdBuffer = this.lastEventId;
+    this.isFirstChunk = true;
+    this.skipLeadingLF = false;
+  }
+
+  private processLine(line: string): SSEMessage | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    if (line[0] === ':') {
+      this.options.onComment?.(line.slice(1).replace(/^ /, ''));
+      return null;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value[0] === ' ') {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventTypeBuffer = value;
+        break;
+      case 'data':
+        this.dataBuffer += value + '\n';
+        break;
+      case 'id':
+        // 包含 NULL 字符的 id 必须忽略
+        if (!value.includes('\0')) {
+          this.lastEventIdBuffer = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.reconnectionTime = parseInt(value, 10);
+        }
+        break;
+      default:
+        // 未知字段按规范忽略
+        break;
+    }
+
+    return null;
+  }
+
+  private dispatch(): SSEMessage | null {
+    this.lastEventId = this.lastEventIdBuffer;
+
+    if (this.dataBuffer === '') {
+      this.eventTypeBuffer = '';
+      return null;
+    }
+
+    const data = this.dataBuffer.endsWith('\n') ? this.dataBuffer.slice(0, -1) : this.dataBuffer;
+    const message: SSEMessage = {
+      type: this.eventTypeBuffer || 'message',
+      data,
+      lastEventId: this.lastEventId,
+    };
+
+    this.dataBuffer = '';
+    this.eventTypeBuffer = '';
+    return message;
+  }
+}
@@ -1,3 +1,5 @@
+import type { BibEntry, CitationRuleSet, ReviewSession, StyleProfile } from '@papermirror/types';
+
 interface StoredFile {
   name: string;
   type: string;
@@ -56,4 +58,257 @@ export const loadFileFromStorage = async (key: string): Promise<File | null> =>
 
 export const removeFileFromStorage = (key: string): void => {
   localStorage.removeItem(key);
-};
\ No newline at end of file
+};
+
+export const saveFilesToStorage = async (key: string, files: File[]): Promise<void> => {
+  try {
+    const storedFiles: StoredFile[] = await Promise.all(
+      files.map(async (file) => ({
+        name: file.name,
+        type: file.type,
+        lastModified: file.lastModified,
+        content: await fileToBase64(file),
+      }))
+    );
+    localStorage.setItem(key, JSON.stringify(storedFiles));
+  } catch (error) {
+    console.error(`Failed to save files '${key}' to storage:`, error);
+  }
+};
+
+export const loadFilesFromStorage = async (key: string): Promise<File[]> => {
+  try {
+    const storedFilesJSON = localStorage.getItem(key);
+    if (!storedFilesJSON) {
+      return [];
+    }
+    const storedFiles: StoredFile[] = JSON.parse(storedFilesJSON);
+    return await Promise.all(
+      storedFiles.map((storedFile) =>
+        base64ToFile(storedFile.content, storedFile.name, {
+          type: storedFile.type,
+          lastModified: storedFile.lastModified,
+        })
+      )
+    );
+  } catch (error) {
+    console.error(`Failed to load files '${key}' from storage:`, error);
+    localStorage.removeItem(key);
+    return [];
+  }
+};
+
+// ==================== Active job persistence ====================
+
+const ACTIVE_JOB_KEY = 'activeJob';
+
+export interface StoredJob {
+  jobId: string;
+  submittedAt: number;
+  sampleName?: string;
+  draftName?: string;
+  selectedSections?: number[];
+  styleProfileId?: string;
+}
+
+export const saveActiveJob = (job: StoredJob): void => {
+  try {
+    localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify(job));
+  } catch (error) {
+    console.error('Failed to save active job to storage:', error);
+  }
+};
+
+export const loadActiveJob = (): StoredJob | null => {
+  try {
+    const storedJobJSON = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!storedJobJSON) {
+      return null;
+    }
+    const storedJob: StoredJob = JSON.parse(storedJobJSON);
+    return storedJob.jobId ? storedJob : null;
+  } catch (error) {
+    console.error('Failed to load active job from storage:', error);
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+    return null;
+  }
+};
+
+export const removeActiveJob = (): void => {
+  localStorage.removeItem(ACTIVE_JOB_KEY);
+};
+
+// ==================== Style profile persistence ====================
+
+const STYLE_PROFILES_KEY = 'styleProfiles';
+
+export const loadStyleProfiles = (): StyleProfile[] => {
+  try {
+    const storedJSON = localStorage.getItem(STYLE_PROFILES_KEY);
+    if (!storedJSON) {
+      return [];
+    }
+    const profiles: StyleProfile[] = JSON.parse(storedJSON);
+    return Array.isArray(profiles) ? profiles : [];
+  } catch (error) {
+    console.error('Failed to load style profiles from storage:', error);
+    localStorage.removeItem(STYLE_PROFILES_KEY);
+    return [];
+  }
+};
+
+// Inserts the profile, or replaces the stored one with the same id.
+export const saveStyleProfile = (profile: StyleProfile): StyleProfile[] => {
+  const profiles = loadStyleProfiles();
+  const index = profiles.findIndex((p) => p.id === profile.id);
+  if (index === -1) {
+    profiles.push(profile);
+  } else {
+    profiles[index] = profile;
+  }
+  try {
+    localStorage.setItem(STYLE_PROFILES_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save style profile to storage:', error);
+  }
+  return profiles;
+};
+
+export const removeStyleProfile = (id: string): StyleProfile[] => {
+  const profiles = loadStyleProfiles().filter((p) => p.id !== id);
+  localStorage.setItem(STYLE_PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+// ==================== Review session persistence ====================
+
+const REVIEW_SESSION_KEY = 'reviewSession';
+
+// Only the most recent review is kept. Sentence alignments are dropped to save
+// space; they are recomputed when the result is displayed again.
+export const saveReviewSession = (session: ReviewSession): void => {
+  const { analysisReport, ...result } = session.result;
+  const stored: ReviewSession = {
+    ...session,
+    result: analysisReport
+      ? { ...result, analysisReport: { ...analysisReport, alignment: undefined } }
+      : result,
+  };
+  try {
+    localStorage.setItem(REVIEW_SESSION_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Failed to save review session to storage:', error);
+  }
+};
+
+export const loadReviewSession = (): ReviewSession | null => {
+  try {
+    const storedJSON = localStorage.getItem(REVIEW_SESSION_KEY);
+    if (!storedJSON) {
+      return null;
+    }
+    const session: ReviewSession = JSON.parse(storedJSON);
+    return session.resultId && session.result ? session : null;
+  } catch (error) {
+    console.error('Failed to load review session from storage:', error);
+    localStorage.removeItem(REVIEW_SESSION_KEY);
+    return null;
+  }
+};
+
+export const removeReviewSession = (): void => {
+  localStorage.removeItem(REVIEW_SESSION_KEY);
+};
+
+// ==================== Bibliography persistence ====================
+
+const BIBLIOGRAPHY_KEY = 'bibliography';
+
+export interface StoredBibliography {
+  fileName: string;
+  entries: BibEntry[];
+}
+
+// Only the parsed entries are kept, never the original file.
+export const saveBibliography = (bibliography: StoredBibliography): void => {
+  try {
+    localStorage.setItem(BIBLIOGRAPHY_KEY, JSON.stringify(bibliography));
+  } catch (error) {
+    console.error('Failed to save bibliography to storage:', error);
+  }
+};
+
+export const loadBibliography = (): StoredBibliography | null => {
+  try {
+    const storedJSON = localStorage.getItem(BIBLIOGRAPHY_KEY);
+    if (!storedJSON) {
+      return null;
+    }
+    const bibliography: StoredBibliography = JSON.parse(storedJSON);
+    return Array.isArray(bibliography.entries) ? bibliography : null;
+  } catch (error) {
+    console.error('Failed to load bibliography from storage:', error);
+    localStorage.removeItem(BIBLIOGRAPHY_KEY);
+    return null;
+  }
+};
+
+export const removeBibliography = (): void => {
+  localStorage.removeItem(BIBLIOGRAPHY_KEY);
+};
+
+// ==================== Citation rule set persistence ====================
+
+const CITATION_RULE_SETS_KEY = 'citationRuleSets';
+const ACTIVE_CITATION_RULE_SET_KEY = 'activeCitationRuleSet';
+
+// The built-in rule set lives in code; only user-defined rule sets are stored.
+export const loadCitationRuleSets = (): CitationRuleSet[] => {
+  try {
+    const storedJSON = localStorage.getItem(CITATION_RULE_SETS_KEY);
+    if (!storedJSON) {
+      return [];
+    }
+    const ruleSets: CitationRuleSet[] = JSON.parse(storedJSON);
+    return Array.isArray(ruleSets) ? ruleSets : [];
+  } catch (error) {
+    console.error('Failed to load citation rule sets from storage:', error);
+    localStorage.removeItem(CITATION_RULE_SETS_KEY);
+    return [];
+  }
+};
+
+// Inserts the rule set, or replaces the stored one with the same id.
+export const saveCitationRuleSet = (ruleSet: CitationRuleSet): CitationRuleSet[] => {
+  const ruleSets = loadCitationRuleSets();
+  const index = ruleSets.findIndex((r) => r.id === ruleSet.id);
+  if (index === -1) {
+    ruleSets.push(ruleSet);
+  } else {
+    ruleSets[index] = ruleSet;
+  }
+  try {
+    localStorage.setItem(CITATION_RULE_SETS_KEY, JSON.stringify(ruleSets));
+  } catch (error) {
+    console.error('Failed to save citation rule set to storage:', error);
+  }
+  return ruleSets;
+};
+
+export const removeCitationRuleSet = (id: string): CitationRuleSet[] => {
+  const ruleSets = loadCitationRuleSets().filter((r) => r.id !== id);
+  localStorage.setItem(CITATION_RULE_SETS_KEY, JSON.stringify(ruleSets));
+  return ruleSets;
+};
+
+// The id of the rule set used for new runs; null means the built-in one.
+export const loadActiveCitationRuleSetId = (): string | null =>
+  localStorage.getItem(ACTIVE_CITATION_RULE_SET_KEY);
+
+export const saveActiveCitationRuleSetId = (id: string | null): void => {
+  if (id) {
+    localStorage.setItem(ACTIVE_CITATION_RULE_SET_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_CITATION_RULE_SET_KEY);
+  }
+};
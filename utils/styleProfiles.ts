@@ -0,0 +1,196 @@
+/**
+ * 风格档案（"期刊指纹"）的构建、合并与导入导出。
+ * 档案保存范文的风格指南和平均指标，可在后续运行中替代上传范文。
+ */
+
+import type { DetailedMetrics, StyleGuide, StyleProfile, StyleProfileFile, TextLanguage } from '@papermirror/types';
+import { aggregateMetrics, averageMetrics, mergeAggregates } from './analysis';
+import { ValidationError } from '../src/errors';
+
+const PROFILE_FORMAT = 'papermirror-style-profile';
+
+const LANGUAGE_LABELS: Record<TextLanguage, string> = { zh: '中文', en: '英文' };
+
+export interface ProfileSample {
+  name: string;
+  metrics: DetailedMetrics;
+}
+
+/**
+ * 按权重平均多份风格指南
+ * 数值字段加权平均；过渡词按出现顺序去重合并；语调和结构沿用第一份
+ */
+export function averageStyleGuides(guides: StyleGuide[], weights?: number[]): StyleGuide {
+  const w = weights ?? guides.map(() => 1);
+  const totalWeight = w.reduce((a, b) => a + b, 0);
+  const weighted = (pick: (guide: StyleGuide) => number) =>
+    Math.round((guides.reduce((acc, guide, i) => acc + pick(guide) * w[i], 0) / totalWeight) * 100) / 100;
+
+  return {
+    averageSentenceLength: weighted((g) => g.averageSentenceLength),
+    lexicalComplexity: weighted((g) => g.lexicalComplexity),
+    passiveVoicePercentage: weighted((g) => g.passiveVoicePercentage),
+    commonTransitions: [...new Set(guides.flatMap((g) => g.commonTransitions))],
+    tone: guides[0].tone,
+    structure: guides[0].structure,
+  };
+}
+
+/**
+ * 由一篇或多篇范文创建风格档案
+ */
+export function createStyleProfile(
+  name: string,
+  samples: ProfileSample[],
+  styleGuide?: StyleGuide
+): StyleProfile {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new ValidationError('风格档案名称不能为空', 'name');
+  }
+  if (samples.length === 0) {
+    throw new ValidationError('创建风格档案至少需要一篇范文', 'samples');
+  }
+
+  const now = new Date().toISOString();
+  const { mean, spread } = aggregateMetrics(samples.map((sample) => sample.metrics));
+  return {
+    id: `profile_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name: trimmedName,
+    createdAt: now,
+    updatedAt: now,
+    sampleNames: samples.map((sample) => sample.name),
+    styleGuide,
+    metrics: mean,
+    spread,
+  };
+}
+
+/**
+ * 将新的范文并入已有档案
+ * 指标和风格指南按范文数量加权平均，使档案始终代表所有范文的均值；
+ * 档案带有离散度时一并合并，结果与直接聚合全部范文一致
+ *
+ * @throws {ValidationError} 当范文的语言与档案不一致时
+ */
+export function mergeIntoProfile(
+  profile: StyleProfile,
+  samples: ProfileSample[],
+  styleGuide?: StyleGuide
+): StyleProfile {
+  const profileLanguage = profile.metrics.language ?? 'zh';
+  const mismatched = samples.filter((sample) => sample.metrics.language !== profileLanguage);
+  if (mismatched.length > 0) {
+    throw new ValidationError(
+      `范文 ${mismatched.map((sample) => sample.name).join('、')} 不是${LANGUAGE_LABELS[profileLanguage]}，` +
+        `不能并入${LANGUAGE_LABELS[profileLanguage]}风格档案「${profile.name}」`,
+      'samples'
+    );
+  }
+
+  const existingWeight = Math.max(1, profile.sampleNames.length);
+  const added = aggregateMetrics(samples.map((sample) => sample.metrics));
+  const merged = profile.spread
+    ? mergeAggregates({ mean: profile.metrics, spread: profile.spread }, added)
+    : { mean: averageMetrics([profile.metrics, added.mean], [existingWeight, samples.length]), spread: undefined };
+
+  let mergedGuide = profile.styleGuide ?? styleGuide;
+  if (profile.styleGuide && styleGuide) {
+    mergedGuide = averageStyleGuides([profile.styleGuide, styleGuide], [existingWeight, samples.length]);
+  }
+
+  return {
+    ...profile,
+    updatedAt: new Date().toISOString(),
+    sampleNames: [...profile.sampleNames, ...samples.map((sample) => sample.name)],
+    styleGuide: mergedGuide,
+    metrics: merged.mean,
+    spread: merged.spread,
+  };
+}
+
+/**
+ * 导出为 JSON 文本
+ */
+export function serializeStyleProfile(profile: StyleProfile): string {
+  const file: StyleProfileFile = { format: PROFILE_FORMAT, version: 1, profile };
+  return JSON.stringify(file, null, 2);
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+
+function isStyleGuide(value: unknown): value is StyleGuide {
+  const guide = value as StyleGuide;
+  return (
+    !!guide &&
+    isNumber(guide.averageSentenceLength) &&
+    isNumber(guide.lexicalComplexity) &&
+    isNumber(guide.passiveVoicePercentage) &&
+    Array.isArray(guide.commonTransitions) &&
+    typeof guide.tone === 'string' &&
+    typeof guide.structure === 'string'
+  );
+}
+
+function isDetailedMetrics(value: unknown): value is DetailedMetrics {
+  const metrics = value as DetailedMetrics;
+  return (
+    !!metrics &&
+    isNumber(metrics.sentenceLength?.mean) &&
+    isNumber(metrics.punctuationDensity?.comma) &&
+    isNumber(metrics.connectorCounts?.total) &&
+    isNumber(metrics.templateCounts?.perThousandChars) &&
+    isNumber(metrics.textLengthChars) &&
+    isNumber(metrics.sentenceCount)
+  );
+}
+
+/**
+ * 解析导入的 JSON 文本
+ *
+ * @throws {ValidationError} 当文件不是有效的风格档案时
+ */
+export function parseStyleProfile(json: string): StyleProfile {
+  let file: Partial<StyleProfileFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new ValidationError('风格档案文件不是有效的 JSON', 'file');
+  }
+
+  if (file.format !== PROFILE_FORMAT || file.version !== 1 || !file.profile) {
+    throw new ValidationError('不是 PaperMirror 风格档案文件，或版本不受支持', 'file');
+  }
+
+  const profile = file.profile;
+  if (typeof profile.id !== 'string' || typeof profile.name !== 'string' || !profile.name.trim()) {
+    throw new ValidationError('风格档案缺少 id 或名称', 'profile');
+  }
+  if (!isDetailedMetrics(profile.metrics)) {
+    throw new ValidationError('风格档案的指标数据不完整', 'metrics');
+  }
+  if (profile.styleGuide !== undefined && !isStyleGuide(profile.styleGuide)) {
+    throw new ValidationError('风格档案的风格指南格式无效', 'styleGuide');
+  }
+  if (
+    profile.spread !== undefined &&
+    !(isNumber(profile.spread?.sampleCount) && isDetailedMetrics(profile.spread.stdDev))
+  ) {
+    throw new ValidationError('风格档案的离散度数据格式无效', 'spread');
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: profile.id,
+    name: profile.name.trim(),
+    createdAt: typeof profile.createdAt === 'string' ? profile.createdAt : now,
+    updatedAt: typeof profile.updatedAt === 'string' ? profile.updatedAt : now,
+    sampleNames: Array.isArray(profile.sampleNames)
+      ? profile.sampleNames.filter((n): n is string => typeof n === 'string')
+      : [],
+    styleGuide: profile.styleGuide,
+    // 早期导出的档案没有语言标记，均为中文指标
+    metrics: { ...profile.metrics, language: profile.metrics.language ?? 'zh', lengthUnit: profile.metrics.lengthUnit ?? 'chars' },
+    spread: profile.spread,
+  };
+}